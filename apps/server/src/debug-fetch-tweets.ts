@@ -1,7 +1,7 @@
-import { TwitterClient } from "@steipete/bird";
+import { getTwitterClient, withRateLimit } from "@trend-x/api/services/twitter-client";
 import { db } from "@trend-x/db";
-import { config } from "@trend-x/db/schema";
-import { eq } from "drizzle-orm";
+import { twitterCredential } from "@trend-x/db/schema";
+import { asc, eq } from "drizzle-orm";
 import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from "fs";
 import { join } from "path";
 
@@ -37,27 +37,19 @@ interface Snapshot {
 }
 
 async function getClient() {
-  const [authTokenRow] = await db
-    .select({ value: config.value })
-    .from(config)
-    .where(eq(config.key, "twitter_auth_token"));
-
-  const [ct0Row] = await db
-    .select({ value: config.value })
-    .from(config)
-    .where(eq(config.key, "twitter_ct0"));
-
-  if (!authTokenRow?.value || !ct0Row?.value) {
-    console.error("Missing Twitter credentials in config table");
+  const [credential] = await db
+    .select({ authToken: twitterCredential.authToken, ct0: twitterCredential.ct0 })
+    .from(twitterCredential)
+    .where(eq(twitterCredential.status, "healthy"))
+    .orderBy(asc(twitterCredential.createdAt))
+    .limit(1);
+
+  if (!credential) {
+    console.error("No healthy Twitter credentials in the credential pool");
     process.exit(1);
   }
 
-  return new TwitterClient({
-    cookies: {
-      authToken: authTokenRow.value,
-      ct0: ct0Row.value,
-    },
-  });
+  return getTwitterClient(credential.authToken, credential.ct0);
 }
 
 type FetchFn = (
@@ -123,7 +115,7 @@ async function fetchAllPaged(
       `  Fetching ${label} page ${page}${cursor ? ` (cursor: ${cursor.slice(0, 20)}...)` : ""}...`,
     );
 
-    const result = await fetchFn(userId, 100, cursor);
+    const result = await withRateLimit("connections", () => fetchFn(userId, 100, cursor));
 
     if (!result.success) {
       console.error(`  Error fetching ${label}: ${result.error}`);
@@ -165,8 +157,6 @@ async function fetchAllPaged(
 
     if (!result.nextCursor || result.nextCursor.startsWith("0|")) break;
     cursor = result.nextCursor;
-
-    await new Promise((r) => setTimeout(r, 1500));
   }
 
   return { users: allUsers, stoppedEarly };
@@ -310,7 +300,7 @@ async function main() {
   const client = await getClient();
 
   console.log(`\nResolving @${handle}...`);
-  const lookup = await client.getUserIdByUsername(handle);
+  const lookup = await withRateLimit("user_lookup", () => client.getUserIdByUsername(handle));
   if (!lookup.userId) {
     console.error(`Could not find user @${handle}`);
     process.exit(1);
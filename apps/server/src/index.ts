@@ -2,6 +2,7 @@ import { trpcServer } from "@hono/trpc-server";
 import { createContext } from "@trend-x/api/context";
 import { appRouter } from "@trend-x/api/routers/index";
 import { initializeScheduler } from "@trend-x/api/services/scheduler";
+import { importLegacyConfigCredential } from "@trend-x/api/services/twitter-credentials";
 import { env } from "@trend-x/env/server";
 import { Hono } from "hono";
 import { cors } from "hono/cors";
@@ -12,6 +13,11 @@ const app = new Hono();
 // Initialize tweet fetch scheduler - runs every 6 hours
 initializeScheduler();
 
+// Move the legacy single cookie pair from config into the credential pool
+importLegacyConfigCredential().catch((error) => {
+  console.error("Failed to import legacy Twitter credentials:", error);
+});
+
 app.use(logger());
 app.use(
   "/*",
@@ -2,13 +2,20 @@
 
 import { useRouter } from "next/navigation";
 import { useEffect } from "react";
+import { AccountTags } from "@/components/dashboard/account-tags";
+import { AmplificationSection } from "@/components/dashboard/amplification-section";
+import { FetchGapNotice } from "@/components/dashboard/fetch-gap-notice";
+import { MonitoringControls } from "@/components/dashboard/monitoring-controls";
+import { NamedEntitiesSection } from "@/components/dashboard/named-entities-section";
 import { NotificationList } from "@/components/dashboard/notifications/notification-list";
 import { OverviewDashboard } from "@/components/dashboard/overview/overview-dashboard";
 import { PipelineProgress } from "@/components/dashboard/pipeline-progress";
+import { ProfileHistory } from "@/components/dashboard/profile-history";
 import { ProfileSection } from "@/components/dashboard/profile-section";
 import { RunControls } from "@/components/dashboard/run-controls";
 import { RunHistory } from "@/components/dashboard/run-history";
 import { SocialSection } from "@/components/dashboard/social-section";
+import { SystemNotices } from "@/components/dashboard/system-notices";
 import { TweetHeatmap } from "@/components/dashboard/tweet-heatmap";
 import { DevToolsFloat } from "@/components/settings/dev-tools-section";
 import { useAccount } from "@/contexts/account-context";
@@ -65,6 +72,7 @@ export default function DashboardPage() {
 
   // Account-specific dashboard
   const selectedAccount = accounts?.find((a) => a.id === selectedAccountId);
+  const isArchived = selectedAccount?.status === "archived";
 
   return (
     <div className="container mx-auto max-w-5xl space-y-10 p-4">
@@ -76,10 +84,36 @@ export default function DashboardPage() {
             {selectedAccount ? `@${selectedAccount.handle}` : "Dashboard"}
           </h1>
           <p className="mt-1 text-muted-foreground text-sm">Live behavioral profile</p>
+          <ProfileHistory accountId={selectedAccountId} />
+          {selectedAccount && (
+            <AccountTags accountId={selectedAccountId} tags={selectedAccount.tags} />
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {selectedAccount && (
+            <MonitoringControls
+              accountId={selectedAccountId}
+              status={selectedAccount.status}
+              fetchIntervalMinutes={selectedAccount.fetchIntervalMinutes}
+            />
+          )}
+          <RunControls readOnly={isArchived} />
         </div>
-        <RunControls />
       </div>
 
+      {isArchived && (
+        <p className="border border-border bg-muted/50 px-4 py-3 text-muted-foreground text-sm">
+          This account is archived. Its history is kept read-only and it is no longer fetched or
+          analyzed. Set it to active to resume monitoring.
+        </p>
+      )}
+
+      {/* System alerts, e.g. expired Twitter credentials */}
+      <SystemNotices />
+
+      {/* Timeline gaps left by capped fetches */}
+      <FetchGapNotice accountId={selectedAccountId} />
+
       {/* Pipeline progress */}
       <PipelineProgress />
 
@@ -95,6 +129,12 @@ export default function DashboardPage() {
       {/* Tweet activity heatmap */}
       <TweetHeatmap />
 
+      {/* Most linked domains, hashtags and mentions */}
+      <AmplificationSection accountId={selectedAccountId} />
+
+      {/* Most mentioned companies, people, products and tickers */}
+      <NamedEntitiesSection accountId={selectedAccountId} />
+
       {/* Pipeline run history */}
       <section className="space-y-6">
         <div>
@@ -4,7 +4,13 @@ import { ArrowLeft } from "lucide-react";
 import Link from "next/link";
 
 import { AIConfigSection } from "@/components/ai-config/ai-config-section";
-import { TelegramCredentialsForm, TwitterCredentialsForm } from "@/components/credential-forms";
+import {
+  FetchLimitsForm,
+  TelegramCredentialsForm,
+  TweetSourceForm,
+} from "@/components/credential-forms";
+import { CredentialPool } from "@/components/settings/credential-pool";
+import { RateLimitBudget } from "@/components/settings/rate-limit-budget";
 import { ScheduleSection } from "@/components/settings/schedule-section";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useConfigAll } from "@/hooks/queries";
@@ -51,7 +57,18 @@ export default function SettingsPage() {
           <CardTitle>Twitter/X Credentials</CardTitle>
         </CardHeader>
         <CardContent>
-          <TwitterCredentialsForm defaultValues={configMap} />
+          <CredentialPool />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tweet Fetching</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <TweetSourceForm defaultValues={configMap} />
+          <FetchLimitsForm defaultValues={configMap} />
+          <RateLimitBudget />
         </CardContent>
       </Card>
 
@@ -1,20 +1,28 @@
 "use client";
 
-import { ChevronDown, LayoutDashboard, Plus, X } from "lucide-react";
+import { ChevronDown, LayoutDashboard, Plus, Tags, Upload, X } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 import { AddAccountDialog } from "@/components/add-account-dialog";
+import { BulkImportDialog } from "@/components/bulk-import-dialog";
 import { Badge } from "@/components/ui/badge";
 import { buttonVariants } from "@/components/ui/button";
 import {
   DropdownMenu,
   DropdownMenuContent,
+  DropdownMenuGroup,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useAccount } from "@/contexts/account-context";
-import { useAccountList, useDeleteAccount, useUnreadCount } from "@/hooks/queries";
+import {
+  useAccountGroups,
+  useAccountList,
+  useDeleteAccount,
+  useUnreadCount,
+} from "@/hooks/queries";
 import { cn } from "@/lib/utils";
 
 function AccountMenuItem({
@@ -23,7 +31,7 @@ function AccountMenuItem({
   onSelect,
   onDelete,
 }: {
-  account: { id: string; handle: string };
+  account: { id: string; handle: string; status: string };
   canDelete: boolean;
   onSelect: () => void;
   onDelete: (e: React.MouseEvent) => void;
@@ -33,7 +41,14 @@ function AccountMenuItem({
   return (
     <DropdownMenuItem className="flex items-center justify-between gap-2" onClick={onSelect}>
       <span className="flex items-center gap-2 truncate">
-        <span className="truncate">@{account.handle}</span>
+        <span className={cn("truncate", account.status === "archived" && "text-muted-foreground")}>
+          @{account.handle}
+        </span>
+        {account.status !== "active" && (
+          <Badge variant="outline" className="h-4 px-1 text-[10px]">
+            {account.status}
+          </Badge>
+        )}
         {(unreadCount ?? 0) > 0 && (
           <Badge variant="destructive" className="h-4 min-w-4 px-1 text-[10px]">
             {(unreadCount ?? 0) > 9 ? "9+" : unreadCount}
@@ -56,9 +71,11 @@ function AccountMenuItem({
 
 export function AccountSelector() {
   const [addDialogOpen, setAddDialogOpen] = useState(false);
-  const { selectedAccountId, setSelectedAccountId } = useAccount();
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const { selectedAccountId, setSelectedAccountId, selectedGroup, setSelectedGroup } = useAccount();
 
   const { data: accounts, isLoading } = useAccountList();
+  const { data: groups } = useAccountGroups();
 
   const { data: selectedUnreadCount } = useUnreadCount(selectedAccountId || "", {
     enabled: !!selectedAccountId,
@@ -72,6 +89,11 @@ export function AccountSelector() {
   const selectedAccount = accounts?.find((a) => a.id === selectedAccountId);
   const canDelete = (accounts?.length ?? 0) > 1;
 
+  // The account list is narrowed to the selected group; the selected account stays visible
+  const visibleAccounts = selectedGroup
+    ? accounts?.filter((a) => a.tags.includes(selectedGroup) || a.id === selectedAccountId)
+    : accounts;
+
   const handleSelect = (accountId: string) => {
     setSelectedAccountId(accountId);
   };
@@ -97,7 +119,11 @@ export function AccountSelector() {
         >
           <span className="flex max-w-[150px] items-center gap-1.5">
             <span className="truncate">
-              {selectedAccount ? `@${selectedAccount.handle}` : "Overview"}
+              {selectedAccount
+                ? `@${selectedAccount.handle}`
+                : selectedGroup
+                  ? `Overview · ${selectedGroup}`
+                  : "Overview"}
             </span>
             {(selectedUnreadCount ?? 0) > 0 && (
               <Badge variant="destructive" className="h-4 min-w-4 px-1 text-[10px]">
@@ -114,7 +140,29 @@ export function AccountSelector() {
             {!selectedAccountId && <span className="ml-auto text-xs">✓</span>}
           </DropdownMenuItem>
           <DropdownMenuSeparator />
-          {accounts.map((account) => (
+          {groups && groups.length > 0 && (
+            <>
+              <DropdownMenuGroup>
+                <DropdownMenuLabel>Groups</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => setSelectedGroup(null)}>
+                  <Tags className="mr-2 h-4 w-4" />
+                  All accounts
+                  {!selectedGroup && <span className="ml-auto text-xs">✓</span>}
+                </DropdownMenuItem>
+                {groups.map((group) => (
+                  <DropdownMenuItem key={group.name} onClick={() => setSelectedGroup(group.name)}>
+                    <Tags className="mr-2 h-4 w-4" />
+                    <span className="truncate">{group.name}</span>
+                    <span className="ml-auto text-muted-foreground text-xs">
+                      {selectedGroup === group.name ? "✓" : group.accountCount}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuGroup>
+              <DropdownMenuSeparator />
+            </>
+          )}
+          {(visibleAccounts ?? []).map((account) => (
             <AccountMenuItem
               key={account.id}
               account={account}
@@ -128,10 +176,15 @@ export function AccountSelector() {
             <Plus className="mr-2 h-4 w-4" />
             Add Account
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setImportDialogOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import Accounts
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
 
       <AddAccountDialog open={addDialogOpen} onOpenChange={setAddDialogOpen} />
+      <BulkImportDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} />
     </>
   );
 }
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { useAIConfig, useDetectOllama, useSetAIConfig } from "@/hooks/queries";
+import { EmbeddingCacheStats } from "./embedding-cache-stats";
 import { ModelSelector } from "./model-selector";
 import { ProviderSelector } from "./provider-selector";
 import { UsageChart } from "./usage-chart";
@@ -173,6 +174,10 @@ export function AIConfigSection() {
         <Separator />
 
         <UsageChart />
+
+        <Separator />
+
+        <EmbeddingCacheStats />
       </CardContent>
     </Card>
   );
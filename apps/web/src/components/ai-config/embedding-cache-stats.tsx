@@ -0,0 +1,57 @@
+"use client";
+
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEmbeddingCacheStats, usePurgeStaleEmbeddings } from "@/hooks/queries";
+
+export function EmbeddingCacheStats() {
+  const { data: stats, isLoading } = useEmbeddingCacheStats();
+  const purgeMutation = usePurgeStaleEmbeddings({
+    onSuccess: (data) => toast.success(`Removed ${data.deleted} stale embeddings`),
+    onError: (error) => toast.error(error.message),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <h3 className="font-medium text-sm">Stored Embeddings</h3>
+        <Skeleton className="h-16 w-full" />
+      </div>
+    );
+  }
+
+  if (!stats) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium text-sm">Stored Embeddings</h3>
+      <p className="text-muted-foreground text-xs">
+        {stats.totalCount} vectors cached. Texts already embedded with{" "}
+        <span className="font-mono">{stats.currentModel}</span> are not sent to the provider again.
+      </p>
+      {stats.byModel.length > 0 && (
+        <div className="space-y-1">
+          {stats.byModel.map((row) => (
+            <div key={row.model} className="flex items-center justify-between text-xs">
+              <span className="font-mono">{row.model}</span>
+              <span className={row.isCurrent ? "" : "text-muted-foreground"}>
+                {row.count} {row.isCurrent ? "" : "(stale)"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+      {stats.staleCount > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => purgeMutation.mutate()}
+          disabled={purgeMutation.isPending}
+        >
+          {purgeMutation.isPending ? "Removing..." : `Remove ${stats.staleCount} stale vectors`}
+        </Button>
+      )}
+    </div>
+  );
+}
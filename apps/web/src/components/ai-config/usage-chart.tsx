@@ -31,6 +31,10 @@ const chartConfig = {
     label: "Explanations",
     color: "var(--chart-4)",
   },
+  entities: {
+    label: "Entities",
+    color: "var(--chart-5)",
+  },
 } satisfies ChartConfig;
 
 export function UsageChart() {
@@ -105,6 +109,12 @@ export function UsageChart() {
             dataKey="explanation"
             stackId="tokens"
             fill="var(--color-explanation)"
+            radius={[0, 0, 0, 0]}
+          />
+          <Bar
+            dataKey="entities"
+            stackId="tokens"
+            fill="var(--color-entities)"
             radius={[4, 4, 0, 0]}
           />
         </BarChart>
@@ -0,0 +1,238 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useBulkImportAccounts } from "@/hooks/queries";
+
+type ImportFormat = "csv" | "handles" | "twitter_list";
+
+const FORMATS: Array<{ value: ImportFormat; label: string; placeholder: string }> = [
+  {
+    value: "handles",
+    label: "Handle list",
+    placeholder: "One handle per line\n@jack\nelonmusk",
+  },
+  {
+    value: "csv",
+    label: "CSV",
+    placeholder: 'handle,tags,notes\njack,founder;vc,"Co-founder, Twitter"',
+  },
+  {
+    value: "twitter_list",
+    label: "Twitter list",
+    placeholder: "https://x.com/i/lists/1234567890 or 1234567890",
+  },
+];
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  ready: "secondary",
+  created: "default",
+  duplicate: "outline",
+  invalid: "destructive",
+};
+
+interface BulkImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Add many accounts at once. "Preview" validates every row without writing;
+ * "Import" creates the new accounts and optionally queues their first fetch.
+ */
+export function BulkImportDialog({ open, onOpenChange }: BulkImportDialogProps) {
+  const [format, setFormat] = useState<ImportFormat>("handles");
+  const [content, setContent] = useState("");
+  const [tags, setTags] = useState("");
+  const [queueIngest, setQueueIngest] = useState(true);
+
+  const importMutation = useBulkImportAccounts({
+    onSuccess: (data) => {
+      if (data.queuedJobIds.length > 0) {
+        toast.success(
+          `Imported ${data.created} account(s), fetching tweets for ${data.queuedJobIds.length} in the background`,
+        );
+      }
+    },
+    onError: (error) => {
+      toast.error(`Import failed: ${error.message}`);
+    },
+  });
+
+  const result = importMutation.data;
+  const isPreview = importMutation.variables?.dryRun === true;
+  const currentFormat = FORMATS.find((f) => f.value === format) ?? FORMATS[0];
+
+  const submit = (dryRun: boolean) => {
+    if (!content.trim()) {
+      toast.error("Nothing to import");
+      return;
+    }
+    importMutation.mutate({
+      format,
+      content,
+      tags: tags
+        .split(",")
+        .map((t) => t.trim())
+        .filter(Boolean),
+      dryRun,
+      queueIngest,
+    });
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setContent("");
+      importMutation.reset();
+    }
+    onOpenChange(nextOpen);
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Import Accounts</AlertDialogTitle>
+          <AlertDialogDescription>
+            Paste handles, a CSV with handle, tags and notes columns, or a Twitter list. Handles
+            that are already monitored are skipped.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          <Field>
+            <FieldLabel>Format</FieldLabel>
+            <Select
+              value={format}
+              onValueChange={(value) => value && setFormat(value as ImportFormat)}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMATS.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="bulk-import-content">
+              {format === "twitter_list" ? "List URL or ID" : "Accounts"}
+            </FieldLabel>
+            {format === "twitter_list" ? (
+              <Input
+                id="bulk-import-content"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder={currentFormat?.placeholder}
+              />
+            ) : (
+              <Textarea
+                id="bulk-import-content"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder={currentFormat?.placeholder}
+                rows={6}
+                className="font-mono text-xs"
+              />
+            )}
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="bulk-import-tags">Tags for every account (optional)</FieldLabel>
+            <Input
+              id="bulk-import-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. vc, watchlist"
+            />
+          </Field>
+
+          <div className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={queueIngest}
+              onCheckedChange={(checked) => setQueueIngest(checked === true)}
+              aria-label="Fetch tweets for new accounts"
+            />
+            Fetch tweets for new accounts (one after another, to stay within rate limits)
+          </div>
+
+          {result && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {isPreview ? "Preview: " : ""}
+                {result.created} {isPreview ? "to add" : "added"} · {result.duplicates} duplicate ·{" "}
+                {result.invalid} invalid
+              </p>
+              <ScrollArea className="max-h-56 border">
+                <div className="divide-y text-xs">
+                  {result.rows.map((row) => (
+                    <div key={row.row} className="flex items-center gap-3 px-3 py-1.5">
+                      <span className="w-8 text-muted-foreground">{row.row}</span>
+                      <span className="flex-1 truncate">
+                        {row.handle ? `@${row.handle}` : row.input || "(empty)"}
+                        {row.tags.length > 0 && (
+                          <span className="ml-2 text-muted-foreground">{row.tags.join(", ")}</span>
+                        )}
+                      </span>
+                      {row.message && (
+                        <span className="truncate text-muted-foreground">{row.message}</span>
+                      )}
+                      <Badge variant={STATUS_VARIANTS[row.status]} className="text-[10px]">
+                        {row.status}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => handleOpenChange(false)}>Close</AlertDialogCancel>
+          <Button
+            variant="outline"
+            disabled={importMutation.isPending}
+            onClick={() => submit(true)}
+          >
+            Preview
+          </Button>
+          <Button disabled={importMutation.isPending} onClick={() => submit(false)}>
+            {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
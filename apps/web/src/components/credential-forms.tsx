@@ -1,19 +1,25 @@
 "use client";
 
 import { useForm } from "@tanstack/react-form";
-import { CheckCircle, Download, Loader2, Send, XCircle } from "lucide-react";
+import { Download, Loader2, Send } from "lucide-react";
 import { toast } from "sonner";
 
 import { Button } from "@/components/ui/button";
 import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
-import { PasswordInput } from "@/components/ui/input";
+import { Input, PasswordInput } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   useFetchChatId,
   useSendTestMessage,
   useSetBulkConfig,
   useSetTelegramConfig,
   useTelegramStatus,
-  useTestTwitterCredentials,
   useToggleTelegramEnabled,
 } from "@/hooks/queries";
 
@@ -102,49 +108,44 @@ export function CookieInstructions() {
   );
 }
 
-export function TwitterCredentialsForm({
-  defaultValues = {},
-  submitText = "Save",
-  onSuccess,
-}: FormProps) {
+const TWEET_SOURCES = [
+  { value: "bird", label: "Live (Bird)" },
+  { value: "archive", label: "Data archives" },
+  { value: "fixture", label: "JSON fixtures (offline)" },
+] as const;
+
+export function TweetSourceForm({ defaultValues = {}, submitText = "Save", onSuccess }: FormProps) {
   const setBulkMutation = useSetBulkConfig({
     onSuccess: () => {
-      toast.success("Twitter credentials saved");
+      toast.success("Tweet source saved");
       onSuccess?.();
     },
     onError: (error) => {
-      toast.error(`Failed to save credentials: ${error.message}`);
-    },
-  });
-
-  const testMutation = useTestTwitterCredentials({
-    onSuccess: (data) => {
-      if (data.success) {
-        toast.success(`Authenticated as ${data.name} (@${data.username})`);
-      } else {
-        toast.error(`Credentials invalid: ${data.error}`);
-      }
-    },
-    onError: (error) => {
-      toast.error(`Test failed: ${error.message}`);
+      toast.error(`Failed to save tweet source: ${error.message}`);
     },
   });
 
   const form = useForm({
     defaultValues: {
-      authToken: defaultValues.twitter_auth_token ?? "",
-      ct0: defaultValues.twitter_ct0 ?? "",
+      source: defaultValues.tweet_source ?? "bird",
+      archiveDir: defaultValues.tweet_source_archive_dir ?? "",
+      fixtureDir: defaultValues.tweet_source_fixture_dir ?? "",
     },
     onSubmit: async ({ value }) => {
-      if (!value.authToken || !value.ct0) {
-        toast.error("Both Twitter cookies are required");
+      if (value.source === "archive" && !value.archiveDir.trim()) {
+        toast.error("Archive directory is required");
+        return;
+      }
+      if (value.source === "fixture" && !value.fixtureDir.trim()) {
+        toast.error("Fixture directory is required");
         return;
       }
 
       await setBulkMutation.mutateAsync({
         entries: [
-          { key: "twitter_auth_token", value: value.authToken },
-          { key: "twitter_ct0", value: value.ct0 },
+          { key: "tweet_source", value: value.source },
+          { key: "tweet_source_archive_dir", value: value.archiveDir.trim() },
+          { key: "tweet_source_fixture_dir", value: value.fixtureDir.trim() },
         ],
       });
     },
@@ -159,31 +160,139 @@ export function TwitterCredentialsForm({
       }}
       className="space-y-4"
     >
-      <CookieInstructions />
-      <form.Field name="authToken">
+      <form.Field name="source">
         {(field) => (
           <Field>
-            <FieldLabel htmlFor="twitter-auth-token">auth_token cookie</FieldLabel>
-            <PasswordInput
-              id="twitter-auth-token"
+            <FieldLabel htmlFor="tweet-source">Source</FieldLabel>
+            <Select
               value={field.state.value}
-              onChange={(e) => field.handleChange(e.target.value)}
-              placeholder="From twitter.com cookies"
-            />
+              onValueChange={(value) => value && field.handleChange(value)}
+            >
+              <SelectTrigger id="tweet-source" className="w-full">
+                <SelectValue>
+                  {TWEET_SOURCES.find((s) => s.value === field.state.value)?.label ??
+                    field.state.value}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                {TWEET_SOURCES.map((source) => (
+                  <SelectItem key={source.value} value={source.value}>
+                    {source.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FieldDescription>
+              Archives have no follower lists, so social snapshots still use the live source.
+            </FieldDescription>
           </Field>
         )}
       </form.Field>
 
-      <form.Field name="ct0">
+      <form.Subscribe selector={(state) => state.values.source}>
+        {(source) => (
+          <>
+            {source === "archive" && (
+              <form.Field name="archiveDir">
+                {(field) => (
+                  <Field>
+                    <FieldLabel htmlFor="tweet-source-archive-dir">Archive directory</FieldLabel>
+                    <Input
+                      id="tweet-source-archive-dir"
+                      value={field.state.value}
+                      onChange={(e) => field.handleChange(e.target.value)}
+                      placeholder="/data/archives"
+                    />
+                    <FieldDescription>
+                      One extracted archive per handle: &lt;dir&gt;/&lt;handle&gt;/data/tweets.js
+                    </FieldDescription>
+                  </Field>
+                )}
+              </form.Field>
+            )}
+            {source === "fixture" && (
+              <form.Field name="fixtureDir">
+                {(field) => (
+                  <Field>
+                    <FieldLabel htmlFor="tweet-source-fixture-dir">Fixture directory</FieldLabel>
+                    <Input
+                      id="tweet-source-fixture-dir"
+                      value={field.state.value}
+                      onChange={(e) => field.handleChange(e.target.value)}
+                      placeholder="/data/fixtures"
+                    />
+                    <FieldDescription>
+                      One folder per handle with profile.json, tweets.json, following.json and
+                      followers.json
+                    </FieldDescription>
+                  </Field>
+                )}
+              </form.Field>
+            )}
+          </>
+        )}
+      </form.Subscribe>
+
+      <Button type="submit" disabled={setBulkMutation.isPending} className="w-full">
+        {setBulkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        {submitText}
+      </Button>
+    </form>
+  );
+}
+
+export function FetchLimitsForm({ defaultValues = {}, submitText = "Save", onSuccess }: FormProps) {
+  const setBulkMutation = useSetBulkConfig({
+    onSuccess: () => {
+      toast.success("Fetch limits saved");
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast.error(`Failed to save fetch limits: ${error.message}`);
+    },
+  });
+
+  const form = useForm({
+    defaultValues: {
+      maxPages: defaultValues.twitter_fetch_max_pages ?? "10",
+    },
+    onSubmit: async ({ value }) => {
+      const maxPages = Number.parseInt(value.maxPages, 10);
+      if (!Number.isFinite(maxPages) || maxPages < 1) {
+        toast.error("Page cap must be a positive number");
+        return;
+      }
+
+      await setBulkMutation.mutateAsync({
+        entries: [{ key: "twitter_fetch_max_pages", value: String(maxPages) }],
+      });
+    },
+  });
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        form.handleSubmit();
+      }}
+      className="space-y-4"
+    >
+      <form.Field name="maxPages">
         {(field) => (
           <Field>
-            <FieldLabel htmlFor="twitter-ct0">ct0 cookie</FieldLabel>
-            <PasswordInput
-              id="twitter-ct0"
+            <FieldLabel htmlFor="twitter-fetch-max-pages">Page cap per fetch</FieldLabel>
+            <Input
+              id="twitter-fetch-max-pages"
+              type="number"
+              min={1}
               value={field.state.value}
               onChange={(e) => field.handleChange(e.target.value)}
-              placeholder="From twitter.com cookies"
             />
+            <FieldDescription>
+              Incremental fetches page back (~20 tweets per page) until the last known tweet. If
+              this cap is hit first, the gap is recorded and can be backfilled later.
+            </FieldDescription>
           </Field>
         )}
       </form.Field>
@@ -192,23 +301,6 @@ export function TwitterCredentialsForm({
         {setBulkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
         {submitText}
       </Button>
-
-      <Button
-        type="button"
-        variant="outline"
-        onClick={() => testMutation.mutate()}
-        disabled={testMutation.isPending}
-        className="w-full"
-      >
-        {testMutation.isPending ? (
-          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-        ) : testMutation.data?.success ? (
-          <CheckCircle className="mr-2 h-4 w-4 text-green-500" />
-        ) : testMutation.data && !testMutation.data.success ? (
-          <XCircle className="mr-2 h-4 w-4 text-destructive" />
-        ) : null}
-        Test Credentials
-      </Button>
     </form>
   );
 }
@@ -0,0 +1,84 @@
+"use client";
+
+import { Plus, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useSetAccountTags } from "@/hooks/queries";
+
+interface AccountTagsProps {
+  accountId: string;
+  tags: string[];
+}
+
+/**
+ * Inline editor for an account's tags. Each tag is an account group that the
+ * overview, cross-account graph and schedules can be scoped to.
+ */
+export function AccountTags({ accountId, tags }: AccountTagsProps) {
+  const [draft, setDraft] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const setTagsMutation = useSetAccountTags({
+    onError: (error) => toast.error(`Failed to update tags: ${error.message}`),
+  });
+
+  const save = (nextTags: string[]) => {
+    setTagsMutation.mutate({ accountId, tags: nextTags });
+  };
+
+  const handleAdd = () => {
+    const tag = draft.trim().toLowerCase();
+    setDraft("");
+    setAdding(false);
+    if (!tag || tags.includes(tag)) return;
+    save([...tags, tag]);
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1.5">
+      {tags.map((tag) => (
+        <Badge key={tag} variant="outline" className="gap-1 text-xs">
+          {tag}
+          <button
+            type="button"
+            onClick={() => save(tags.filter((t) => t !== tag))}
+            disabled={setTagsMutation.isPending}
+            className="hover:text-destructive"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      {adding ? (
+        <Input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={handleAdd}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAdd();
+            if (e.key === "Escape") {
+              setDraft("");
+              setAdding(false);
+            }
+          }}
+          placeholder="Tag, e.g. vc"
+          className="h-6 w-32 text-xs"
+          maxLength={50}
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => setAdding(true)}
+          className="flex items-center gap-1 text-muted-foreground text-xs hover:text-foreground"
+        >
+          <Plus className="h-3 w-3" />
+          {tags.length === 0 ? "Add to group" : "Tag"}
+        </button>
+      )}
+    </div>
+  );
+}
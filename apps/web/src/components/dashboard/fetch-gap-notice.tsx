@@ -0,0 +1,71 @@
+"use client";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, History, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useFetchGaps } from "@/hooks/queries";
+import { queryKeys } from "@/hooks/queries/query-keys";
+import { trpc } from "@/utils/trpc";
+
+interface FetchGapNoticeProps {
+  accountId: string;
+}
+
+/**
+ * Warns when incremental fetches hit the page cap and left holes in the
+ * stored timeline, with a shortcut to run the gap backfill job.
+ */
+export function FetchGapNotice({ accountId }: FetchGapNoticeProps) {
+  const { data: gaps } = useFetchGaps(accountId);
+  const queryClient = useQueryClient();
+
+  const backfillMutation = useMutation(
+    trpc.job.trigger.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.job.activeRuns(accountId) });
+      },
+      onError: (error: { message: string }) => {
+        toast.error(error?.message || "Failed to start backfill");
+      },
+    }),
+  );
+
+  if (!gaps || gaps.length === 0) return null;
+
+  const oldestGap = gaps[gaps.length - 1];
+  const failedCount = gaps.filter((g) => g.lastError).length;
+
+  return (
+    <div className="flex items-center justify-between gap-4 border border-yellow-500/40 bg-yellow-500/5 p-3">
+      <div className="flex items-start gap-2 text-sm">
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-600" />
+        <div>
+          <p className="font-medium">
+            {gaps.length} gap{gaps.length === 1 ? "" : "s"} in tweet history
+          </p>
+          <p className="text-muted-foreground text-xs">
+            A fetch hit the page cap before reaching the last known tweet
+            {oldestGap &&
+              ` (oldest ${formatDistanceToNow(new Date(oldestGap.createdAt * 1000), { addSuffix: true })})`}
+            .{failedCount > 0 && ` ${failedCount} failed to backfill last time.`}
+          </p>
+        </div>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={backfillMutation.isPending}
+        onClick={() => backfillMutation.mutate({ accountId, jobType: "gap_backfill" })}
+      >
+        {backfillMutation.isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <History className="mr-2 h-4 w-4" />
+        )}
+        Backfill
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { strFromU8, unzip } from "fflate";
+import { Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { useImportArchive } from "@/hooks/queries";
+
+// Only the data files we need; media and other archive files are never read into memory
+const ARCHIVE_DATA_FILE = /(^|\/)data\/(tweets(-part\d+)?|account)\.js$/;
+
+interface ArchiveFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * Extract tweet/account data files from an archive zip, or read a bare tweets.js.
+ */
+async function readArchiveFiles(file: File): Promise<ArchiveFile[]> {
+  if (!file.name.toLowerCase().endsWith(".zip")) {
+    return [{ name: file.name, content: await file.text() }];
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const entries = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, { filter: (entry) => ARCHIVE_DATA_FILE.test(entry.name) }, (err, result) =>
+      err ? reject(err) : resolve(result),
+    );
+  });
+
+  return Object.entries(entries).map(([name, bytes]) => ({ name, content: strFromU8(bytes) }));
+}
+
+interface ImportArchiveDialogProps {
+  accountId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImportArchiveDialog({ accountId, open, onOpenChange }: ImportArchiveDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const importMutation = useImportArchive({
+    onSuccess: (result) => {
+      toast.success(
+        `Imported ${result.imported} tweets (${result.skipped} already stored)` +
+          (result.rebuildJobId ? ". Rebuilding profile..." : ""),
+      );
+      setFile(null);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to import archive: ${error.message}`);
+    },
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      toast.error("Please choose an archive file");
+      return;
+    }
+
+    setIsReading(true);
+    let files: ArchiveFile[];
+    try {
+      files = await readArchiveFiles(file);
+    } catch (error) {
+      toast.error(
+        `Could not read archive: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return;
+    } finally {
+      setIsReading(false);
+    }
+
+    if (files.length === 0) {
+      toast.error("No tweets.js found in archive");
+      return;
+    }
+
+    await importMutation.mutateAsync({ accountId, files });
+  };
+
+  const isPending = isReading || importMutation.isPending;
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Import Archive</AlertDialogTitle>
+          <AlertDialogDescription>
+            Load the account's full history from its Twitter/X data archive. The profile is rebuilt
+            afterwards.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <form onSubmit={handleSubmit}>
+          <Field className="mb-4">
+            <FieldLabel htmlFor="archive-file">Archive</FieldLabel>
+            <Input
+              id="archive-file"
+              type="file"
+              accept=".zip,.js"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <FieldDescription>The archive .zip, or its data/tweets.js file</FieldDescription>
+          </Field>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => onOpenChange(false)}>Cancel</AlertDialogCancel>
+            <Button type="submit" disabled={!file || isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useIngestionPolicy, useUpdateIngestionPolicy } from "@/hooks/queries";
+
+type TweetType = "original" | "reply" | "retweet" | "quote";
+
+interface IngestionPolicy {
+  includeReplies: boolean;
+  includeRetweets: boolean;
+  includeQuotes: boolean;
+  weights: Record<TweetType, number>;
+}
+
+const TWEET_TYPES: Array<{
+  type: TweetType;
+  label: string;
+  includeKey: "includeReplies" | "includeRetweets" | "includeQuotes" | null;
+}> = [
+  { type: "original", label: "Original tweets", includeKey: null },
+  { type: "reply", label: "Replies", includeKey: "includeReplies" },
+  { type: "retweet", label: "Retweets", includeKey: "includeRetweets" },
+  { type: "quote", label: "Quote tweets", includeKey: "includeQuotes" },
+];
+
+interface IngestionPolicyDialogProps {
+  accountId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function IngestionPolicyDialog({
+  accountId,
+  open,
+  onOpenChange,
+}: IngestionPolicyDialogProps) {
+  const { data } = useIngestionPolicy(open ? accountId : null);
+  const [policy, setPolicy] = useState<IngestionPolicy | null>(null);
+
+  // Reset the draft whenever the dialog opens or the stored policy changes
+  useEffect(() => {
+    if (open && data) setPolicy(data);
+  }, [open, data]);
+
+  const updateMutation = useUpdateIngestionPolicy({
+    onSuccess: () => {
+      toast.success("Ingestion policy saved");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save policy: ${error.message}`);
+    },
+  });
+
+  const setWeight = (type: TweetType, value: string) => {
+    const weight = Number.parseFloat(value);
+    if (!policy || Number.isNaN(weight)) return;
+    setPolicy({
+      ...policy,
+      weights: { ...policy.weights, [type]: Math.min(1, Math.max(0, weight)) },
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!policy) return;
+    await updateMutation.mutateAsync({ accountId, policy });
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Ingestion Policy</AlertDialogTitle>
+          <AlertDialogDescription>
+            Choose which tweet types are stored for this account and how much each counts in topic
+            classification and personality evaluation (0 = stored but ignored). Applies to future
+            fetches.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <form onSubmit={handleSubmit}>
+          {!policy ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="mb-4 space-y-2">
+              <div className="flex items-center gap-3 text-muted-foreground text-xs">
+                <span className="w-4" />
+                <span className="flex-1">Type</span>
+                <span className="w-20">Weight</span>
+              </div>
+              {TWEET_TYPES.map(({ type, label, includeKey }) => {
+                const included = includeKey ? policy[includeKey] : true;
+                return (
+                  <div key={type} className="flex items-center gap-3">
+                    <Checkbox
+                      checked={included}
+                      disabled={!includeKey}
+                      onCheckedChange={(checked) =>
+                        includeKey && setPolicy({ ...policy, [includeKey]: checked === true })
+                      }
+                      aria-label={`Store ${label.toLowerCase()}`}
+                    />
+                    <span className="flex-1 text-sm">{label}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.1}
+                      className="w-20"
+                      value={policy.weights[type]}
+                      disabled={!included}
+                      onChange={(e) => setWeight(type, e.target.value)}
+                      aria-label={`${label} weight`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => onOpenChange(false)}>Cancel</AlertDialogCancel>
+            <Button type="submit" disabled={!policy || updateMutation.isPending}>
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
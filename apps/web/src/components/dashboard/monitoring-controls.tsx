@@ -0,0 +1,158 @@
+"use client";
+
+import { Archive, ChevronDown, CirclePause, CirclePlay } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuGroup,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useUpdateAccountMonitoring } from "@/hooks/queries";
+
+type AccountStatus = "active" | "paused" | "archived";
+
+const STATUS_OPTIONS: Array<{
+  value: AccountStatus;
+  label: string;
+  description: string;
+  icon: typeof CirclePlay;
+}> = [
+  {
+    value: "active",
+    label: "Active",
+    description: "Fetched and analyzed on schedule",
+    icon: CirclePlay,
+  },
+  {
+    value: "paused",
+    label: "Paused",
+    description: "Skipped by schedules, manual runs allowed",
+    icon: CirclePause,
+  },
+  {
+    value: "archived",
+    label: "Archived",
+    description: "Skipped by schedules, data kept read-only",
+    icon: Archive,
+  },
+];
+
+// "schedule" = follow the ingest schedule; other values are minutes
+const CADENCE_OPTIONS = [
+  { value: "schedule", label: "Follow schedule" },
+  { value: "15", label: "Every 15 minutes" },
+  { value: "60", label: "Hourly" },
+  { value: "360", label: "Every 6 hours" },
+  { value: "1440", label: "Daily" },
+  { value: "10080", label: "Weekly" },
+] as const;
+
+function getCadenceLabel(fetchIntervalMinutes: number | null): string {
+  if (fetchIntervalMinutes === null) return "Follow schedule";
+  const preset = CADENCE_OPTIONS.find((o) => o.value === String(fetchIntervalMinutes));
+  return preset?.label ?? `Every ${fetchIntervalMinutes} minutes`;
+}
+
+interface MonitoringControlsProps {
+  accountId: string;
+  status: string;
+  fetchIntervalMinutes: number | null;
+}
+
+/**
+ * Lifecycle status and fetch cadence of an account: pause or archive it without
+ * deleting history, and fetch hot accounts more (or slow ones less) often than the schedule.
+ */
+export function MonitoringControls({
+  accountId,
+  status,
+  fetchIntervalMinutes,
+}: MonitoringControlsProps) {
+  const mutation = useUpdateAccountMonitoring({
+    onError: (error) => toast.error(`Failed to update monitoring: ${error.message}`),
+  });
+
+  const current = STATUS_OPTIONS.find((o) => o.value === status) ?? STATUS_OPTIONS[0];
+  const StatusIcon = current.icon;
+
+  const handleStatusChange = (value: AccountStatus) => {
+    if (value === status) return;
+    mutation.mutate(
+      { accountId, status: value },
+      {
+        onSuccess: () =>
+          toast.success(value === "active" ? "Monitoring resumed" : `Account ${value}`),
+      },
+    );
+  };
+
+  const handleCadenceChange = (value: string) => {
+    mutation.mutate({
+      accountId,
+      fetchIntervalMinutes: value === "schedule" ? null : Number(value),
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        disabled={mutation.isPending}
+        render={
+          <Button size="sm" variant="outline" disabled={mutation.isPending}>
+            <StatusIcon className="mr-2 h-4 w-4" />
+            {current.label}
+            {status === "active" && fetchIntervalMinutes !== null && (
+              <span className="ml-1 text-muted-foreground">
+                · {getCadenceLabel(fetchIntervalMinutes).toLowerCase()}
+              </span>
+            )}
+            <ChevronDown className="ml-1 h-3 w-3 opacity-50" />
+          </Button>
+        }
+      />
+      <DropdownMenuContent align="end" className="min-w-[240px]">
+        <DropdownMenuGroup>
+          <DropdownMenuLabel>Status</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={status}
+            onValueChange={(value) => handleStatusChange(value as AccountStatus)}
+          >
+            {STATUS_OPTIONS.map((option) => (
+              <DropdownMenuRadioItem key={option.value} value={option.value}>
+                <option.icon />
+                <span className="flex flex-col">
+                  <span>{option.label}</span>
+                  <span className="text-muted-foreground">{option.description}</span>
+                </span>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuGroup>
+          <DropdownMenuLabel>Fetch cadence</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={fetchIntervalMinutes === null ? "schedule" : String(fetchIntervalMinutes)}
+            onValueChange={(value) => handleCadenceChange(value as string)}
+          >
+            {CADENCE_OPTIONS.map((option) => (
+              <DropdownMenuRadioItem
+                key={option.value}
+                value={option.value}
+                disabled={status === "archived"}
+              >
+                {option.label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
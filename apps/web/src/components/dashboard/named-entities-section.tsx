@@ -0,0 +1,129 @@
+"use client";
+
+import { Building2, CircleDollarSign, Package, User } from "lucide-react";
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useNamedEntities } from "@/hooks/queries";
+
+type NamedEntityType = "company" | "person" | "product" | "ticker";
+
+const ENTITY_COLUMNS: Array<{
+  type: NamedEntityType;
+  title: string;
+  icon: typeof Building2;
+  format: (name: string) => string;
+}> = [
+  { type: "company", title: "Companies", icon: Building2, format: (v) => v },
+  { type: "person", title: "People", icon: User, format: (v) => v },
+  { type: "product", title: "Products", icon: Package, format: (v) => v },
+  { type: "ticker", title: "Tickers", icon: CircleDollarSign, format: (v) => `$${v}` },
+];
+
+const WINDOWS: Array<{ value: string; label: string; days?: number }> = [
+  { value: "7", label: "Last 7 days", days: 7 },
+  { value: "30", label: "Last 30 days", days: 30 },
+  { value: "90", label: "Last 90 days", days: 90 },
+  { value: "all", label: "All time" },
+];
+
+const SKELETON_ROWS = ["row-1", "row-2", "row-3", "row-4", "row-5"];
+
+interface NamedEntitiesSectionProps {
+  accountId: string;
+}
+
+export function NamedEntitiesSection({ accountId }: NamedEntitiesSectionProps) {
+  const [windowValue, setWindowValue] = useState("30");
+  const days = WINDOWS.find((w) => w.value === windowValue)?.days;
+
+  return (
+    <section className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="font-semibold text-xl">Named Entities</h2>
+          <p className="mt-1 text-muted-foreground text-sm">
+            Companies, people, products and tickers the account talks about most.
+          </p>
+        </div>
+        <Select value={windowValue} onValueChange={(value) => value && setWindowValue(value)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WINDOWS.map((w) => (
+              <SelectItem key={w.value} value={w.value}>
+                {w.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-4">
+        {ENTITY_COLUMNS.map((column) => (
+          <EntityCard key={column.type} accountId={accountId} days={days} {...column} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function EntityCard({
+  accountId,
+  days,
+  type,
+  title,
+  icon: Icon,
+  format,
+}: (typeof ENTITY_COLUMNS)[number] & { accountId: string; days?: number }) {
+  const { data, isLoading } = useNamedEntities(accountId, type, days);
+  const topCount = data?.[0]?.count ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Icon className="h-4 w-4 text-muted-foreground" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {SKELETON_ROWS.map((row) => (
+              <Skeleton key={row} className="h-5 w-full" />
+            ))}
+          </div>
+        ) : !data || data.length === 0 ? (
+          <EmptyState message={`No ${title.toLowerCase()} in this window.`} />
+        ) : (
+          <ul className="space-y-2">
+            {data.map((entity) => (
+              <li key={entity.normalizedName} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{format(entity.name)}</span>
+                  <span className="shrink-0 text-muted-foreground text-xs">{entity.count}</span>
+                </div>
+                <div className="h-1 bg-muted">
+                  <div
+                    className="h-1 bg-primary"
+                    style={{ width: `${(entity.count / topCount) * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -40,7 +40,9 @@ function formatRelativeTime(timestamp: number): string {
 
 function getBadgeVariant(changeType: string): "default" | "secondary" | "destructive" | "outline" {
   if (changeType === "topic_new" || changeType === "topic_drop") return "default";
-  if (changeType === "sentiment_shift") return "destructive";
+  if (changeType === "sentiment_shift" || changeType === "tweet_deleted") return "destructive";
+  if (changeType === "tweet_edited" || changeType === "handle_changed") return "secondary";
+  if (changeType === "profile_field_changed") return "secondary";
   if (changeType === "activity_spike" || changeType === "activity_drop") return "secondary";
   if (changeType === "silence") return "outline";
   return "default";
@@ -15,6 +15,7 @@ import {
 import { ChangeDetail } from "./change-detail";
 import { EvidenceTweets } from "./evidence-tweets";
 import { NotificationItem } from "./notification-item";
+import { TweetChangeEvidence } from "./tweet-change-evidence";
 
 interface NotificationListProps {
   accountId: string;
@@ -27,6 +28,7 @@ type Notification = {
   changeType: string;
   isRead: number;
   createdAt: number;
+  evidence: Record<string, unknown> | null;
   change: {
     id: string;
     type: string;
@@ -153,6 +155,16 @@ export function NotificationList({ accountId }: NotificationListProps) {
                 <SheetDescription>{selected.explanation}</SheetDescription>
               </div>
 
+              {selected.evidence &&
+                (selected.changeType === "tweet_deleted" ||
+                  selected.changeType === "tweet_edited") && (
+                  <TweetChangeEvidence evidence={selected.evidence} />
+                )}
+
+              {selected.evidence && selected.changeType === "entity_new" && (
+                <EvidenceTweets tweetIds={selected.evidence.tweetIds as string[]} />
+              )}
+
               {selected.change && (
                 <>
                   <ChangeDetail
@@ -0,0 +1,54 @@
+"use client";
+
+interface TweetChangeEvidenceProps {
+  evidence: {
+    tweetId?: string;
+    tweetCreatedAt?: number;
+    originalText?: string;
+    newText?: string;
+  };
+}
+
+/**
+ * Stored text of a deleted or edited tweet. Deleted tweets can no longer be
+ * embedded from Twitter, so the text we kept is the only evidence.
+ */
+export function TweetChangeEvidence({ evidence }: TweetChangeEvidenceProps) {
+  if (!evidence.originalText) return null;
+
+  const postedAt = evidence.tweetCreatedAt
+    ? new Date(evidence.tweetCreatedAt * 1000).toLocaleString()
+    : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <h4 className="font-semibold text-sm">Original Tweet</h4>
+        <blockquote className="whitespace-pre-wrap border-destructive border-l-2 bg-muted/50 p-3 text-sm">
+          {evidence.originalText}
+        </blockquote>
+        {postedAt && <p className="text-muted-foreground text-xs">Posted {postedAt}</p>}
+      </div>
+
+      {evidence.newText && (
+        <div className="space-y-1.5">
+          <h4 className="font-semibold text-sm">Edited To</h4>
+          <blockquote className="whitespace-pre-wrap border-primary border-l-2 bg-muted/50 p-3 text-sm">
+            {evidence.newText}
+          </blockquote>
+        </div>
+      )}
+
+      {evidence.tweetId && (
+        <a
+          href={`https://twitter.com/i/status/${evidence.tweetId}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-muted-foreground text-xs hover:text-foreground"
+        >
+          Open on Twitter
+        </a>
+      )}
+    </div>
+  );
+}
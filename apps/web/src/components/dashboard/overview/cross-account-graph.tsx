@@ -30,8 +30,12 @@ const LEGEND_COLORS = {
   oneWayEdge: "rgba(71, 85, 105, 0.35)",
 };
 
-export function CrossAccountGraph() {
-  const { data, isLoading } = useCrossAccountGraph();
+interface CrossAccountGraphProps {
+  group?: string | null; // Limit to the accounts of one group
+}
+
+export function CrossAccountGraph({ group }: CrossAccountGraphProps) {
+  const { data, isLoading } = useCrossAccountGraph(group);
   const [currentTime, setCurrentTime] = useState<number | null>(null);
 
   // Initialize currentTime when data loads
@@ -0,0 +1,104 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCrossAccountTrends, useMarkTrendRead } from "@/hooks/queries";
+
+interface CrossAccountTrendsProps {
+  group: string | null;
+}
+
+// Evidence tweets shown per trend
+const VISIBLE_TWEETS = 4;
+
+const SKELETON_ROWS = ["row-1", "row-2"];
+
+/**
+ * Subjects several accounts started covering within a short window, with the
+ * accounts involved and the tweets that make up the trend.
+ */
+export function CrossAccountTrends({ group }: CrossAccountTrendsProps) {
+  const { data: trends, isLoading } = useCrossAccountTrends(group);
+  const markReadMutation = useMarkTrendRead();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {SKELETON_ROWS.map((row) => (
+          <Skeleton key={row} className="h-[120px]" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!trends || trends.length === 0) {
+    return <EmptyState message="No subjects trending across accounts this week" />;
+  }
+
+  return (
+    <div className="space-y-2">
+      {trends.map((trend) => (
+        <Card key={trend.notificationId}>
+          <CardContent className="space-y-3 p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-sm">{trend.evidence.label}</p>
+                  {trend.isRead === 0 && (
+                    <span className="bg-primary/10 px-1.5 py-0.5 font-medium text-[10px] text-primary">
+                      New
+                    </span>
+                  )}
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  {trend.evidence.accounts.length} accounts · {trend.evidence.tweetIds.length}{" "}
+                  tweets ·{" "}
+                  {formatDistanceToNow(new Date(trend.createdAt * 1000), { addSuffix: true })}
+                </p>
+              </div>
+              {trend.isRead === 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={markReadMutation.isPending}
+                  onClick={() => markReadMutation.mutate({ notificationId: trend.notificationId })}
+                >
+                  <Check className="mr-2 h-4 w-4" />
+                  Mark read
+                </Button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {trend.evidence.accounts.map((acc) => (
+                <Badge key={acc.accountId} variant="outline" className="text-xs">
+                  @{acc.handle}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="space-y-1.5">
+              {trend.evidence.tweets.slice(0, VISIBLE_TWEETS).map((tweet) => (
+                <a
+                  key={tweet.tweetId}
+                  href={`https://twitter.com/i/status/${tweet.tweetId}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block border-l-2 pl-3 text-xs hover:border-foreground/40"
+                >
+                  <span className="font-medium">@{tweet.handle}</span>{" "}
+                  <span className="line-clamp-2 text-muted-foreground">{tweet.text}</span>
+                </a>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
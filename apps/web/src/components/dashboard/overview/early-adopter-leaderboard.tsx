@@ -0,0 +1,124 @@
+"use client";
+
+import { format } from "date-fns";
+import { Line, LineChart, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEarlyAdopters } from "@/hooks/queries";
+
+interface EarlyAdopterLeaderboardProps {
+  group: string | null;
+}
+
+// Adopters listed per emerging theme
+const VISIBLE_ADOPTERS = 5;
+
+function formatLead(days: number): string {
+  const rounded = Math.round(days);
+  if (rounded === 0) return "on time";
+  return rounded > 0 ? `${rounded}d early` : `${-rounded}d late`;
+}
+
+/**
+ * Which accounts mention emerging themes first: a leaderboard of early adopter
+ * scores with their trend, and the adoption order of recently emerged themes.
+ */
+export function EarlyAdopterLeaderboard({ group }: EarlyAdopterLeaderboardProps) {
+  const { data, isLoading } = useEarlyAdopters(group);
+
+  if (isLoading) {
+    return (
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Skeleton className="h-[300px]" />
+        <Skeleton className="h-[300px]" />
+      </div>
+    );
+  }
+
+  if (!data || (data.leaderboard.length === 0 && data.themes.length === 0)) {
+    return (
+      <EmptyState message="Not enough shared themes yet. Early adopters appear once several accounts pick up the same themes." />
+    );
+  }
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Leaderboard</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {data.leaderboard.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No account has adopted enough themes to be scored
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {data.leaderboard.map((entry, index) => (
+                <div key={entry.accountId} className="flex items-center gap-3 text-sm">
+                  <span className="w-5 shrink-0 text-muted-foreground tabular-nums">
+                    {index + 1}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">@{entry.handle}</p>
+                    <p className="text-muted-foreground text-xs">
+                      {entry.themesLed} of {entry.themesAdopted} themes first ·{" "}
+                      {formatLead(entry.averageLeadDays)}
+                    </p>
+                  </div>
+                  <LineChart width={80} height={28} data={entry.history}>
+                    <YAxis hide domain={[0, 1]} />
+                    <Line
+                      type="monotone"
+                      dataKey="score"
+                      stroke="var(--primary)"
+                      strokeWidth={1.5}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                  <span className="w-10 shrink-0 text-right font-bold tabular-nums">
+                    {Math.round(entry.score * 100)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm">Emerging Themes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {data.themes.map((theme) => (
+              <div key={theme.themeId} className="space-y-1">
+                <div className="flex items-baseline justify-between gap-2">
+                  <p className="truncate font-medium text-sm">{theme.label}</p>
+                  <span className="shrink-0 text-muted-foreground text-xs">
+                    {format(new Date(theme.emergedAt * 1000), "MMM d, yyyy")}
+                  </span>
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  {theme.adopters
+                    .slice(0, VISIBLE_ADOPTERS)
+                    .map((adopter, i) =>
+                      i === 0
+                        ? `@${adopter.handle}`
+                        : `@${adopter.handle} (+${Math.round(adopter.lagDays)}d)`,
+                    )
+                    .join(" → ")}
+                  {theme.adopters.length > VISIBLE_ADOPTERS &&
+                    ` +${theme.adopters.length - VISIBLE_ADOPTERS} more`}
+                </p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useEntityMentions } from "@/hooks/queries";
+
+interface EntityMentionsProps {
+  group: string | null;
+}
+
+// Handles listed per entity
+const VISIBLE_ACCOUNTS = 4;
+
+/**
+ * Companies, people, products and tickers mentioned by the most accounts over the
+ * last 30 days.
+ */
+export function EntityMentions({ group }: EntityMentionsProps) {
+  const { data: entities, isLoading } = useEntityMentions(group);
+
+  if (isLoading) {
+    return <Skeleton className="h-[300px]" />;
+  }
+
+  if (!entities || entities.length === 0) {
+    return <EmptyState message="No named entities mentioned in the last 30 days" />;
+  }
+
+  return (
+    <Card>
+      <CardContent className="divide-y p-0">
+        {entities.map((entity) => (
+          <div
+            key={`${entity.type}:${entity.normalizedName}`}
+            className="flex items-center gap-4 px-4 py-3"
+          >
+            <div className="min-w-0 flex-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="truncate font-medium text-sm">
+                  {entity.type === "ticker" ? `$${entity.name}` : entity.name}
+                </p>
+                <Badge variant="outline" className="text-[10px]">
+                  {entity.type}
+                </Badge>
+              </div>
+              <p className="truncate text-muted-foreground text-xs">
+                {entity.accounts
+                  .slice(0, VISIBLE_ACCOUNTS)
+                  .map((acc) => `@${acc.handle}`)
+                  .join(", ")}
+                {entity.accounts.length > VISIBLE_ACCOUNTS &&
+                  ` +${entity.accounts.length - VISIBLE_ACCOUNTS} more`}
+              </p>
+            </div>
+            <div className="shrink-0 text-right text-xs tabular-nums">
+              <div className="font-bold text-sm">{entity.accounts.length}</div>
+              <div className="text-muted-foreground">
+                account{entity.accounts.length === 1 ? "" : "s"} · {entity.mentionCount} tweets
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
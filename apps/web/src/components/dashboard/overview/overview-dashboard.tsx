@@ -2,6 +2,7 @@
 
 import { Activity, Bell, Users } from "lucide-react";
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { SystemNotices } from "@/components/dashboard/system-notices";
 import { ActivityLog } from "@/components/profile/activity-log";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -12,6 +13,7 @@ import {
 } from "@/components/ui/chart";
 import { EmptyState } from "@/components/ui/empty-state";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useAccount } from "@/contexts/account-context";
 import {
   useGlobalActivity,
   useNotificationTrend,
@@ -19,6 +21,10 @@ import {
   useRecentActivity,
 } from "@/hooks/queries";
 import { CrossAccountGraph } from "./cross-account-graph";
+import { CrossAccountTrends } from "./cross-account-trends";
+import { EarlyAdopterLeaderboard } from "./early-adopter-leaderboard";
+import { EntityMentions } from "./entity-mentions";
+import { ThemeRanking } from "./theme-ranking";
 
 const chartConfig = {
   count: {
@@ -28,11 +34,13 @@ const chartConfig = {
 } satisfies ChartConfig;
 
 export function OverviewDashboard() {
-  const { data: metrics, isLoading: metricsLoading } = useOverviewMetrics();
+  const { selectedGroup } = useAccount();
 
-  const { data: recentActivity, isLoading: activityLoading } = useRecentActivity();
+  const { data: metrics, isLoading: metricsLoading } = useOverviewMetrics(selectedGroup);
 
-  const { data: notificationTrend, isLoading: trendLoading } = useNotificationTrend();
+  const { data: recentActivity, isLoading: activityLoading } = useRecentActivity(selectedGroup);
+
+  const { data: notificationTrend, isLoading: trendLoading } = useNotificationTrend(selectedGroup);
 
   const { data: globalActivity, isLoading: globalActivityLoading } = useGlobalActivity(30);
 
@@ -51,9 +59,13 @@ export function OverviewDashboard() {
         <h1 className="font-bold text-2xl">Overview</h1>
         <p className="mt-1 text-muted-foreground text-sm">
           Monitoring {metrics?.totalAccounts ?? 0} account{metrics?.totalAccounts === 1 ? "" : "s"}
+          {selectedGroup && ` in group "${selectedGroup}"`}
         </p>
       </div>
 
+      {/* System alerts, e.g. expired Twitter credentials */}
+      <SystemNotices />
+
       {/* KPI Cards */}
       <section>
         <div className="grid gap-4 md:grid-cols-3">
@@ -155,12 +167,60 @@ export function OverviewDashboard() {
         )}
       </section>
 
+      {/* Cross-Account Trends */}
+      <section className="space-y-4">
+        <div>
+          <h2 className="font-semibold text-xl">Trending Across Accounts</h2>
+          <p className="mt-1 text-muted-foreground text-sm">
+            Subjects several accounts started covering within the last two days
+          </p>
+        </div>
+
+        <CrossAccountTrends group={selectedGroup} />
+      </section>
+
+      {/* Shared Themes */}
+      <section className="space-y-4">
+        <div>
+          <h2 className="font-semibold text-xl">Shared Themes</h2>
+          <p className="mt-1 text-muted-foreground text-sm">
+            Topics aligned across accounts, ranked by how many accounts discuss them
+          </p>
+        </div>
+
+        <ThemeRanking group={selectedGroup} />
+      </section>
+
+      {/* Early Adopters */}
+      <section className="space-y-4">
+        <div>
+          <h2 className="font-semibold text-xl">Early Adopters</h2>
+          <p className="mt-1 text-muted-foreground text-sm">
+            Accounts that pick up emerging themes before the others
+          </p>
+        </div>
+
+        <EarlyAdopterLeaderboard group={selectedGroup} />
+      </section>
+
+      {/* Entity Mentions */}
+      <section className="space-y-4">
+        <div>
+          <h2 className="font-semibold text-xl">Most Mentioned Entities</h2>
+          <p className="mt-1 text-muted-foreground text-sm">
+            Companies, people, products and tickers discussed by the most accounts
+          </p>
+        </div>
+
+        <EntityMentions group={selectedGroup} />
+      </section>
+
       {/* Recent Activity Feed */}
       <section className="space-y-4">
         <div>
           <h2 className="font-semibold text-xl">Recent Activity</h2>
           <p className="mt-1 text-muted-foreground text-sm">
-            Latest notifications across all monitored accounts
+            Latest notifications across {selectedGroup ? "the group's" : "all monitored"} accounts
           </p>
         </div>
 
@@ -237,7 +297,8 @@ export function OverviewDashboard() {
           </p>
         </div>
 
-        <CrossAccountGraph />
+        {/* Keyed by group so the timeline scrubber resets to the new group's range */}
+        <CrossAccountGraph key={selectedGroup ?? "all"} group={selectedGroup} />
       </section>
     </div>
   );
@@ -0,0 +1,121 @@
+"use client";
+
+import { Loader2, RefreshCw, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useRebuildThemes, useThemeRanking } from "@/hooks/queries";
+
+const SKELETON_ROWS = ["row-1", "row-2", "row-3", "row-4"];
+
+interface ThemeRankingProps {
+  group: string | null;
+}
+
+/**
+ * Cross-account themes ranked by how many accounts discuss them, with the change
+ * in that number over the last week.
+ */
+export function ThemeRanking({ group }: ThemeRankingProps) {
+  const { data, isLoading } = useThemeRanking(group);
+
+  const rebuildMutation = useRebuildThemes({
+    onSuccess: (result) =>
+      toast.success(`Rebuilt ${result.themeCount} themes (${result.newThemeCount} new)`),
+    onError: (error) => toast.error(`Failed to rebuild themes: ${error.message}`),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {SKELETON_ROWS.map((row) => (
+          <Skeleton key={row} className="h-[60px]" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-muted-foreground text-xs">
+          {data?.capturedAt
+            ? `Last rebuilt ${new Date(data.capturedAt * 1000).toLocaleString()}`
+            : "Themes are built daily from every account's topics"}
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => rebuildMutation.mutate()}
+          disabled={rebuildMutation.isPending}
+        >
+          {rebuildMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-2 h-4 w-4" />
+          )}
+          Rebuild
+        </Button>
+      </div>
+
+      {!data || data.themes.length === 0 ? (
+        <EmptyState message="No shared themes yet. Themes appear once accounts have topics." />
+      ) : (
+        <div className="space-y-2">
+          {data.themes.map((theme, index) => (
+            <Card key={theme.themeId}>
+              <CardContent className="flex items-start gap-4 p-4">
+                <span className="w-6 shrink-0 font-medium text-muted-foreground text-sm tabular-nums">
+                  {index + 1}
+                </span>
+                <div className="min-w-0 flex-1 space-y-1.5">
+                  <p className="font-medium text-sm">{theme.label}</p>
+                  <div className="flex flex-wrap gap-1">
+                    {theme.topics.slice(0, 6).map((topic) => (
+                      <Badge
+                        key={`${topic.accountId}-${topic.topicLabel}`}
+                        variant="outline"
+                        className="text-xs"
+                      >
+                        @{topic.handle} · {topic.topicLabel}
+                      </Badge>
+                    ))}
+                    {theme.topics.length > 6 && (
+                      <span className="text-muted-foreground text-xs">
+                        +{theme.topics.length - 6} more
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="shrink-0 text-right">
+                  <div className="font-bold text-lg tabular-nums">{theme.accountCount}</div>
+                  <div className="text-muted-foreground text-xs">
+                    account{theme.accountCount === 1 ? "" : "s"}
+                  </div>
+                  {theme.growth !== null && theme.growth !== 0 && (
+                    <div
+                      className={`mt-1 flex items-center justify-end gap-1 text-xs ${
+                        theme.growth > 0 ? "text-green-600" : "text-red-500"
+                      }`}
+                    >
+                      {theme.growth > 0 ? (
+                        <TrendingUp className="h-3 w-3" />
+                      ) : (
+                        <TrendingDown className="h-3 w-3" />
+                      )}
+                      {theme.growth > 0 ? "+" : ""}
+                      {theme.growth} this week
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -53,6 +53,8 @@ const stageLabels: Record<string, string> = {
   embedding: "Embed",
   clustering: "Cluster",
   labeling: "Label",
+  scoring: "Score",
+  extracting: "Entities",
   detecting: "Detect",
   notifying: "Notify",
   // Social snapshot stages
@@ -62,6 +64,8 @@ const stageLabels: Record<string, string> = {
   fetch_following: "Following",
   diff_connections: "Diff",
   store_snapshot: "Store",
+  // Topic maintenance stages
+  maintaining: "Maintain",
 };
 
 // Human-readable job type labels
@@ -69,6 +73,9 @@ const jobTypeLabels: Record<string, string> = {
   profile_update: "Profile Update",
   social_snapshot: "Social Snapshot",
   ingest: "Ingest",
+  gap_backfill: "Gap Backfill",
+  engagement_poll: "Engagement Poll",
+  topic_maintenance: "Topic Maintenance",
 };
 
 const DISMISS_DURATION_MS = 60_000;
@@ -384,7 +391,8 @@ function formatStepSummary(stage: string, summary: Record<string, unknown>): str
     case "fetching": {
       if (summary.tweetCount != null) {
         const count = summary.tweetCount as number;
-        return `${count} tweet${count === 1 ? "" : "s"}`;
+        const label = `${count} tweet${count === 1 ? "" : "s"}`;
+        return summary.gapRecorded ? `${label}, gap recorded` : label;
       }
       if (summary.followingCount != null) {
         const parts: string[] = [];
@@ -397,7 +405,8 @@ function formatStepSummary(stage: string, summary: Record<string, unknown>): str
     }
     case "embedding": {
       const count = summary.embeddingCount as number;
-      return `${count} embedded`;
+      const cached = summary.cachedCount as number | undefined;
+      return cached ? `${count} embedded (${cached} cached)` : `${count} embedded`;
     }
     case "classifying": {
       const parts: string[] = [];
@@ -406,6 +415,16 @@ function formatStepSummary(stage: string, summary: Record<string, unknown>): str
       if (summary.newTopics) parts.push(`${summary.newTopics} new`);
       return parts.join(", ") || "done";
     }
+    case "scoring": {
+      const count = (summary.scoredCount as number) || 0;
+      const topics = (summary.topicsRescored as number) || 0;
+      return topics > 0 ? `${count} scored, ${topics} topics` : `${count} scored`;
+    }
+    case "extracting": {
+      const count = (summary.entityCount as number) || 0;
+      const newCount = (summary.newEntityCount as number) || 0;
+      return newCount > 0 ? `${count} entities, ${newCount} new` : `${count} entities`;
+    }
     case "updating": {
       const parts: string[] = [];
       if (summary.tweetsPerDay != null) parts.push(`${Number(summary.tweetsPerDay).toFixed(1)}/day`);
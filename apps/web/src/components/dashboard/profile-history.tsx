@@ -0,0 +1,152 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { BadgeCheck, History } from "lucide-react";
+import Image from "next/image";
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetTitle } from "@/components/ui/sheet";
+import { useProfileSnapshots } from "@/hooks/queries";
+
+type ProfileField =
+  | "displayName"
+  | "description"
+  | "location"
+  | "website"
+  | "profileImageUrl"
+  | "pinnedTweetId"
+  | "isVerified";
+
+const FIELD_LABELS: Record<ProfileField, string> = {
+  displayName: "Display name",
+  description: "Bio",
+  location: "Location",
+  website: "Website",
+  profileImageUrl: "Avatar",
+  pinnedTweetId: "Pinned tweet",
+  isVerified: "Verification",
+};
+
+interface ProfileHistoryProps {
+  accountId: string;
+}
+
+function formatRelativeTime(timestamp: number): string {
+  return formatDistanceToNow(new Date(timestamp * 1000), { addSuffix: true });
+}
+
+function FieldValue({ field, value }: { field: ProfileField; value: string | null }) {
+  if (!value) return <span className="text-muted-foreground italic">empty</span>;
+
+  if (field === "profileImageUrl") {
+    // Twitter-hosted avatar, shown as is rather than through the image optimizer
+    return (
+      <Image
+        src={value}
+        alt=""
+        width={32}
+        height={32}
+        unoptimized
+        className="size-8 rounded-full"
+      />
+    );
+  }
+  if (field === "pinnedTweetId") {
+    return (
+      <a
+        href={`https://twitter.com/i/status/${value}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline-offset-4 hover:underline"
+      >
+        {value}
+      </a>
+    );
+  }
+  return <span className="whitespace-pre-wrap">{value}</span>;
+}
+
+/**
+ * Current Twitter profile of the account (name, verification, bio) with a sheet
+ * listing past profile edits. Renders nothing until a profile has been captured.
+ */
+export function ProfileHistory({ accountId }: ProfileHistoryProps) {
+  const [open, setOpen] = useState(false);
+  const { data: snapshots } = useProfileSnapshots(accountId);
+
+  const current = snapshots?.[0];
+  if (!current) return null;
+
+  const edits = snapshots.filter((s) => s.changes.length > 0);
+  const lastEdit = edits[0];
+  const firstCapture = snapshots[snapshots.length - 1] ?? current;
+
+  return (
+    <div className="mt-2 max-w-xl space-y-1 text-sm">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">{current.displayName}</span>
+        {current.isVerified && <BadgeCheck className="size-4 text-blue-500" />}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-muted-foreground text-xs"
+          onClick={() => setOpen(true)}
+        >
+          <History className="mr-1 size-3" />
+          {lastEdit
+            ? `${edits.length} profile edit${edits.length === 1 ? "" : "s"} · last ${formatRelativeTime(lastEdit.capturedAt)}`
+            : "Profile history"}
+        </Button>
+      </div>
+      {current.description && (
+        <p className="line-clamp-2 text-muted-foreground text-xs">{current.description}</p>
+      )}
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent>
+          <div className="space-y-6">
+            <div>
+              <SheetTitle>Profile History</SheetTitle>
+              <SheetDescription>
+                Edits to @{current.username}'s display name, bio, location, website, avatar, pinned
+                tweet and verification, newest first.
+              </SheetDescription>
+            </div>
+
+            {edits.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                No edits since the profile was first captured{" "}
+                {formatRelativeTime(firstCapture.capturedAt)}.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {edits.map((snapshot) => (
+                  <div key={snapshot.id} className="space-y-2 border-b pb-4">
+                    <div className="flex items-center gap-2 text-muted-foreground text-xs">
+                      <span>{formatRelativeTime(snapshot.capturedAt)}</span>
+                      <Badge variant="outline" className="text-[10px]">
+                        {snapshot.trigger.replace(/_/g, " ")}
+                      </Badge>
+                    </div>
+                    {snapshot.changes.map((change) => (
+                      <div key={change.field} className="space-y-1">
+                        <h4 className="font-semibold text-sm">{FIELD_LABELS[change.field]}</h4>
+                        <div className="grid grid-cols-[auto_1fr] items-start gap-x-3 gap-y-1 text-sm">
+                          <span className="text-muted-foreground text-xs">Before</span>
+                          <FieldValue field={change.field} value={change.before} />
+                          <span className="text-muted-foreground text-xs">After</span>
+                          <FieldValue field={change.field} value={change.after} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -1,19 +1,25 @@
 "use client";
 
+import { useMutation } from "@tanstack/react-query";
 import { Loader2, RefreshCw } from "lucide-react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { useMutation } from "@tanstack/react-query";
 import { toast } from "sonner";
-import { Button } from "@/components/ui/button";
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { EmptyState } from "@/components/ui/empty-state";
-import { Skeleton } from "@/components/ui/skeleton";
 import { ActivityLog } from "@/components/profile/activity-log";
 import { PersonalityRadar } from "@/components/profile/personality-radar";
 import { ProfileSummary } from "@/components/profile/profile-summary";
 import { ProfileTopics } from "@/components/profile/profile-topics";
+import { TopicStreamgraph } from "@/components/profile/topic-streamgraph";
+import { Button } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
-import { useProfile, useProfileActivity, useInvalidateProfile, useScheduleList } from "@/hooks/queries";
+import {
+  useInvalidateProfile,
+  useProfile,
+  useProfileActivity,
+  useScheduleList,
+} from "@/hooks/queries";
 import { trpc } from "@/utils/trpc";
 
 interface ProfileSectionProps {
@@ -28,9 +34,8 @@ export function ProfileSection({ accountId }: ProfileSectionProps) {
   const { data: schedules } = useScheduleList();
   const invalidateProfile = useInvalidateProfile();
 
-  const nextScheduledAt = schedules
-    ?.find((s) => s.jobType === "profile_update" && s.enabled)
-    ?.nextRunAt ?? null;
+  const nextScheduledAt =
+    schedules?.find((s) => s.jobType === "profile_update" && s.enabled)?.nextRunAt ?? null;
 
   const refreshMutation = useMutation(
     trpc.job.trigger.mutationOptions({
@@ -154,17 +159,29 @@ export function ProfileSection({ accountId }: ProfileSectionProps) {
 
       {/* Topics */}
       <div className="border bg-card p-4">
-        <h3 className="mb-3 font-medium text-xs uppercase tracking-wide text-muted-foreground">Topics</h3>
+        <h3 className="mb-3 font-medium text-muted-foreground text-xs uppercase tracking-wide">
+          Topics
+        </h3>
         {profile.topics && profile.topics.length > 0 ? (
-          <ProfileTopics topics={profile.topics} />
+          <ProfileTopics accountId={accountId} topics={profile.topics} />
         ) : (
           <EmptyState message="No topics detected yet" />
         )}
       </div>
 
+      {/* Topic history */}
+      <div className="border bg-card p-4">
+        <h3 className="mb-3 font-medium text-muted-foreground text-xs uppercase tracking-wide">
+          Topic History
+        </h3>
+        <TopicStreamgraph accountId={accountId} />
+      </div>
+
       {/* Personality */}
       <div className="border bg-card p-4">
-        <h3 className="mb-3 font-medium text-xs uppercase tracking-wide text-muted-foreground">Personality</h3>
+        <h3 className="mb-3 font-medium text-muted-foreground text-xs uppercase tracking-wide">
+          Personality
+        </h3>
         {profile.personality ? (
           <PersonalityRadar
             scores={profile.personality.scores}
@@ -178,7 +195,9 @@ export function ProfileSection({ accountId }: ProfileSectionProps) {
 
       {/* Activity */}
       <div className="border bg-card p-4">
-        <h3 className="mb-3 font-medium text-xs uppercase tracking-wide text-muted-foreground">Activity</h3>
+        <h3 className="mb-3 font-medium text-muted-foreground text-xs uppercase tracking-wide">
+          Activity
+        </h3>
         {activityLoading ? (
           <div className="space-y-2">
             <Skeleton className="h-8 w-full" />
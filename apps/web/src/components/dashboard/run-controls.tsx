@@ -1,6 +1,17 @@
 "use client";
 
-import { ChevronDown, Loader2, RefreshCw, Users } from "lucide-react";
+import {
+  Archive,
+  ChevronDown,
+  Combine,
+  History,
+  Loader2,
+  RefreshCw,
+  SlidersHorizontal,
+  TrendingUp,
+  Users,
+} from "lucide-react";
+import { useState } from "react";
 import { toast } from "sonner";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
@@ -10,13 +21,21 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { ImportArchiveDialog } from "@/components/dashboard/import-archive-dialog";
+import { IngestionPolicyDialog } from "@/components/dashboard/ingestion-policy-dialog";
 import { useAccount } from "@/contexts/account-context";
 import { trpc } from "@/utils/trpc";
 import { queryKeys } from "@/hooks/queries/query-keys";
 
-export function RunControls() {
+interface RunControlsProps {
+  readOnly?: boolean; // Archived account: jobs, imports and policy changes are disabled
+}
+
+export function RunControls({ readOnly = false }: RunControlsProps) {
   const { selectedAccountId } = useAccount();
   const queryClient = useQueryClient();
+  const [importOpen, setImportOpen] = useState(false);
+  const [policyOpen, setPolicyOpen] = useState(false);
 
   const mutation = useMutation(
     trpc.job.trigger.mutationOptions({
@@ -34,9 +53,16 @@ export function RunControls() {
     })
   );
 
-  const isDisabled = !selectedAccountId || mutation.isPending;
+  const isDisabled = !selectedAccountId || readOnly || mutation.isPending;
 
-  function triggerJob(jobType: "profile_update" | "social_snapshot") {
+  function triggerJob(
+    jobType:
+      | "profile_update"
+      | "social_snapshot"
+      | "gap_backfill"
+      | "engagement_poll"
+      | "topic_maintenance",
+  ) {
     if (!selectedAccountId) return;
     mutation.mutate({ accountId: selectedAccountId, jobType });
   }
@@ -81,8 +107,43 @@ export function RunControls() {
             <Users className="mr-2 h-4 w-4" />
             Social Snapshot
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => triggerJob("gap_backfill")}>
+            <History className="mr-2 h-4 w-4" />
+            Backfill Gaps
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => triggerJob("engagement_poll")}>
+            <TrendingUp className="mr-2 h-4 w-4" />
+            Re-poll Engagement
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => triggerJob("topic_maintenance")}>
+            <Combine className="mr-2 h-4 w-4" />
+            Maintain Topics
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setImportOpen(true)}>
+            <Archive className="mr-2 h-4 w-4" />
+            Import Archive
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setPolicyOpen(true)}>
+            <SlidersHorizontal className="mr-2 h-4 w-4" />
+            Ingestion Policy
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
+
+      {selectedAccountId && (
+        <>
+          <ImportArchiveDialog
+            accountId={selectedAccountId}
+            open={importOpen}
+            onOpenChange={setImportOpen}
+          />
+          <IngestionPolicyDialog
+            accountId={selectedAccountId}
+            open={policyOpen}
+            onOpenChange={setPolicyOpen}
+          />
+        </>
+      )}
     </div>
   );
 }
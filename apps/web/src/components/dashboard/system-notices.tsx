@@ -0,0 +1,56 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, X } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { useDismissSystemNotification, useUnreadSystemNotifications } from "@/hooks/queries";
+
+/**
+ * Shows unread system notifications (not tied to an account), such as every
+ * Twitter credential set failing authentication.
+ */
+export function SystemNotices() {
+  const { data: notices } = useUnreadSystemNotifications();
+  const dismissMutation = useDismissSystemNotification();
+
+  if (!notices || notices.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {notices.map((notice) => (
+        <div
+          key={notice.id}
+          className="flex items-center justify-between gap-4 border border-destructive/40 bg-destructive/5 p-3"
+        >
+          <div className="flex items-start gap-2 text-sm">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+            <div>
+              <p className="font-medium">{notice.title}</p>
+              <p className="text-muted-foreground text-xs">
+                {notice.explanation} ·{" "}
+                {formatDistanceToNow(new Date(notice.createdAt * 1000), { addSuffix: true })}
+              </p>
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            {notice.changeType === "credentials_unhealthy" && (
+              <Link href="/settings" className="text-sm underline-offset-4 hover:underline">
+                Settings
+              </Link>
+            )}
+            <Button
+              size="icon"
+              variant="ghost"
+              aria-label="Dismiss"
+              disabled={dismissMutation.isPending}
+              onClick={() => dismissMutation.mutate({ notificationId: notice.id })}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { format } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTweetEngagementHistory } from "@/hooks/queries";
+
+const chartConfig = {
+  likeCount: {
+    label: "Likes",
+    color: "var(--chart-1)",
+  },
+  retweetCount: {
+    label: "Retweets",
+    color: "var(--chart-2)",
+  },
+  replyCount: {
+    label: "Replies",
+    color: "var(--chart-3)",
+  },
+} satisfies ChartConfig;
+
+interface TweetEngagementChartProps {
+  tweetId: string;
+}
+
+export function TweetEngagementChart({ tweetId }: TweetEngagementChartProps) {
+  const { data, isLoading } = useTweetEngagementHistory(tweetId);
+
+  if (isLoading) {
+    return <Skeleton className="h-28 w-full" />;
+  }
+
+  if (!data || data.snapshots.length < 2) {
+    return (
+      <p className="text-muted-foreground text-xs">
+        Not enough engagement history yet. Counts are re-polled while the tweet is recent.
+      </p>
+    );
+  }
+
+  const chartData = data.snapshots.map((s) => ({
+    time: format(new Date(s.capturedAt * 1000), "MMM d HH:mm"),
+    likeCount: s.likeCount,
+    retweetCount: s.retweetCount,
+    replyCount: s.replyCount,
+  }));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-muted-foreground text-xs">
+        <span>Engagement</span>
+        {data.velocity && <span>{data.velocity.likesPerHour.toFixed(1)} likes/h</span>}
+      </div>
+      <ChartContainer config={chartConfig} className="h-28 w-full">
+        <LineChart data={chartData} accessibilityLayer>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" hide />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={40}
+            tickFormatter={(value) => value.toLocaleString()}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Line
+            dataKey="likeCount"
+            type="monotone"
+            stroke="var(--color-likeCount)"
+            strokeWidth={2}
+            dot={false}
+          />
+          <Line
+            dataKey="retweetCount"
+            type="monotone"
+            stroke="var(--color-retweetCount)"
+            strokeWidth={2}
+            dot={false}
+          />
+          <Line
+            dataKey="replyCount"
+            type="monotone"
+            stroke="var(--color-replyCount)"
+            strokeWidth={2}
+            dot={false}
+          />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Suspense, useMemo, useRef, useState } from "react";
 import { Tweet } from "react-tweet";
+import { TweetEngagementChart } from "@/components/dashboard/tweet-engagement-chart";
 import { Sheet, SheetContent, SheetDescription, SheetTitle } from "@/components/ui/sheet";
 import { EmptyState } from "@/components/ui/empty-state";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -136,9 +137,12 @@ function TweetSheet({
           ) : tweets && tweets.length > 0 ? (
             <div className="space-y-3">
               {tweets.map((tw) => (
-                <Suspense key={tw.id} fallback={<div className="h-32 animate-pulse bg-muted" />}>
-                  <Tweet id={tw.id} />
-                </Suspense>
+                <div key={tw.id} className="space-y-2">
+                  <Suspense fallback={<div className="h-32 animate-pulse bg-muted" />}>
+                    <Tweet id={tw.id} />
+                  </Suspense>
+                  <TweetEngagementChart tweetId={tw.id} />
+                </div>
               ))}
             </div>
           ) : (
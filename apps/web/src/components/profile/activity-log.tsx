@@ -3,12 +3,18 @@
 import { formatDistanceToNow } from "date-fns";
 import { EmptyState } from "@/components/ui/empty-state";
 import {
+  Archive,
   Brain,
+  Combine,
   FolderSearch,
   GitMerge,
   Layers,
+  PauseCircle,
+  PenLine,
   RefreshCw,
+  Split,
   Tags,
+  UserPen,
   type LucideIcon,
 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -19,7 +25,13 @@ type ActivityActionType =
   | "profile_updated"
   | "new_topic_detected"
   | "personality_evaluated"
-  | "drift_buffer_processed";
+  | "drift_buffer_processed"
+  | "archive_imported"
+  | "profile_metadata_changed"
+  | "monitoring_status_changed"
+  | "topics_merged"
+  | "topic_split"
+  | "topic_curated";
 
 interface ActivityLogEntry {
   id: string;
@@ -69,6 +81,36 @@ const ACTION_CONFIG: Record<
     color: "text-cyan-500",
     label: "Drift Buffer",
   },
+  archive_imported: {
+    icon: Archive,
+    color: "text-orange-500",
+    label: "Archive Import",
+  },
+  profile_metadata_changed: {
+    icon: UserPen,
+    color: "text-pink-500",
+    label: "Profile Edit",
+  },
+  monitoring_status_changed: {
+    icon: PauseCircle,
+    color: "text-slate-500",
+    label: "Monitoring",
+  },
+  topics_merged: {
+    icon: Combine,
+    color: "text-teal-500",
+    label: "Topic Merge",
+  },
+  topic_split: {
+    icon: Split,
+    color: "text-indigo-500",
+    label: "Topic Split",
+  },
+  topic_curated: {
+    icon: PenLine,
+    color: "text-amber-500",
+    label: "Curation",
+  },
 };
 
 export function ActivityLog({ entries, maxHeight = "400px" }: ActivityLogProps) {
@@ -1,30 +1,175 @@
 "use client";
 
+import { BellOff, Pin } from "lucide-react";
+import { useState } from "react";
 import { Pie, PieChart } from "recharts";
-import { EmptyState } from "@/components/ui/empty-state";
+import { toast } from "sonner";
+import { TopicCurationMenu } from "@/components/profile/topic-curation-menu";
+import { Button } from "@/components/ui/button";
 import {
   type ChartConfig,
   ChartContainer,
   ChartTooltip,
   ChartTooltipContent,
 } from "@/components/ui/chart";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Input } from "@/components/ui/input";
+import { Sheet, SheetContent, SheetDescription, SheetTitle } from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useRenameTopic, useTopicTweets } from "@/hooks/queries";
+
+const SKELETON_ROWS = ["row-1", "row-2", "row-3", "row-4"];
 
 interface ProfileTopic {
   id: string;
   label: string;
   proportion: number;
   tweetCount: number;
+  pinned?: boolean;
+  muted?: boolean;
 }
 
 interface ProfileTopicsProps {
+  accountId: string;
   topics: ProfileTopic[];
 }
 
-export function ProfileTopics({ topics }: ProfileTopicsProps) {
+function TopicTweetsSheet({
+  accountId,
+  topic,
+  topics,
+  onOpenChange,
+}: {
+  accountId: string;
+  topic: ProfileTopic | null;
+  topics: ProfileTopic[];
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [sort, setSort] = useState<"similarity" | "recent">("similarity");
+  const [renameDraft, setRenameDraft] = useState<string | null>(null);
+  const { data, isLoading } = useTopicTweets(accountId, topic?.id ?? null, sort, !!topic);
+
+  const renameMutation = useRenameTopic({
+    onSuccess: () => setRenameDraft(null),
+    onError: (error) => toast.error(`Failed to rename topic: ${error.message}`),
+  });
+
+  const submitRename = () => {
+    const label = renameDraft?.trim();
+    if (!topic || !label || label === topic.label) {
+      setRenameDraft(null);
+      return;
+    }
+    renameMutation.mutate({ accountId, topicId: topic.id, label });
+  };
+
+  return (
+    <Sheet open={!!topic} onOpenChange={onOpenChange}>
+      <SheetContent>
+        <div className="space-y-6">
+          <div>
+            <div className="flex items-center justify-between gap-2">
+              {renameDraft !== null ? (
+                <Input
+                  autoFocus
+                  value={renameDraft}
+                  onChange={(e) => setRenameDraft(e.target.value)}
+                  onBlur={submitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") submitRename();
+                    if (e.key === "Escape") setRenameDraft(null);
+                  }}
+                  disabled={renameMutation.isPending}
+                  maxLength={80}
+                  className="h-8"
+                />
+              ) : (
+                <SheetTitle>{topic?.label}</SheetTitle>
+              )}
+              {topic && (
+                <TopicCurationMenu
+                  accountId={accountId}
+                  topic={topic}
+                  otherTopics={topics.filter((t) => t.id !== topic.id)}
+                  onRename={() => setRenameDraft(topic.label)}
+                  onMerged={() => onOpenChange(false)}
+                />
+              )}
+            </div>
+            <SheetDescription>
+              {data
+                ? `${data.total} classified tweet${data.total !== 1 ? "s" : ""}`
+                : `${Math.round(topic?.tweetCount ?? 0)} tweets`}
+            </SheetDescription>
+          </div>
+
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={sort === "similarity" ? "secondary" : "ghost"}
+              onClick={() => setSort("similarity")}
+            >
+              Most representative
+            </Button>
+            <Button
+              size="sm"
+              variant={sort === "recent" ? "secondary" : "ghost"}
+              onClick={() => setSort("recent")}
+            >
+              Most recent
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="space-y-3">
+              {SKELETON_ROWS.map((row) => (
+                <Skeleton key={row} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : data && data.tweets.length > 0 ? (
+            <div className="space-y-1">
+              {data.tweets.map((tw) => (
+                <a
+                  key={tw.id}
+                  href={`https://twitter.com/i/status/${tw.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block space-y-1 px-2 py-2 transition-colors hover:bg-muted/50"
+                >
+                  <p className="whitespace-pre-wrap break-words text-sm">{tw.text}</p>
+                  <div className="flex items-center gap-3 text-muted-foreground text-xs tabular-nums">
+                    <span>{new Date(tw.tweetCreatedAt * 1000).toLocaleDateString()}</span>
+                    <span>{tw.likeCount} likes</span>
+                    <span>{(tw.similarity * 100).toFixed(0)}% match</span>
+                    {tw.sentiment && <span>{tw.sentiment}</span>}
+                    {tw.stance && tw.stance !== "none" && <span>{tw.stance}s</span>}
+                  </div>
+                </a>
+              ))}
+              {data.total > data.tweets.length && (
+                <p className="px-2 pt-2 text-muted-foreground text-xs">
+                  Showing {data.tweets.length} of {data.total}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              No tweets recorded for this topic yet. Assignments are stored from the next profile
+              update on.
+            </p>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+export function ProfileTopics({ accountId, topics }: ProfileTopicsProps) {
+  const [selectedTopicId, setSelectedTopicId] = useState<string | null>(null);
+  const selectedTopic = topics.find((t) => t.id === selectedTopicId) ?? null;
+
   if (topics.length === 0) {
-    return (
-      <EmptyState message="No topics detected yet" />
-    );
+    return <EmptyState message="No topics detected yet" />;
   }
 
   // Limit to top 6 for chart clarity, aggregate rest as "Other"
@@ -69,39 +214,51 @@ export function ProfileTopics({ topics }: ProfileTopicsProps) {
   }
 
   return (
-    <div className="flex flex-col md:flex-row gap-4">
-      <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-[220px] md:w-2/5 shrink-0">
+    <div className="flex flex-col gap-4 md:flex-row">
+      <ChartContainer
+        config={chartConfig}
+        className="mx-auto aspect-square max-h-[220px] shrink-0 md:w-2/5"
+      >
         <PieChart margin={{ top: 10, right: 10, bottom: 10, left: 10 }}>
           <ChartTooltip content={<ChartTooltipContent nameKey="name" />} />
-          <Pie
-            data={chartData}
-            dataKey="value"
-            nameKey="name"
-            innerRadius={40}
-            outerRadius={70}
-          />
+          <Pie data={chartData} dataKey="value" nameKey="name" innerRadius={40} outerRadius={70} />
         </PieChart>
       </ChartContainer>
 
-      <div className="flex-1 min-w-0 space-y-1.5">
+      <div className="min-w-0 flex-1 space-y-1.5">
         {sorted.map((topic) => (
-          <div
+          <button
+            type="button"
             key={topic.id}
-            className="flex items-center justify-between text-xs"
+            onClick={() => setSelectedTopicId(topic.id)}
+            className="flex w-full items-center justify-between text-left text-xs hover:bg-muted/50"
           >
-            <span className="shrink-0 text-foreground">{topic.label}</span>
-            <span className="flex-1 mx-2 border-b-2 border-dotted border-muted-foreground/30 min-w-4" />
-            <div className="flex items-center gap-3 shrink-0">
+            <span className="flex shrink-0 items-center gap-1 text-foreground">
+              {topic.label}
+              {topic.pinned && <Pin className="h-3 w-3 text-muted-foreground" />}
+              {topic.muted && <BellOff className="h-3 w-3 text-muted-foreground" />}
+            </span>
+            <span className="mx-2 min-w-4 flex-1 border-muted-foreground/30 border-b-2 border-dotted" />
+            <div className="flex shrink-0 items-center gap-3">
               <span className="text-muted-foreground tabular-nums">
-                {topic.tweetCount} tweets
+                {Math.round(topic.tweetCount)} tweets
               </span>
               <span className="w-12 text-right font-medium tabular-nums">
                 {(topic.proportion * 100).toFixed(1)}%
               </span>
             </div>
-          </div>
+          </button>
         ))}
       </div>
+
+      <TopicTweetsSheet
+        accountId={accountId}
+        topic={selectedTopic}
+        topics={sorted}
+        onOpenChange={(open) => {
+          if (!open) setSelectedTopicId(null);
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,123 @@
+"use client";
+
+import { BellOff, Combine, MoreHorizontal, PenLine, Pin } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useMergeTopics, useSetTopicMuted, useSetTopicPinned } from "@/hooks/queries";
+
+interface CuratedTopic {
+  id: string;
+  label: string;
+  pinned?: boolean;
+  muted?: boolean;
+}
+
+interface TopicCurationMenuProps {
+  accountId: string;
+  topic: CuratedTopic;
+  otherTopics: CuratedTopic[];
+  onRename: () => void;
+  onMerged: () => void;
+}
+
+/**
+ * Analyst controls for a topic: rename, pin (kept by topic maintenance),
+ * mute (no topic notifications) and merge into another topic.
+ */
+export function TopicCurationMenu({
+  accountId,
+  topic,
+  otherTopics,
+  onRename,
+  onMerged,
+}: TopicCurationMenuProps) {
+  const onError = (error: { message: string }) =>
+    toast.error(`Failed to update topic: ${error.message}`);
+
+  const pinMutation = useSetTopicPinned({ onError });
+  const muteMutation = useSetTopicMuted({ onError });
+  const mergeMutation = useMergeTopics({
+    onSuccess: () => {
+      toast.success("Topics merged");
+      onMerged();
+    },
+    onError,
+  });
+
+  const isPending = pinMutation.isPending || muteMutation.isPending || mergeMutation.isPending;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        disabled={isPending}
+        render={
+          <Button size="icon-sm" variant="ghost" aria-label="Curate topic">
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        }
+      />
+      <DropdownMenuContent align="end" className="min-w-[200px]">
+        <DropdownMenuItem onClick={onRename}>
+          <PenLine className="mr-2 h-4 w-4" />
+          Rename
+        </DropdownMenuItem>
+        <DropdownMenuCheckboxItem
+          checked={!!topic.pinned}
+          onCheckedChange={(checked) =>
+            pinMutation.mutate({ accountId, topicId: topic.id, pinned: checked })
+          }
+        >
+          <Pin className="mr-2 h-4 w-4" />
+          Pinned
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={!!topic.muted}
+          onCheckedChange={(checked) =>
+            muteMutation.mutate({ accountId, topicId: topic.id, muted: checked })
+          }
+        >
+          <BellOff className="mr-2 h-4 w-4" />
+          Muted
+        </DropdownMenuCheckboxItem>
+        {otherTopics.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Combine className="mr-2 h-4 w-4" />
+                Merge into
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                {otherTopics.map((other) => (
+                  <DropdownMenuItem
+                    key={other.id}
+                    onClick={() =>
+                      mergeMutation.mutate({
+                        accountId,
+                        sourceTopicId: topic.id,
+                        targetTopicId: other.id,
+                      })
+                    }
+                  >
+                    {other.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
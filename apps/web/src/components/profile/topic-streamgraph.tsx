@@ -0,0 +1,126 @@
+"use client";
+
+import { format } from "date-fns";
+import { useMemo, useState } from "react";
+import { Area, AreaChart, XAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { EmptyState } from "@/components/ui/empty-state";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useTopicHistory } from "@/hooks/queries";
+
+const RANGE_OPTIONS = [
+  { value: "3m", label: "3M", days: 90 },
+  { value: "6m", label: "6M", days: 180 },
+  { value: "1y", label: "1Y", days: 365 },
+  { value: "all", label: "All", days: null },
+] as const;
+
+type Range = (typeof RANGE_OPTIONS)[number]["value"];
+
+// Streams beyond the largest few are folded into "Other" to keep the chart readable
+const MAX_STREAMS = 5;
+
+interface TopicStreamgraphProps {
+  accountId: string;
+}
+
+/**
+ * Streamgraph of an account's topic shares across profile updates, showing how
+ * its attention moved between topics over time.
+ */
+export function TopicStreamgraph({ accountId }: TopicStreamgraphProps) {
+  const [range, setRange] = useState<Range>("6m");
+
+  const from = useMemo(() => {
+    const days = RANGE_OPTIONS.find((o) => o.value === range)?.days;
+    return days ? Math.floor(Date.now() / 1000) - days * 24 * 60 * 60 : undefined;
+  }, [range]);
+
+  const { data, isLoading } = useTopicHistory(accountId, from);
+
+  const { chartData, chartConfig, streamKeys } = useMemo(() => {
+    const topics = data?.topics ?? [];
+    const streams = topics.slice(0, MAX_STREAMS);
+    const hasOther = topics.length > MAX_STREAMS;
+
+    const config: ChartConfig = {};
+    streams.forEach((topic, index) => {
+      config[`topic${index + 1}`] = {
+        label: topic.label,
+        color: `var(--chart-${index + 1})`,
+      };
+    });
+    if (hasOther) {
+      config.other = { label: "Other", color: "var(--muted-foreground)" };
+    }
+
+    const rows = (data?.points ?? []).map((point) => {
+      const row: Record<string, number | string> = {
+        date: format(new Date(point.capturedAt * 1000), "MMM d, yyyy"),
+      };
+      let shown = 0;
+      streams.forEach((topic, index) => {
+        const proportion = point.values[topic.topicId]?.proportion ?? 0;
+        row[`topic${index + 1}`] = Math.round(proportion * 1000) / 10;
+        shown += proportion;
+      });
+      if (hasOther) {
+        const total = Object.values(point.values).reduce((sum, v) => sum + v.proportion, 0);
+        row.other = Math.round(Math.max(0, total - shown) * 1000) / 10;
+      }
+      return row;
+    });
+
+    return { chartData: rows, chartConfig: config, streamKeys: Object.keys(config) };
+  }, [data]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end gap-1">
+        {RANGE_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            size="xs"
+            variant={range === option.value ? "secondary" : "ghost"}
+            onClick={() => setRange(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-56 w-full" />
+      ) : chartData.length < 2 ? (
+        <EmptyState message="Topic history builds up with each profile update" />
+      ) : (
+        <ChartContainer config={chartConfig} className="h-56 w-full">
+          <AreaChart data={chartData} stackOffset="wiggle" accessibilityLayer>
+            <XAxis dataKey="date" tickLine={false} tickMargin={10} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {streamKeys.map((key) => (
+              <Area
+                key={key}
+                dataKey={key}
+                stackId="topics"
+                type="basis"
+                fill={`var(--color-${key})`}
+                fillOpacity={0.8}
+                stroke="none"
+              />
+            ))}
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+}
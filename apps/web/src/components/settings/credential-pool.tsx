@@ -0,0 +1,177 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { Input, PasswordInput } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useAddTwitterCredential,
+  useRemoveTwitterCredential,
+  useTestPooledTwitterCredential,
+  useTwitterCredentials,
+} from "@/hooks/queries";
+
+function formatRelativeTime(timestamp: number | null): string {
+  if (!timestamp) return "never";
+  return formatDistanceToNow(new Date(timestamp * 1000), { addSuffix: true });
+}
+
+/**
+ * Registered Twitter cookie sets. Requests rotate over the healthy ones; a set that
+ * fails authentication is marked unhealthy until a test succeeds again.
+ */
+export function CredentialPool() {
+  const { data: credentials, isLoading } = useTwitterCredentials();
+  const [label, setLabel] = useState("");
+  const [authToken, setAuthToken] = useState("");
+  const [ct0, setCt0] = useState("");
+
+  const addMutation = useAddTwitterCredential({
+    onSuccess: (data) => {
+      if (data.test.success) {
+        toast.success("Credential set added");
+      } else {
+        toast.error(`Credential set added but failed its test: ${data.test.error}`);
+      }
+      setLabel("");
+      setAuthToken("");
+      setCt0("");
+    },
+    onError: (error) => {
+      toast.error(`Failed to add credentials: ${error.message}`);
+    },
+  });
+
+  const removeMutation = useRemoveTwitterCredential({
+    onError: (error) => {
+      toast.error(`Failed to remove credentials: ${error.message}`);
+    },
+  });
+
+  const testMutation = useTestPooledTwitterCredential({
+    onSuccess: (data) => {
+      if (data.success) {
+        toast.success(`Authenticated as @${data.username}`);
+      } else {
+        toast.error(`Credentials invalid: ${data.error}`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Test failed: ${error.message}`);
+    },
+  });
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label || !authToken || !ct0) {
+      toast.error("Label and both cookies are required");
+      return;
+    }
+    addMutation.mutate({ label, authToken, ct0 });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="font-medium text-sm">Credential pool</p>
+        <p className="text-muted-foreground text-xs">
+          Requests rotate over healthy cookie sets. The pair above is included as "Default".
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-16 w-full" />
+      ) : (
+        <div className="space-y-2">
+          {credentials?.map((credential) => (
+            <div
+              key={credential.id}
+              className="flex items-center justify-between gap-3 border p-3 text-sm"
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-medium">{credential.label}</span>
+                  <span className="text-muted-foreground text-xs">…{credential.authTokenHint}</span>
+                  <Badge variant={credential.status === "healthy" ? "secondary" : "destructive"}>
+                    {credential.status}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground text-xs">
+                  Last success {formatRelativeTime(credential.lastSuccessAt)} · last failure{" "}
+                  {formatRelativeTime(credential.lastFailureAt)}
+                </p>
+                {credential.status === "unhealthy" && credential.lastError && (
+                  <p className="truncate text-destructive text-xs">{credential.lastError}</p>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Test ${credential.label}`}
+                  disabled={testMutation.isPending}
+                  onClick={() => testMutation.mutate({ id: credential.id })}
+                >
+                  {testMutation.isPending && testMutation.variables?.id === credential.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Remove ${credential.label}`}
+                  disabled={removeMutation.isPending}
+                  onClick={() => removeMutation.mutate({ id: credential.id })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-3">
+        <Field>
+          <FieldLabel htmlFor="pool-label">Label</FieldLabel>
+          <Input
+            id="pool-label"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="e.g. Backup account"
+          />
+        </Field>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <Field>
+            <FieldLabel htmlFor="pool-auth-token">auth_token cookie</FieldLabel>
+            <PasswordInput
+              id="pool-auth-token"
+              value={authToken}
+              onChange={(e) => setAuthToken(e.target.value)}
+            />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="pool-ct0">ct0 cookie</FieldLabel>
+            <PasswordInput id="pool-ct0" value={ct0} onChange={(e) => setCt0(e.target.value)} />
+          </Field>
+        </div>
+        <Button type="submit" variant="outline" disabled={addMutation.isPending} className="w-full">
+          {addMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          Add Credential Set
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+
+import { Skeleton } from "@/components/ui/skeleton";
+import { useRateLimitBudget } from "@/hooks/queries";
+
+const FAMILY_LABELS: Record<string, string> = {
+  user_lookup: "User lookups",
+  timeline: "Timelines",
+  connections: "Followers / following",
+  account: "Credential checks",
+};
+
+/**
+ * Remaining Twitter request budget per endpoint family (refreshes every 10s).
+ * Jobs wait for budget instead of failing, so an empty bar explains a slow run.
+ */
+export function RateLimitBudget() {
+  const { data, isLoading } = useRateLimitBudget();
+
+  if (isLoading || !data) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="font-medium text-sm">Request budget</p>
+        <p className="text-muted-foreground text-xs">
+          Requests left in the current 15-minute window, shared by all jobs.
+        </p>
+      </div>
+      {data.map((budget) => (
+        <div key={budget.family} className="space-y-1">
+          <div className="flex items-center justify-between text-xs">
+            <span>{FAMILY_LABELS[budget.family] ?? budget.family}</span>
+            <span className="text-muted-foreground">
+              {budget.blockedUntil
+                ? `Backing off, resumes ${formatDistanceToNow(new Date(budget.blockedUntil * 1000), { addSuffix: true })}`
+                : `${budget.remaining} / ${budget.capacity}`}
+            </span>
+          </div>
+          <div className="h-1 bg-muted">
+            <div
+              className={budget.blockedUntil ? "h-1 bg-destructive" : "h-1 bg-primary"}
+              style={{ width: `${(budget.remaining / budget.capacity) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
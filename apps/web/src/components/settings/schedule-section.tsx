@@ -1,9 +1,11 @@
 "use client";
 
 import { formatDistanceToNow } from "date-fns";
+import { Trash2 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -13,7 +15,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { useScheduleList, useUpdateSchedule } from "@/hooks/queries";
+import {
+  useAccountGroups,
+  useCreateSchedule,
+  useDeleteSchedule,
+  useScheduleList,
+  useUpdateSchedule,
+} from "@/hooks/queries";
 
 /**
  * Preset cron frequencies with human-readable labels
@@ -28,6 +36,15 @@ const CRON_PRESETS = [
   { label: "Custom", value: "custom" },
 ] as const;
 
+/**
+ * Job types that can be scheduled for a single account group
+ */
+const GROUP_JOB_TYPES = [
+  { label: "Tweet Fetch", value: "ingest" },
+  { label: "Engagement Re-poll", value: "engagement_poll" },
+  { label: "Topic Maintenance", value: "topic_maintenance" },
+] as const;
+
 /**
  * Get human-readable label for cron expression
  */
@@ -59,6 +76,91 @@ function formatDuration(seconds: number | null): string {
   return secs > 0 ? `${mins}m ${secs}s` : `${mins}m`;
 }
 
+/**
+ * Form to add a schedule that runs a job only for the accounts of one group,
+ * e.g. fetching a "breaking-news" group hourly while everyone else stays on 6h.
+ */
+function AddGroupSchedule() {
+  const { data: groups } = useAccountGroups();
+  const [jobType, setJobType] = useState<string>(GROUP_JOB_TYPES[0].value);
+  const [group, setGroup] = useState<string | null>(null);
+  const [cronExpression, setCronExpression] = useState("0 * * * *");
+
+  const createMutation = useCreateSchedule({
+    onSuccess: () => {
+      toast.success("Group schedule added");
+      setGroup(null);
+    },
+    onError: (error) => {
+      toast.error(`Failed to add schedule: ${error.message}`);
+    },
+  });
+
+  if (!groups || groups.length === 0) {
+    return (
+      <p className="text-muted-foreground text-xs">
+        Tag accounts to schedule jobs for a single group.
+      </p>
+    );
+  }
+
+  const handleAdd = () => {
+    if (!group) return;
+    const jobLabel = GROUP_JOB_TYPES.find((j) => j.value === jobType)?.label ?? jobType;
+    createMutation.mutate({
+      jobType,
+      cronExpression,
+      accountTag: group,
+      label: `${jobLabel} (${group})`,
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border border-border border-dashed p-4">
+      <span className="text-muted-foreground text-xs">Add group schedule:</span>
+      <Select value={jobType} onValueChange={(value) => value && setJobType(value)}>
+        <SelectTrigger className="w-44">
+          <SelectValue>{GROUP_JOB_TYPES.find((j) => j.value === jobType)?.label}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {GROUP_JOB_TYPES.map((job) => (
+            <SelectItem key={job.value} value={job.value}>
+              {job.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={group} onValueChange={(value) => setGroup(value)}>
+        <SelectTrigger className="w-40">
+          <SelectValue>{group ?? "Group"}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {groups.map((g) => (
+            <SelectItem key={g.name} value={g.name}>
+              {g.name} ({g.accountCount})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={cronExpression} onValueChange={(value) => value && setCronExpression(value)}>
+        <SelectTrigger className="w-40">
+          <SelectValue>{getCronLabel(cronExpression)}</SelectValue>
+        </SelectTrigger>
+        <SelectContent>
+          {CRON_PRESETS.filter((p) => p.value !== "custom").map((preset) => (
+            <SelectItem key={preset.value} value={preset.value}>
+              {preset.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" disabled={!group || createMutation.isPending} onClick={handleAdd}>
+        Add
+      </Button>
+    </div>
+  );
+}
+
 export function ScheduleSection() {
   const { data: schedules, isLoading } = useScheduleList();
   const [customCronInputs, setCustomCronInputs] = useState<Record<string, string>>({});
@@ -72,6 +174,15 @@ export function ScheduleSection() {
     },
   });
 
+  const deleteMutation = useDeleteSchedule({
+    onSuccess: () => {
+      toast.success("Schedule removed");
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove schedule: ${error.message}`);
+    },
+  });
+
   const handleToggle = (scheduleId: string, currentEnabled: boolean) => {
     updateMutation.mutate({
       id: scheduleId,
@@ -165,25 +276,46 @@ export function ScheduleSection() {
                     <h4 className="font-medium text-sm">{schedule.label || schedule.jobType}</h4>
                     <p className="text-muted-foreground text-xs">
                       Type: <code className="text-xs">{schedule.jobType}</code>
+                      {" · "}
+                      {schedule.accountTag ? (
+                        <>
+                          Group: <code className="text-xs">{schedule.accountTag}</code>
+                        </>
+                      ) : (
+                        "All accounts"
+                      )}
                     </p>
                   </div>
 
-                  <Select
-                    value={currentPreset}
-                    onValueChange={(value) => handleFrequencyChange(schedule.id, value)}
-                    disabled={!schedule.enabled}
-                  >
-                    <SelectTrigger className="w-40">
-                      <SelectValue>{getCronLabel(schedule.cronExpression)}</SelectValue>
-                    </SelectTrigger>
-                    <SelectContent>
-                      {CRON_PRESETS.map((preset) => (
-                        <SelectItem key={preset.value} value={preset.value}>
-                          {preset.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <div className="flex items-center gap-1">
+                    <Select
+                      value={currentPreset}
+                      onValueChange={(value) => handleFrequencyChange(schedule.id, value)}
+                      disabled={!schedule.enabled}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue>{getCronLabel(schedule.cronExpression)}</SelectValue>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CRON_PRESETS.map((preset) => (
+                          <SelectItem key={preset.value} value={preset.value}>
+                            {preset.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {schedule.accountTag && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => deleteMutation.mutate({ id: schedule.id })}
+                        disabled={deleteMutation.isPending}
+                        aria-label={`Remove ${schedule.label || schedule.jobType}`}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
                 </div>
 
                 <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground text-xs">
@@ -229,6 +361,8 @@ export function ScheduleSection() {
             </div>
           );
         })}
+
+        <AddGroupSchedule />
       </CardContent>
     </Card>
   );
@@ -21,8 +21,8 @@ import {
   useDetectOllama,
   useFetchChatId,
   useSetAIConfig,
+  useAddTwitterCredential,
   useSetBulkConfig,
-  useTestTwitterCredentials,
 } from "@/hooks/queries";
 import { queryKeys } from "@/hooks/queries";
 import { useStepper } from "@/hooks/use-stepper";
@@ -134,11 +134,6 @@ export function SetupWizard() {
     if (!existingConfig || prefilled) return;
     const cfg = new Map(existingConfig.map((r) => [r.key, r.value]));
 
-    const savedAuth = cfg.get("twitter_auth_token");
-    const savedCt0 = cfg.get("twitter_ct0");
-    if (savedAuth) setAuthToken(savedAuth);
-    if (savedCt0) setCt0(savedCt0);
-
     const savedBotToken = cfg.get("telegram_bot_token");
     const savedChatId = cfg.get("telegram_chat_id");
     if (savedBotToken) setTelegramBotToken(savedBotToken);
@@ -225,27 +220,18 @@ export function SetupWizard() {
     });
   };
 
-  const testCredentialsMutation = useTestTwitterCredentials({
+  const addCredentialMutation = useAddTwitterCredential({
     onSuccess: (data) => {
-      if (data.success) {
-        setVerifiedUser({ name: data.name!, username: data.username! });
+      if (data.test.success) {
+        setVerifiedUser({ name: data.test.name, username: data.test.username });
       } else {
-        toast.error(`Credentials invalid: ${data.error}`);
+        toast.error(`Credentials invalid: ${data.test.error}`);
         setVerifiedUser(null);
       }
     },
-    onError: (error) => {
-      toast.error(`Verification failed: ${error.message}`);
-      setVerifiedUser(null);
-    },
-  });
-
-  const saveCredentialsMutation = useSetBulkConfig({
-    onSuccess: () => {
-      testCredentialsMutation.mutate();
-    },
     onError: (error) => {
       toast.error(`Failed to save credentials: ${error.message}`);
+      setVerifiedUser(null);
     },
   });
 
@@ -255,15 +241,10 @@ export function SetupWizard() {
       return;
     }
     setVerifiedUser(null);
-    saveCredentialsMutation.mutate({
-      entries: [
-        { key: "twitter_auth_token", value: authToken },
-        { key: "twitter_ct0", value: ct0 },
-      ],
-    });
+    addCredentialMutation.mutate({ label: "Default", authToken, ct0 });
   };
 
-  const isVerifying = saveCredentialsMutation.isPending || testCredentialsMutation.isPending;
+  const isVerifying = addCredentialMutation.isPending;
 
   const setConfigMutation = useSetAIConfig({
     onSuccess: () => {
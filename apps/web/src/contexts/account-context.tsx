@@ -2,24 +2,29 @@
 
 import { createContext, useCallback, useContext, useEffect, useState } from "react";
 
-import { useAccountList } from "@/hooks/queries";
+import { useAccountGroups, useAccountList } from "@/hooks/queries";
 
 interface AccountContextValue {
   selectedAccountId: string | null;
   setSelectedAccountId: (id: string | null) => void;
+  selectedGroup: string | null; // Account group (tag) the overview and account list are scoped to
+  setSelectedGroup: (group: string | null) => void;
 }
 
 const AccountContext = createContext<AccountContextValue | null>(null);
 
 const STORAGE_KEY = "trend-x-selected-account";
 const OVERVIEW_VALUE = "__overview__";
+const GROUP_STORAGE_KEY = "trend-x-selected-group";
 
 export function AccountProvider({ children }: { children: React.ReactNode }) {
   const [selectedAccountId, setSelectedAccountIdState] = useState<string | null>(null);
+  const [selectedGroup, setSelectedGroupState] = useState<string | null>(null);
   const [initialized, setInitialized] = useState(false);
 
-  // Get accounts to validate selection
+  // Get accounts and groups to validate selection
   const { data: accounts } = useAccountList();
+  const { data: groups } = useAccountGroups();
 
   // Load from localStorage on mount
   useEffect(() => {
@@ -30,9 +35,20 @@ export function AccountProvider({ children }: { children: React.ReactNode }) {
     } else if (stored) {
       setSelectedAccountIdState(stored);
     }
+    setSelectedGroupState(localStorage.getItem(GROUP_STORAGE_KEY));
     setInitialized(true);
   }, []);
 
+  // Drop the group selection once its last account is untagged
+  useEffect(() => {
+    if (!initialized || !groups || !selectedGroup) return;
+
+    if (!groups.some((g) => g.name === selectedGroup)) {
+      setSelectedGroupState(null);
+      localStorage.removeItem(GROUP_STORAGE_KEY);
+    }
+  }, [groups, selectedGroup, initialized]);
+
   // Validate selection when accounts change
   useEffect(() => {
     if (!initialized || !accounts) return;
@@ -68,8 +84,19 @@ export function AccountProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  const setSelectedGroup = useCallback((group: string | null) => {
+    setSelectedGroupState(group);
+    if (group) {
+      localStorage.setItem(GROUP_STORAGE_KEY, group);
+    } else {
+      localStorage.removeItem(GROUP_STORAGE_KEY);
+    }
+  }, []);
+
   return (
-    <AccountContext.Provider value={{ selectedAccountId, setSelectedAccountId }}>
+    <AccountContext.Provider
+      value={{ selectedAccountId, setSelectedAccountId, selectedGroup, setSelectedGroup }}
+    >
       {children}
     </AccountContext.Provider>
   );
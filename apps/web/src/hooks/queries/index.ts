@@ -5,8 +5,10 @@ export * from "./use-ai-config-queries";
 export * from "./use-notification-queries";
 export * from "./use-pipeline-queries";
 export * from "./use-tweet-queries";
+export * from "./use-ingest-queries";
 export * from "./use-overview-queries";
 export * from "./use-telegram-queries";
+export * from "./use-twitter-credential-queries";
 export * from "./use-schedule-queries";
 export * from "./use-profile-queries";
 export * from "./use-social-queries";
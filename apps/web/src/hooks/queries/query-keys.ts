@@ -3,6 +3,8 @@ export const queryKeys = {
     all: [["account"]] as const,
     list: [["account", "list"]] as const,
     count: [["account", "count"]] as const,
+    ingestionPolicy: (accountId: string) =>
+      [["account", "getIngestionPolicy"], { input: { accountId } }] as const,
   },
   config: {
     all: [["config"]] as const,
@@ -15,6 +17,7 @@ export const queryKeys = {
     detectOllama: [["aiConfig", "detectOllama"]] as const,
     listModels: [["aiConfig", "listModels"]] as const,
     getUsageStats: [["aiConfig", "getUsageStats"]] as const,
+    getEmbeddingCacheStats: [["aiConfig", "getEmbeddingCacheStats"]] as const,
   },
   notification: {
     all: [["notification"]] as const,
@@ -22,6 +25,7 @@ export const queryKeys = {
       [["notification", "getByAccount"], { input: { accountId } }] as const,
     getUnreadCount: (accountId: string) =>
       [["notification", "getUnreadCount"], { input: { accountId } }] as const,
+    unreadSystem: [["notification", "getUnreadSystem"]] as const,
   },
   pipeline: {
     all: [["pipeline"]] as const,
@@ -31,6 +35,10 @@ export const queryKeys = {
   tweet: {
     all: [["tweet"]] as const,
   },
+  ingest: {
+    all: [["ingest"]] as const,
+    gaps: (accountId: string) => [["ingest", "getGaps"], { input: { accountId } }] as const,
+  },
   overview: {
     all: [["overview"]] as const,
   },
@@ -38,6 +46,9 @@ export const queryKeys = {
     all: [["telegram"]] as const,
     getStatus: [["telegram", "getStatus"]] as const,
   },
+  twitterCredential: {
+    all: [["twitterCredential"]] as const,
+  },
   schedule: {
     all: [["schedule"]] as const,
     list: [["schedule", "list"]] as const,
@@ -52,6 +63,12 @@ export const queryKeys = {
       [["profile", "getGlobalActivity"], { input: { limit } }] as const,
     metrics: (accountId: string) =>
       [["profile", "getMetrics"], { input: { accountId } }] as const,
+    snapshots: (accountId: string, limit?: number) =>
+      [["profile", "getProfileSnapshots"], { input: { accountId, limit } }] as const,
+    topicTweets: (accountId: string, topicId: string) =>
+      [["profile", "getTopicTweets"], { input: { accountId, topicId } }] as const,
+    topicHistory: (accountId: string, from?: number) =>
+      [["profile", "getTopicHistory"], { input: { accountId, from } }] as const,
   },
   job: {
     all: [["job"]] as const,
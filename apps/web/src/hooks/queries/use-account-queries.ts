@@ -10,6 +10,43 @@ export function useAccountCount() {
   return useQuery(trpc.account.count.queryOptions());
 }
 
+export function useAccountGroups() {
+  return useQuery(trpc.account.listGroups.queryOptions());
+}
+
+export function useSetAccountTags(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.account.setTags.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.account.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.overview.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.social.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
+export function useUpdateAccountMonitoring(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.account.updateMonitoring.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.account.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
 export function useCreateAccount(options?: {
   onSuccess?: () => void;
   onError?: (error: { message: string }) => void;
@@ -39,3 +76,52 @@ export function useDeleteAccount(options?: {
     }),
   );
 }
+
+export function useBulkImportAccounts(options?: {
+  onSuccess?: (data: {
+    created: number;
+    duplicates: number;
+    invalid: number;
+    queuedJobIds: string[];
+  }) => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.account.bulkImport.mutationOptions({
+      onSuccess: (data, variables) => {
+        if (!variables.dryRun) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.account.all });
+          queryClient.invalidateQueries({ queryKey: queryKeys.job.all });
+        }
+        options?.onSuccess?.(data);
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
+export function useIngestionPolicy(accountId: string | null) {
+  return useQuery({
+    ...trpc.account.getIngestionPolicy.queryOptions({
+      accountId: accountId || "",
+    }),
+    enabled: !!accountId,
+  });
+}
+
+export function useUpdateIngestionPolicy(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.account.updateIngestionPolicy.mutationOptions({
+      onSuccess: (_data, variables) => {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.account.ingestionPolicy(variables.accountId),
+        });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
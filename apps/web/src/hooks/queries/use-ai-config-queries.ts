@@ -35,6 +35,25 @@ export function useUsageStats({ days }: { days: number }) {
   return useQuery(trpc.aiConfig.getUsageStats.queryOptions({ days }));
 }
 
+export function useEmbeddingCacheStats() {
+  return useQuery(trpc.aiConfig.getEmbeddingCacheStats.queryOptions());
+}
+
+export function usePurgeStaleEmbeddings(options?: {
+  onSuccess?: (data: { deleted: number }) => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.aiConfig.purgeStaleEmbeddings.mutationOptions({
+      onSuccess: (data) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.aiConfig.getEmbeddingCacheStats });
+        options?.onSuccess?.(data);
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
 export function useSetAIConfig(options?: {
   onSuccess?: () => void;
   onError?: (error: { message: string }) => void;
@@ -10,6 +10,13 @@ export function useConfigIsConfigured() {
   return useQuery(trpc.config.isConfigured.queryOptions());
 }
 
+export function useRateLimitBudget() {
+  return useQuery({
+    ...trpc.config.getRateLimitBudget.queryOptions(),
+    refetchInterval: 10_000,
+  });
+}
+
 export function useSetBulkConfig(options?: {
   onSuccess?: () => void;
   onError?: (error: { message: string }) => void;
@@ -40,15 +47,3 @@ export function useSetTelegramConfig(options?: {
     }),
   );
 }
-
-export function useTestTwitterCredentials(options?: {
-  onSuccess?: (data: { success: boolean; name?: string; username?: string; error?: string }) => void;
-  onError?: (error: { message: string }) => void;
-}) {
-  return useMutation(
-    trpc.config.testTwitterCredentials.mutationOptions({
-      onSuccess: options?.onSuccess,
-      onError: (error) => options?.onError?.(error),
-    }),
-  );
-}
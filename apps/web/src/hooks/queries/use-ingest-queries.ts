@@ -0,0 +1,29 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, trpc } from "@/utils/trpc";
+import { queryKeys } from "./query-keys";
+
+export function useFetchGaps(accountId: string | null) {
+  return useQuery({
+    ...trpc.ingest.getGaps.queryOptions({
+      accountId: accountId || "",
+    }),
+    enabled: !!accountId,
+  });
+}
+
+export function useImportArchive(options?: {
+  onSuccess?: (result: { imported: number; skipped: number; rebuildJobId: string | null }) => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.ingest.importArchive.mutationOptions({
+      onSuccess: (result) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tweet.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.job.all });
+        options?.onSuccess?.(result);
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
@@ -55,6 +55,7 @@ export function useActiveJobs(accountId: string | null) {
           setRecentlyCompleted((prev) => new Map(prev).set(jobId, result as JobRun));
           // Invalidate related queries
           queryClient.invalidateQueries({ queryKey: queryKeys.tweet.all });
+          queryClient.invalidateQueries({ queryKey: queryKeys.ingest.all });
           queryClient.invalidateQueries({ queryKey: queryKeys.profile.all });
           queryClient.invalidateQueries({ queryKey: queryKeys.overview.all });
           queryClient.invalidateQueries({ queryKey: queryKeys.notification.all });
@@ -13,6 +13,20 @@ export function useUnreadCount(accountId: string, options?: { enabled?: boolean
   });
 }
 
+export function useUnreadSystemNotifications() {
+  return useQuery(trpc.notification.getUnreadSystem.queryOptions());
+}
+
+export function useDismissSystemNotification() {
+  return useMutation(
+    trpc.notification.markAsRead.mutationOptions({
+      onSettled: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.notification.unreadSystem });
+      },
+    }),
+  );
+}
+
 type NotificationData = {
   id: string;
   isRead: number;
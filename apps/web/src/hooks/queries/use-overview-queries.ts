@@ -1,14 +1,58 @@
-import { useQuery } from "@tanstack/react-query";
-import { trpc } from "@/utils/trpc";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, trpc } from "@/utils/trpc";
+import { queryKeys } from "./query-keys";
 
-export function useOverviewMetrics() {
-  return useQuery(trpc.overview.getMetrics.queryOptions());
+// `group` scopes the overview to accounts with that tag; null/undefined = all accounts
+
+export function useOverviewMetrics(group?: string | null) {
+  return useQuery(trpc.overview.getMetrics.queryOptions(group ? { group } : undefined));
+}
+
+export function useRecentActivity(group?: string | null) {
+  return useQuery(trpc.overview.getRecentActivity.queryOptions(group ? { group } : undefined));
+}
+
+export function useNotificationTrend(group?: string | null) {
+  return useQuery(trpc.overview.getNotificationTrend.queryOptions(group ? { group } : undefined));
+}
+
+export function useCrossAccountTrends(group?: string | null) {
+  return useQuery(trpc.overview.getCrossAccountTrends.queryOptions(group ? { group } : undefined));
+}
+
+export function useMarkTrendRead() {
+  return useMutation(
+    trpc.notification.markAsRead.mutationOptions({
+      onSettled: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.overview.all });
+      },
+    }),
+  );
+}
+
+export function useEntityMentions(group?: string | null) {
+  return useQuery(trpc.overview.getEntityMentions.queryOptions(group ? { group } : undefined));
+}
+
+export function useThemeRanking(group?: string | null) {
+  return useQuery(trpc.overview.getThemeRanking.queryOptions(group ? { group } : undefined));
 }
 
-export function useRecentActivity() {
-  return useQuery(trpc.overview.getRecentActivity.queryOptions());
+export function useEarlyAdopters(group?: string | null) {
+  return useQuery(trpc.overview.getEarlyAdopters.queryOptions(group ? { group } : undefined));
 }
 
-export function useNotificationTrend() {
-  return useQuery(trpc.overview.getNotificationTrend.queryOptions());
+export function useRebuildThemes(options?: {
+  onSuccess?: (result: { themeCount: number; newThemeCount: number }) => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.overview.rebuildThemes.mutationOptions({
+      onSuccess: (result) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.overview.all });
+        options?.onSuccess?.(result);
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
 }
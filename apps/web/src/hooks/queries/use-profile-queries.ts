@@ -1,5 +1,5 @@
 import { useCallback } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { queryClient, trpc } from "@/utils/trpc";
 import { queryKeys } from "./query-keys";
 
@@ -33,6 +33,17 @@ export function useGlobalActivity(limit?: number) {
   });
 }
 
+export function useProfileSnapshots(accountId: string | null, limit?: number) {
+  return useQuery({
+    ...trpc.profile.getProfileSnapshots.queryOptions({
+      accountId: accountId || "",
+      limit,
+    }),
+    enabled: !!accountId,
+    staleTime: 30_000,
+  });
+}
+
 export function useProfileMetrics(accountId: string | null) {
   return useQuery({
     ...trpc.profile.getMetrics.queryOptions({
@@ -43,6 +54,94 @@ export function useProfileMetrics(accountId: string | null) {
   });
 }
 
+export function useTopicTweets(
+  accountId: string | null,
+  topicId: string | null,
+  sort: "similarity" | "recent" = "similarity",
+  enabled = true,
+) {
+  return useQuery({
+    ...trpc.profile.getTopicTweets.queryOptions({
+      accountId: accountId || "",
+      topicId: topicId || "",
+      sort,
+    }),
+    enabled: !!accountId && !!topicId && enabled,
+    staleTime: 30_000,
+  });
+}
+
+export function useTopicHistory(accountId: string | null, from?: number) {
+  return useQuery({
+    ...trpc.profile.getTopicHistory.queryOptions({
+      accountId: accountId || "",
+      from,
+    }),
+    enabled: !!accountId,
+    staleTime: 60_000,
+  });
+}
+
+export function useRenameTopic(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.profile.renameTopic.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
+export function useMergeTopics(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.profile.mergeTopics.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
+export function useSetTopicPinned(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.profile.setTopicPinned.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
+export function useSetTopicMuted(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.profile.setTopicMuted.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.profile.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
 export function useInvalidateProfile() {
   return useCallback((accountId: string) => {
     queryClient.invalidateQueries({ queryKey: queryKeys.profile.all });
@@ -20,3 +20,33 @@ export function useUpdateSchedule(options?: {
     }),
   );
 }
+
+export function useCreateSchedule(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.schedule.create.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.schedule.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
+export function useDeleteSchedule(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.schedule.delete.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.schedule.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
@@ -72,9 +72,9 @@ export function useSocialGraph(accountId?: string | null) {
   });
 }
 
-export function useCrossAccountGraph() {
+export function useCrossAccountGraph(group?: string | null) {
   return useQuery({
-    ...trpc.social.getCrossAccountGraph.queryOptions(),
+    ...trpc.social.getCrossAccountGraph.queryOptions(group ? { group } : undefined),
     staleTime: 60_000,
   });
 }
@@ -30,3 +30,42 @@ export function useTweetsByDate(
     enabled: !!accountId && !!date && enabled,
   });
 }
+
+export function useTweetEngagementHistory(tweetId: string, enabled = true) {
+  return useQuery({
+    ...trpc.tweet.getEngagementHistory.queryOptions({ tweetId }),
+    enabled,
+  });
+}
+
+export function useNamedEntities(
+  accountId: string | null,
+  type: "company" | "person" | "product" | "ticker",
+  days?: number,
+) {
+  return useQuery({
+    ...trpc.tweet.getNamedEntities.queryOptions({
+      accountId: accountId || "",
+      type,
+      days,
+      limit: 10,
+    }),
+    enabled: !!accountId,
+  });
+}
+
+export function useTopEntities(
+  accountId: string | null,
+  type: "hashtag" | "mention" | "domain" | "url" | "cashtag",
+  days?: number,
+) {
+  return useQuery({
+    ...trpc.tweet.getTopEntities.queryOptions({
+      accountId: accountId || "",
+      type,
+      days,
+      limit: 10,
+    }),
+    enabled: !!accountId,
+  });
+}
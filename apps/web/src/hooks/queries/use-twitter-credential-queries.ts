@@ -0,0 +1,55 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, trpc } from "@/utils/trpc";
+import { queryKeys } from "./query-keys";
+
+export function useTwitterCredentials() {
+  return useQuery(trpc.twitterCredential.list.queryOptions());
+}
+
+export function useAddTwitterCredential(options?: {
+  onSuccess?: (data: {
+    test: { success: true; name: string; username: string } | { success: false; error: string };
+  }) => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.twitterCredential.add.mutationOptions({
+      onSuccess: (data) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.twitterCredential.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.config.isConfigured });
+        options?.onSuccess?.(data);
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
+export function useRemoveTwitterCredential(options?: {
+  onSuccess?: () => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.twitterCredential.remove.mutationOptions({
+      onSuccess: () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.twitterCredential.all });
+        options?.onSuccess?.();
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
+
+export function useTestPooledTwitterCredential(options?: {
+  onSuccess?: (data: { success: boolean; username?: string; error?: string }) => void;
+  onError?: (error: { message: string }) => void;
+}) {
+  return useMutation(
+    trpc.twitterCredential.test.mutationOptions({
+      onSuccess: (data) => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.twitterCredential.all });
+        options?.onSuccess?.(data);
+      },
+      onError: (error) => options?.onError?.(error),
+    }),
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Engagement poll job definition - re-polls engagement counts for recent tweets.
+ * Tweets are re-polled on a decay schedule (hourly when fresh, daily near a week old),
+ * building the engagement history used for velocity.
+ */
+
+import { z } from "zod";
+import { pollEngagementForAccount } from "../../routers/ingest";
+import { defineJob } from "../registry";
+
+// --- Stages ---
+
+const engagementPollStages = ["fetching", "completing"] as const;
+
+type EngagementPollStage = (typeof engagementPollStages)[number];
+
+// --- Input schema ---
+
+const engagementPollInputSchema = z.object({
+  accountId: z.string(),
+});
+
+type EngagementPollInput = z.infer<typeof engagementPollInputSchema>;
+
+// --- Register job definition ---
+
+defineJob<EngagementPollInput, EngagementPollStage>({
+  type: "engagement_poll",
+  stages: engagementPollStages,
+  inputSchema: engagementPollInputSchema,
+  maxConcurrent: 1, // Rate limit safety
+
+  executor: async (input, context) => {
+    // ===== STAGE 1: FETCHING =====
+    await context.setStage("fetching", "Re-polling tweet engagement...");
+
+    const result = await pollEngagementForAccount(input.accountId);
+
+    if (result.dueCount === 0) {
+      await context.completeStage("fetching", { tweetCount: 0 });
+      await context.skipStage("completing", "No tweets due for re-poll");
+      return;
+    }
+
+    await context.completeStage("fetching", {
+      tweetCount: result.polledCount,
+      dueCount: result.dueCount,
+    });
+
+    if (await context.checkCancellation()) return;
+
+    // ===== STAGE 2: COMPLETING =====
+    await context.setStage("completing", "Finalizing engagement poll...");
+
+    await context.completeStage("completing", {
+      snapshotsRecorded: result.polledCount,
+    });
+
+    // Pipeline complete - executor.ts handles final DB updates
+  },
+});
@@ -0,0 +1,84 @@
+/**
+ * Gap backfill job definition - fills timeline gaps left by capped incremental fetches.
+ * Resumes each open fetch_gap from its stored cursor and pages until the
+ * previously known tweet is reached (or the page cap is hit again).
+ * Recovered tweets are handed to a profile_update job, since they predate the
+ * profile's last update and would otherwise never be classified.
+ */
+
+import { z } from "zod";
+import { backfillFetchGapsForAccount } from "../../routers/ingest";
+import { createJobRecord, executeJob } from "../executor";
+import { defineJob } from "../registry";
+
+// --- Stages ---
+
+const gapBackfillStages = ["fetching", "completing"] as const;
+
+type GapBackfillStage = (typeof gapBackfillStages)[number];
+
+// --- Input schema ---
+
+const gapBackfillInputSchema = z.object({
+  accountId: z.string(),
+});
+
+type GapBackfillInput = z.infer<typeof gapBackfillInputSchema>;
+
+// --- Register job definition ---
+
+defineJob<GapBackfillInput, GapBackfillStage>({
+  type: "gap_backfill",
+  stages: gapBackfillStages,
+  inputSchema: gapBackfillInputSchema,
+  maxConcurrent: 1, // Rate limit safety
+
+  executor: async (input, context) => {
+    // ===== STAGE 1: FETCHING =====
+    await context.setStage("fetching", "Backfilling fetch gaps...");
+
+    const result = await backfillFetchGapsForAccount(input.accountId, (processed, total) =>
+      context.updateProgress("fetching", `Gap ${processed}/${total}`),
+    );
+
+    if (result.gapsProcessed === 0) {
+      await context.completeStage("fetching", { tweetCount: 0 });
+      await context.skipStage("completing", "No open gaps");
+      return;
+    }
+
+    await context.completeStage("fetching", {
+      tweetCount: result.tweetsRecovered,
+      gapsProcessed: result.gapsProcessed,
+      gapsFilled: result.gapsFilled,
+    });
+
+    if (await context.checkCancellation()) return;
+
+    // ===== STAGE 2: COMPLETING =====
+    await context.setStage("completing", "Finalizing backfill...");
+
+    // Classify the recovered tweets (fire-and-forget)
+    let profileUpdateJobId: string | null = null;
+    if (result.recoveredTweetIds.length > 0) {
+      try {
+        profileUpdateJobId = await createJobRecord("profile_update", input.accountId, {
+          accountId: input.accountId,
+          tweetIds: result.recoveredTweetIds,
+        });
+        void executeJob(profileUpdateJobId);
+      } catch (error) {
+        // A running profile update blocks this one; the tweets stay unprocessed until the
+        // next backfill or rebuild
+        console.error("Failed to start profile update for recovered tweets:", error);
+      }
+    }
+
+    await context.completeStage("completing", {
+      gapsRemaining: result.gapsProcessed - result.gapsFilled,
+      profileUpdateJobId,
+    });
+
+    // Pipeline complete - executor.ts handles final DB updates
+  },
+});
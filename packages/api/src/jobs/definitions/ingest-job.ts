@@ -47,7 +47,7 @@ defineJob<IngestInput, IngestStage>({
     const result = await fetchAndStoreTweetsForAccount(input.accountId);
     const tweetCount = result.count;
 
-    await context.completeStage("fetching", { tweetCount });
+    await context.completeStage("fetching", { tweetCount, gapRecorded: result.gapRecorded });
 
     // Check cancellation
     if (await context.checkCancellation()) return;
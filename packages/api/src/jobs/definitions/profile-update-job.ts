@@ -1,33 +1,40 @@
 /**
  * Profile update job definition - incremental profile update pipeline.
  * Replaces fingerprint generation with live profile updates:
- * fetches new tweets, embeds, classifies incrementally, updates activity
- * metrics, evaluates personality (every 50 tweets), and detects changes.
+ * fetches new tweets, embeds, classifies incrementally, scores per-tweet
+ * sentiment, extracts named entities, updates activity metrics, evaluates
+ * personality (every 50 tweets), and detects changes.
  */
 
 import { db } from "@trend-x/db";
 import { account, tweet } from "@trend-x/db/schema";
-import { and, desc, eq, gt } from "drizzle-orm";
+import { and, desc, eq, gt, inArray, or } from "drizzle-orm";
 import { z } from "zod";
 
 import { getActivityMetrics } from "../../services/activity-metrics";
 import { stripUrls } from "../../services/analysis";
+import { requestCrossAccountTrendDetection } from "../../services/cross-account-trends";
 import {
   classifyTweetsIncremental,
   type TweetForClassification,
 } from "../../services/incremental-classification";
-import { generateEmbeddings } from "../../services/openai";
 import {
   shouldReEvaluatePersonality,
   evaluatePersonality,
 } from "../../services/personality";
+import { getIngestionPolicy, getTweetTypeFromFlags } from "../../services/ingestion-policy";
+import { extractAndStoreNamedEntities } from "../../services/named-entities";
 import { detectProfileChanges } from "../../services/profile-detection";
 import {
   getOrCreateProfile,
+  resetProfile,
   updateProfile,
   type ActivityMetrics,
 } from "../../services/profile";
 import { logProfileActivity } from "../../services/profile-activity";
+import { recordTopicSnapshot } from "../../services/topic-snapshots";
+import { getTweetEmbeddings } from "../../services/tweet-embeddings";
+import { refreshTopicSentiment, scoreTweetSentiment } from "../../services/tweet-sentiment";
 import { fetchAndStoreTweetsForAccount } from "../../routers/ingest";
 import { defineJob } from "../registry";
 
@@ -37,6 +44,8 @@ const profileUpdateStages = [
   "fetching",
   "embedding",
   "classifying",
+  "scoring",
+  "extracting",
   "updating",
   "detecting",
   "notifying",
@@ -48,6 +57,10 @@ type ProfileUpdateStage = (typeof profileUpdateStages)[number];
 
 const profileUpdateInputSchema = z.object({
   accountId: z.string(),
+  // Reset the profile first and reprocess every stored tweet (e.g. after an archive import)
+  rebuild: z.boolean().optional(),
+  // Older tweets to process alongside the new ones (e.g. recovered from fetch gaps)
+  tweetIds: z.array(z.string()).optional(),
 });
 
 type ProfileUpdateInput = z.infer<typeof profileUpdateInputSchema>;
@@ -93,6 +106,8 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
       text: string;
       tweetCreatedAt: number;
       isQuoteTweet: number;
+      isReply: number;
+      isRetweet: number;
       rawJson: string | null;
     }> = [];
     let tweetsForClassification: TweetForClassification[] = [];
@@ -110,8 +125,13 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
       throw new Error(`Account not found: ${input.accountId}`);
     }
 
-    // Get current profile to know what was already processed
-    const profile = await getOrCreateProfile(input.accountId);
+    // Get current profile to know what was already processed.
+    // A rebuild starts from a reset profile (only curated topics are kept), so all
+    // stored tweets count as new and change detection records a fresh baseline
+    // instead of notifying.
+    const profile = input.rebuild
+      ? await resetProfile(input.accountId)
+      : await getOrCreateProfile(input.accountId);
 
     // Snapshot previous activity metrics for change detection later
     previousActivityMetrics = profile.activityMetrics;
@@ -120,8 +140,10 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
     await fetchAndStoreTweetsForAccount(input.accountId);
 
     // Get tweets newer than the profile's lastUpdatedAt timestamp
-    // This gives us only tweets that haven't been processed yet
+    // This gives us only tweets that haven't been processed yet,
+    // plus any older tweets the caller asked for explicitly
     const lastUpdateTime = profile.lastUpdatedAt;
+    const newerThanLastUpdate = gt(tweet.tweetCreatedAt, lastUpdateTime);
 
     newTweets = await db
       .select({
@@ -129,13 +151,17 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
         text: tweet.text,
         tweetCreatedAt: tweet.tweetCreatedAt,
         isQuoteTweet: tweet.isQuoteTweet,
+        isReply: tweet.isReply,
+        isRetweet: tweet.isRetweet,
         rawJson: tweet.rawJson,
       })
       .from(tweet)
       .where(
         and(
           eq(tweet.accountId, input.accountId),
-          gt(tweet.tweetCreatedAt, lastUpdateTime),
+          input.tweetIds?.length
+            ? or(newerThanLastUpdate, inArray(tweet.id, input.tweetIds))
+            : newerThanLastUpdate,
         ),
       )
       .orderBy(desc(tweet.tweetCreatedAt));
@@ -146,6 +172,8 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
 
       await context.skipStage("embedding", "No new tweets");
       await context.skipStage("classifying", "No new tweets");
+      await context.skipStage("scoring", "No new tweets");
+      await context.skipStage("extracting", "No new tweets");
       await context.skipStage("updating", "No new tweets");
       await context.skipStage("detecting", "No new tweets");
       await context.skipStage("notifying", "No new tweets");
@@ -186,28 +214,33 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
     if (tweetsWithContent.length === 0) {
       await context.completeStage("embedding", { embeddingCount: 0 });
       await context.skipStage("classifying", "No tweets with text content");
+      await context.skipStage("scoring", "No tweets with text content");
+      await context.skipStage("extracting", "No tweets with text content");
       await context.skipStage("updating", "No tweets with text content");
       await context.skipStage("detecting", "No tweets with text content");
       await context.skipStage("notifying", "No tweets with text content");
       return;
     }
 
-    // Generate embeddings using the enriched text
-    const embeddingResults = await generateEmbeddings(
-      tweetsWithContent.map((t) => t.enrichedText),
+    // Generate embeddings using the enriched text (cached by model + text hash)
+    const embeddingResults = await getTweetEmbeddings(
+      tweetsWithContent.map((t) => ({ tweetId: t.id, text: t.enrichedText })),
     );
 
-    // Build classification input
+    // Build classification input, weighting each tweet by its type
+    const policy = await getIngestionPolicy(input.accountId);
     tweetsForClassification = tweetsWithContent.map((t, i) => ({
       id: t.id,
       text: t.strippedText,
       embedding: embeddingResults[i]!.embedding,
       tweetCreatedAt: t.tweetCreatedAt,
       enrichedText: t.enrichedText,
+      weight: policy.weights[getTweetTypeFromFlags(t)],
     }));
 
     await context.completeStage("embedding", {
       embeddingCount: embeddingResults.length,
+      cachedCount: embeddingResults.filter((r) => r.cached).length,
     });
 
     if (await context.checkCancellation()) return;
@@ -228,7 +261,62 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
 
     if (await context.checkCancellation()) return;
 
-    // ===== STAGE 4: UPDATING =====
+    // ===== STAGE 4: SCORING =====
+    await context.setStage("scoring", "Scoring tweet sentiment...");
+
+    try {
+      // Score each new tweet, then roll topic sentiment forward from the scores
+      const scoredCount = await scoreTweetSentiment(
+        tweetsForClassification.map((t) => ({
+          id: t.id,
+          text: t.enrichedText ?? t.text,
+        })),
+      );
+      const topicsRescored = await refreshTopicSentiment(input.accountId);
+
+      await context.completeStage("scoring", { scoredCount, topicsRescored });
+    } catch (error) {
+      // Sentiment scoring failure is non-blocking; topics keep their previous sentiment
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error("Sentiment scoring failed (non-blocking):", error);
+      await context.failStage("scoring", errorMessage);
+    }
+
+    if (await context.checkCancellation()) return;
+
+    // ===== STAGE 5: EXTRACTING =====
+    await context.setStage("extracting", "Extracting named entities...");
+
+    try {
+      // Store the companies, people, products and tickers each new tweet names;
+      // entities the account never mentioned before are notified. Tweets without
+      // text are included so they count as extracted history.
+      const extraction = await extractAndStoreNamedEntities(
+        input.accountId,
+        tweetsWithEnrichedText.map((t) => ({
+          id: t.id,
+          text: t.enrichedText,
+          tweetCreatedAt: t.tweetCreatedAt,
+        })),
+      );
+
+      await context.completeStage("extracting", {
+        entityCount: extraction.entityCount,
+        newEntityCount: extraction.newEntities.length,
+        notificationCount: extraction.notificationIds.length,
+      });
+    } catch (error) {
+      // Entity extraction failure is non-blocking
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error("Named entity extraction failed (non-blocking):", error);
+      await context.failStage("extracting", errorMessage);
+    }
+
+    if (await context.checkCancellation()) return;
+
+    // ===== STAGE 6: UPDATING =====
     await context.setStage("updating", "Updating profile metrics...");
 
     // Compute fresh activity metrics
@@ -268,14 +356,18 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
       }
     }
 
+    // Record topic proportions for the topic history chart
+    const topicSnapshotCount = await recordTopicSnapshot(input.accountId);
+
     await context.completeStage("updating", {
       tweetsPerDay: activityMetrics.tweetsPerDay,
       personalityEvaluated,
+      topicSnapshotCount,
     });
 
     if (await context.checkCancellation()) return;
 
-    // ===== STAGE 5: DETECTING =====
+    // ===== STAGE 7: DETECTING =====
     await context.setStage("detecting", "Detecting changes...");
 
     let detectionResult: Awaited<ReturnType<typeof detectProfileChanges>> | null =
@@ -299,9 +391,13 @@ defineJob<ProfileUpdateInput, ProfileUpdateStage>({
       await context.failStage("detecting", errorMessage);
     }
 
+    // New tweets may complete a subject other accounts are covering; one detection
+    // run covers every profile update that finishes around the same time
+    requestCrossAccountTrendDetection();
+
     if (await context.checkCancellation()) return;
 
-    // ===== STAGE 6: NOTIFYING =====
+    // ===== STAGE 8: NOTIFYING =====
     const shouldNotify =
       detectionResult &&
       !detectionResult.isBaseline &&
@@ -0,0 +1,66 @@
+/**
+ * Topic maintenance job definition - keeps an account's topics clean over time.
+ * Merges topics with near-identical centroids, splits topics that grew into
+ * catch-alls, relabels the results and logs every merge and split.
+ */
+
+import { z } from "zod";
+import { assertNoProfileUpdateRunning } from "../../services/topic-curation";
+import { maintainTopics } from "../../services/topic-maintenance";
+import { defineJob } from "../registry";
+
+// --- Stages ---
+
+const topicMaintenanceStages = ["maintaining", "completing"] as const;
+
+type TopicMaintenanceStage = (typeof topicMaintenanceStages)[number];
+
+// --- Input schema ---
+
+const topicMaintenanceInputSchema = z.object({
+  accountId: z.string(),
+});
+
+type TopicMaintenanceInput = z.infer<typeof topicMaintenanceInputSchema>;
+
+// --- Register job definition ---
+
+defineJob<TopicMaintenanceInput, TopicMaintenanceStage>({
+  type: "topic_maintenance",
+  stages: topicMaintenanceStages,
+  inputSchema: topicMaintenanceInputSchema,
+  maxConcurrent: 1,
+
+  executor: async (input, context) => {
+    // ===== STAGE 1: MAINTAINING =====
+    await context.setStage("maintaining", "Merging and splitting topics...");
+
+    // Both jobs rewrite the profile's topics; a concurrent run would lose one side's changes
+    await assertNoProfileUpdateRunning(input.accountId);
+
+    const result = await maintainTopics(input.accountId);
+
+    if (result.merges.length === 0 && result.splits.length === 0) {
+      await context.completeStage("maintaining", { topicCount: result.topicsBefore });
+      await context.skipStage("completing", "Topics need no merges or splits");
+      return;
+    }
+
+    await context.completeStage("maintaining", {
+      merges: result.merges.length,
+      splits: result.splits.length,
+    });
+
+    if (await context.checkCancellation()) return;
+
+    // ===== STAGE 2: COMPLETING =====
+    await context.setStage("completing", "Finalizing topic maintenance...");
+
+    await context.completeStage("completing", {
+      topicsBefore: result.topicsBefore,
+      topicsAfter: result.topicsAfter,
+    });
+
+    // Pipeline complete - executor.ts handles final DB updates
+  },
+});
@@ -6,6 +6,7 @@
 import { db } from "@trend-x/db";
 import { pipelineRun, pipelineStep } from "@trend-x/db/schema";
 import { and, eq } from "drizzle-orm";
+import { assertAccountWritable } from "../services/account-lifecycle";
 import { getJobDefinition } from "./registry";
 import type { JobContext } from "./types";
 
@@ -221,7 +222,10 @@ export async function createJobRecord(
   // 2. Validate input against schema
   const validatedInput = definition.inputSchema.parse(input);
 
-  // 3. Check per-type concurrency
+  // 3. Archived accounts are read-only
+  await assertAccountWritable(accountId);
+
+  // 4. Check per-type concurrency
   const runningCount = await db
     .select({ count: pipelineRun.id })
     .from(pipelineRun)
@@ -231,7 +235,7 @@ export async function createJobRecord(
     throw new Error(`Maximum concurrent ${type} jobs reached (${definition.maxConcurrent})`);
   }
 
-  // 4. Insert pipeline_run row
+  // 5. Insert pipeline_run row
   const jobId = crypto.randomUUID();
   await db.insert(pipelineRun).values({
     id: jobId,
@@ -241,7 +245,7 @@ export async function createJobRecord(
     input: JSON.stringify(validatedInput),
   });
 
-  // 5. Insert pipeline_step rows for each stage
+  // 6. Insert pipeline_step rows for each stage
   for (let i = 0; i < definition.stages.length; i++) {
     await db.insert(pipelineStep).values({
       runId: jobId,
@@ -6,9 +6,12 @@
  */
 
 // Import definitions to trigger registration (side-effect imports)
+import "./definitions/engagement-poll-job";
+import "./definitions/gap-backfill-job";
 import "./definitions/ingest-job";
 import "./definitions/profile-update-job";
 import "./definitions/social-snapshot-job";
+import "./definitions/topic-maintenance-job";
 
 // Re-export public API
 export { defineJob, getJobDefinition, getAllJobTypes } from "./registry";
@@ -5,6 +5,29 @@ import { count, desc, eq } from "drizzle-orm";
 import { z } from "zod";
 
 import { publicProcedure, router } from "../index";
+import { getTagsByAccount, listGroups, setAccountTags } from "../services/account-groups";
+import { importAccounts } from "../services/account-import";
+import {
+  ACCOUNT_STATUSES,
+  MAX_FETCH_INTERVAL_MINUTES,
+  MIN_FETCH_INTERVAL_MINUTES,
+  updateAccountMonitoring,
+} from "../services/account-lifecycle";
+import { getIngestionPolicy, setIngestionPolicy } from "../services/ingestion-policy";
+
+const tweetTypeWeight = z.number().min(0).max(1);
+
+const ingestionPolicySchema = z.object({
+  includeReplies: z.boolean(),
+  includeRetweets: z.boolean(),
+  includeQuotes: z.boolean(),
+  weights: z.object({
+    original: tweetTypeWeight,
+    reply: tweetTypeWeight,
+    retweet: tweetTypeWeight,
+    quote: tweetTypeWeight,
+  }),
+});
 
 export const accountRouter = router({
   list: publicProcedure.query(async () => {
@@ -12,14 +35,87 @@ export const accountRouter = router({
       .select({
         id: account.id,
         handle: account.handle,
+        status: account.status,
+        fetchIntervalMinutes: account.fetchIntervalMinutes,
         createdAt: account.createdAt,
       })
       .from(account)
       .orderBy(desc(account.createdAt));
 
-    return accounts;
+    const tagsByAccount = await getTagsByAccount();
+    return accounts.map((a) => ({ ...a, tags: tagsByAccount.get(a.id) ?? [] }));
   }),
 
+  /**
+   * List account groups (distinct tags) with their account counts.
+   */
+  listGroups: publicProcedure.query(async () => {
+    return listGroups();
+  }),
+
+  /**
+   * Replace the tags (group memberships) of an account.
+   */
+  setTags: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        tags: z.array(z.string().max(50)).max(20),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const [existing] = await db
+        .select({ id: account.id })
+        .from(account)
+        .where(eq(account.id, input.accountId));
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Account ${input.accountId} not found`,
+        });
+      }
+
+      return { tags: await setAccountTags(input.accountId, input.tags) };
+    }),
+
+  /**
+   * Change an account's lifecycle status (active, paused, archived) and/or its fetch
+   * cadence override in minutes (null = follow the ingest schedule).
+   */
+  updateMonitoring: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        status: z.enum(ACCOUNT_STATUSES).optional(),
+        fetchIntervalMinutes: z
+          .number()
+          .int()
+          .min(MIN_FETCH_INTERVAL_MINUTES)
+          .max(MAX_FETCH_INTERVAL_MINUTES)
+          .nullable()
+          .optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const [existing] = await db
+        .select({ id: account.id })
+        .from(account)
+        .where(eq(account.id, input.accountId));
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Account ${input.accountId} not found`,
+        });
+      }
+
+      return updateAccountMonitoring(input.accountId, {
+        status: input.status,
+        fetchIntervalMinutes: input.fetchIntervalMinutes,
+      });
+    }),
+
   create: publicProcedure
     .input(
       z.object({
@@ -42,6 +138,31 @@ export const accountRouter = router({
       return created;
     }),
 
+  /**
+   * Import many accounts from CSV (handle, tags, notes), a handle list or a Twitter list ID/URL.
+   * Returns a result per row; with queueIngest, initial ingests run staggered in the background.
+   */
+  bulkImport: publicProcedure
+    .input(
+      z.object({
+        format: z.enum(["csv", "handles", "twitter_list"]),
+        content: z.string().min(1),
+        tags: z.array(z.string()).optional(),
+        dryRun: z.boolean().default(false),
+        queueIngest: z.boolean().default(true),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      try {
+        return await importAccounts(input);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Import failed",
+        });
+      }
+    }),
+
   delete: publicProcedure
     .input(
       z.object({
@@ -65,6 +186,41 @@ export const accountRouter = router({
       return { success: true };
     }),
 
+  /**
+   * Get the ingestion policy (stored tweet types and per-type weights) for an account.
+   */
+  getIngestionPolicy: publicProcedure
+    .input(z.object({ accountId: z.string().min(1) }))
+    .query(async ({ input }) => {
+      return getIngestionPolicy(input.accountId);
+    }),
+
+  /**
+   * Replace the ingestion policy for an account. Applies to future fetches and analysis runs.
+   */
+  updateIngestionPolicy: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        policy: ingestionPolicySchema,
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const [existing] = await db
+        .select({ id: account.id })
+        .from(account)
+        .where(eq(account.id, input.accountId));
+
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Account ${input.accountId} not found`,
+        });
+      }
+
+      return setIngestionPolicy(input.accountId, input.policy);
+    }),
+
   count: publicProcedure.query(async () => {
     const [result] = await db.select({ count: count() }).from(account);
     return result?.count ?? 0;
@@ -8,6 +8,7 @@ import { OllamaProvider } from "../services/ai/ollama-provider";
 import { OpenAIProvider } from "../services/ai/openai-provider";
 import { OpenRouterProvider } from "../services/ai/openrouter-provider";
 import { getProvider, resetProviderCache } from "../services/ai/provider-factory";
+import { deleteStaleEmbeddings, getEmbeddingCacheStats } from "../services/tweet-embeddings";
 
 /**
  * Helper function to mask API key showing only last 4 characters.
@@ -227,6 +228,7 @@ export const aiConfigRouter = router({
           labeling: number;
           sentiment: number;
           explanation: number;
+          entities: number;
         }
       >();
 
@@ -238,6 +240,7 @@ export const aiConfigRouter = router({
             labeling: 0,
             sentiment: 0,
             explanation: 0,
+            entities: 0,
           });
         }
         const dayData = dailyMap.get(row.date)!;
@@ -254,12 +257,30 @@ export const aiConfigRouter = router({
           case "explanation":
             dayData.explanation = row.tokens;
             break;
+          case "entities":
+            dayData.entities = row.tokens;
+            break;
         }
       }
 
       return Array.from(dailyMap.values());
     }),
 
+  /**
+   * Get stored embedding counts per model, including stale vectors from previous models.
+   */
+  getEmbeddingCacheStats: publicProcedure.query(async () => {
+    return getEmbeddingCacheStats();
+  }),
+
+  /**
+   * Delete stored embeddings that were produced by a model other than the configured one.
+   */
+  purgeStaleEmbeddings: publicProcedure.mutation(async () => {
+    const deleted = await deleteStaleEmbeddings();
+    return { deleted };
+  }),
+
   /**
    * Detect if Ollama is available on localhost.
    */
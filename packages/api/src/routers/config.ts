@@ -1,13 +1,10 @@
-import { TwitterClient } from "@steipete/bird";
 import { db } from "@trend-x/db";
-import { config } from "@trend-x/db/schema";
+import { config, twitterCredential } from "@trend-x/db/schema";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
 
 import { publicProcedure, router } from "../index";
-
-// Base required credentials (always needed)
-const BASE_REQUIRED_CREDENTIALS = ["twitter_auth_token", "twitter_ct0"] as const;
+import { getRateLimitBudget } from "../services/twitter-client";
 
 // AI-related required credentials (always needed)
 const AI_BASE_CREDENTIALS = ["ai_chat_model", "ai_embedding_model"] as const;
@@ -98,36 +95,12 @@ export const configRouter = router({
       return { success: true, count: input.entries.length };
     }),
 
-  testTwitterCredentials: publicProcedure.mutation(async () => {
-    const [authTokenRow] = await db
-      .select({ value: config.value })
-      .from(config)
-      .where(eq(config.key, "twitter_auth_token"));
-
-    const [ct0Row] = await db
-      .select({ value: config.value })
-      .from(config)
-      .where(eq(config.key, "twitter_ct0"));
-
-    const authToken = authTokenRow?.value;
-    const ct0 = ct0Row?.value;
-
-    if (!authToken || !ct0) {
-      return { success: false as const, error: "Twitter credentials not configured" };
-    }
-
-    const client = new TwitterClient({ cookies: { authToken, ct0 } });
-    const account = await client.getCurrentUser();
-
-    if (!account.success || !account.user) {
-      return { success: false as const, error: account.error ?? "Failed to authenticate" };
-    }
-
-    return {
-      success: true as const,
-      name: account.user.name,
-      username: account.user.username,
-    };
+  /**
+   * Get the remaining Twitter request budget per endpoint family.
+   * Jobs wait for budget rather than failing, so a drained family explains a slow run.
+   */
+  getRateLimitBudget: publicProcedure.query(() => {
+    return getRateLimitBudget();
   }),
 
   isConfigured: publicProcedure.query(async () => {
@@ -137,12 +110,14 @@ export const configRouter = router({
 
     const missing: string[] = [];
 
-    // Check base credentials (always required)
-    for (const key of BASE_REQUIRED_CREDENTIALS) {
-      const value = configMap.get(key);
-      if (!value || value.trim() === "") {
-        missing.push(key);
-      }
+    // Check Twitter credentials (the fixture source runs fully offline)
+    const tweetSource = configMap.get("tweet_source") || "bird";
+    const [pooledCredential] = await db
+      .select({ id: twitterCredential.id })
+      .from(twitterCredential)
+      .limit(1);
+    if (tweetSource !== "fixture" && !pooledCredential) {
+      missing.push("twitter_credentials");
     }
 
     // Check AI base credentials (always required)
@@ -11,6 +11,7 @@ import { scheduleRouter } from "./schedule";
 import { socialRouter } from "./social";
 import { telegramRouter } from "./telegram";
 import { tweetRouter } from "./tweet";
+import { twitterCredentialRouter } from "./twitter-credential";
 
 export const appRouter = router({
   healthCheck: publicProcedure.query(() => {
@@ -28,5 +29,6 @@ export const appRouter = router({
   social: socialRouter,
   telegram: telegramRouter,
   tweet: tweetRouter,
+  twitterCredential: twitterCredentialRouter,
 });
 export type AppRouter = typeof appRouter;
@@ -1,11 +1,32 @@
 import { db } from "@trend-x/db";
-import { account, config, tweet } from "@trend-x/db/schema";
+import { account, config, fetchGap, tweet } from "@trend-x/db/schema";
 import { TRPCError } from "@trpc/server";
-import { eq } from "drizzle-orm";
+import { and, asc, desc, eq, inArray, isNull } from "drizzle-orm";
 import { z } from "zod";
 
 import { publicProcedure, router } from "../index";
-import { fetchUserTweets, filterOriginalTweets, type TweetData } from "../services/bird";
+import { createJobRecord, executeJob } from "../jobs/executor";
+import { isLiveSource, syncAccountIdentity } from "../services/account-identity";
+import { assertAccountWritable } from "../services/account-lifecycle";
+import { findCurrentProfile, recordProfileSnapshot } from "../services/account-profile-snapshots";
+import { stripUrls } from "../services/analysis";
+import {
+  compareTweetIds,
+  type FetchResult,
+  fetchUserTweets,
+  type TweetData,
+} from "../services/bird";
+import { getTweetsDueForPoll, recordEngagementSnapshots } from "../services/engagement";
+import { filterTweetsByPolicy, getIngestionPolicy } from "../services/ingestion-policy";
+import { extractAndStoreNamedEntities } from "../services/named-entities";
+import { logProfileActivity } from "../services/profile-activity";
+import { parseArchiveAccount, parseArchiveTweets } from "../services/sources/archive-parser";
+import type { SourceName } from "../services/sources/types";
+import { detectTweetChanges } from "../services/tweet-changes";
+import { type EntitySourceTweet, storeTweetEntities } from "../services/tweet-entities";
+
+/** Default page cap for incremental fetches (~20 tweets per page). */
+const DEFAULT_FETCH_MAX_PAGES = 10;
 
 /**
  * Extract tweet type flags from rawJson.
@@ -23,11 +44,17 @@ function extractTweetTypeFlags(rawJson: unknown): {
   const text = (json?.text as string) ?? "";
   const isRetweet = json?.retweeted_status || text.startsWith("RT @") ? 1 : 0;
 
-  // Reply: check in_reply_to_status_id or inReplyToStatusId (Bird format)
-  const isReply = json?.in_reply_to_status_id || json?.inReplyToStatusId ? 1 : 0;
+  // Reply: check in_reply_to_status_id or inReplyToStatusId (Bird format),
+  // or a conversation started by another tweet (source format)
+  const isReply =
+    json?.in_reply_to_status_id ||
+    json?.inReplyToStatusId ||
+    (json?.conversationId && json.conversationId !== json.id)
+      ? 1
+      : 0;
 
-  // Quote tweet: check quoted_status or is_quote_status
-  const isQuoteTweet = json?.quoted_status || json?.is_quote_status ? 1 : 0;
+  // Quote tweet: check quoted_status or is_quote_status, or quotedTweet (source format)
+  const isQuoteTweet = json?.quoted_status || json?.is_quote_status || json?.quotedTweet ? 1 : 0;
 
   return {
     isRetweet: isRetweet as 0 | 1,
@@ -37,45 +64,73 @@ function extractTweetTypeFlags(rawJson: unknown): {
 }
 
 /**
- * Get Twitter credentials from config table.
- * Throws if credentials are missing or empty.
+ * Get the configured page cap for incremental fetches and gap backfills.
  */
-async function getCredentials(): Promise<{ authToken: string; ct0: string }> {
-  const [authTokenRow] = await db
+async function getFetchMaxPages(): Promise<number> {
+  const [row] = await db
     .select({ value: config.value })
     .from(config)
-    .where(eq(config.key, "twitter_auth_token"));
+    .where(eq(config.key, "twitter_fetch_max_pages"));
 
-  const [ct0Row] = await db
-    .select({ value: config.value })
-    .from(config)
-    .where(eq(config.key, "twitter_ct0"));
+  const parsed = Number.parseInt(row?.value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_FETCH_MAX_PAGES;
+}
 
-  const authToken = authTokenRow?.value;
-  const ct0 = ct0Row?.value;
+/**
+ * After a successful live fetch, store the account's Twitter user ID (first fetch)
+ * or pick up a handle rename (see services/account-identity), and snapshot the
+ * profile embedded in the account's own tweets (see services/account-profile-snapshots).
+ */
+async function syncAccountFromFetch(accountId: string, result: FetchResult): Promise<void> {
+  if (!result.success || !result.user || !isLiveSource(result.source)) return;
 
-  if (!authToken || authToken.trim() === "") {
-    throw new TRPCError({
-      code: "PRECONDITION_FAILED",
-      message: "Twitter auth_token not configured",
-    });
+  await syncAccountIdentity(accountId, result.user);
+
+  const profile = findCurrentProfile(result.user.userId, result.tweets);
+  if (profile) {
+    await recordProfileSnapshot(accountId, profile, "ingest");
   }
+}
 
-  if (!ct0 || ct0.trim() === "") {
-    throw new TRPCError({
-      code: "PRECONDITION_FAILED",
-      message: "Twitter ct0 not configured",
-    });
+/**
+ * Find the newest tweet ID in a batch (timeline order is not guaranteed because of pinned tweets).
+ */
+function getNewestTweetId(tweets: TweetData[]): string | undefined {
+  let newest: string | undefined;
+  for (const t of tweets) {
+    if (!newest || compareTweetIds(t.id, newest) > 0) newest = t.id;
   }
+  return newest;
+}
 
-  return { authToken, ct0 };
+/**
+ * Find the oldest tweet ID in a batch.
+ */
+function getOldestTweetId(tweets: TweetData[]): string | undefined {
+  let oldest: string | undefined;
+  for (const t of tweets) {
+    if (!oldest || compareTweetIds(t.id, oldest) < 0) oldest = t.id;
+  }
+  return oldest;
 }
 
 /**
  * Store tweets in database with upsert (update engagement counts on conflict).
+ * Each live sighting also records an engagement snapshot so the count history is kept,
+ * and the tweet's hashtags, mentions, links and cashtags are (re-)extracted.
+ * With keepExisting, rows already in the table are left untouched (used by archive
+ * imports, whose counts are older than anything fetched live).
+ * Returns the number of newly inserted tweets.
  */
-async function storeTweets(accountId: string, tweets: TweetData[]): Promise<void> {
+async function storeTweets(
+  accountId: string,
+  tweets: TweetData[],
+  source: SourceName,
+  options?: { keepExisting?: boolean },
+): Promise<number> {
   const now = Math.floor(Date.now() / 1000);
+  let inserted = 0;
+  const entitySources: EntitySourceTweet[] = [];
 
   for (const t of tweets) {
     // Parse ISO timestamp to Unix timestamp (default to now if missing)
@@ -84,22 +139,39 @@ async function storeTweets(accountId: string, tweets: TweetData[]): Promise<void
     // Extract tweet type flags from raw data
     const flags = extractTweetTypeFlags(t);
 
+    const values = {
+      id: t.id,
+      accountId,
+      text: t.text,
+      tweetCreatedAt,
+      likeCount: t.likeCount ?? 0,
+      retweetCount: t.retweetCount ?? 0,
+      replyCount: t.replyCount ?? 0,
+      rawJson: JSON.stringify(t),
+      fetchedAt: now,
+      isRetweet: flags.isRetweet,
+      isReply: flags.isReply,
+      isQuoteTweet: flags.isQuoteTweet,
+      source,
+    };
+
+    if (options?.keepExisting) {
+      const rows = await db
+        .insert(tweet)
+        .values(values)
+        .onConflictDoNothing()
+        .returning({ id: tweet.id });
+      inserted += rows.length;
+      if (rows.length > 0) entitySources.push({ ...t, tweetCreatedAt });
+      continue;
+    }
+
+    const [existing] = await db.select({ id: tweet.id }).from(tweet).where(eq(tweet.id, t.id));
+    if (!existing) inserted++;
+
     await db
       .insert(tweet)
-      .values({
-        id: t.id,
-        accountId,
-        text: t.text,
-        tweetCreatedAt,
-        likeCount: t.likeCount ?? 0,
-        retweetCount: t.retweetCount ?? 0,
-        replyCount: t.replyCount ?? 0,
-        rawJson: JSON.stringify(t),
-        fetchedAt: now,
-        isRetweet: flags.isRetweet,
-        isReply: flags.isReply,
-        isQuoteTweet: flags.isQuoteTweet,
-      })
+      .values(values)
       .onConflictDoUpdate({
         target: tweet.id,
         set: {
@@ -113,16 +185,29 @@ async function storeTweets(accountId: string, tweets: TweetData[]): Promise<void
           isQuoteTweet: flags.isQuoteTweet,
         },
       });
+    entitySources.push({ ...t, tweetCreatedAt });
+  }
+
+  await storeTweetEntities(accountId, entitySources);
+
+  if (!options?.keepExisting) {
+    await recordEngagementSnapshots(accountId, tweets, now);
   }
+
+  return inserted;
 }
 
 /**
  * Core fetch and store logic for a single account.
  * Exported for use by scheduler service.
+ *
+ * After the initial scrape, pages back from the newest tweet until lastFetchedTweetId
+ * is reached. If the page cap stops it first, the skipped stretch is recorded as a
+ * fetch gap for the gap_backfill job.
  */
 export async function fetchAndStoreTweetsForAccount(
   accountId: string,
-): Promise<{ success: boolean; count: number }> {
+): Promise<{ success: boolean; count: number; gapRecorded: boolean }> {
   // Get account
   const [acc] = await db.select().from(account).where(eq(account.id, accountId));
 
@@ -133,8 +218,7 @@ export async function fetchAndStoreTweetsForAccount(
     });
   }
 
-  // Get credentials
-  const { authToken, ct0 } = await getCredentials();
+  await assertAccountWritable(accountId);
 
   // Determine if initial fetch (no lastFetchedTweetId means first time)
   const isInitial = !acc.lastFetchedTweetId;
@@ -144,14 +228,18 @@ export async function fetchAndStoreTweetsForAccount(
     // Initial scrape: Fetch tweets going back 1 year (time-bounded)
     const oneYearAgo = Math.floor(Date.now() / 1000) - 365 * 24 * 60 * 60;
 
-    result = await fetchUserTweets(acc.handle, authToken, ct0, {
+    result = await fetchUserTweets(acc.handle, {
+      userId: acc.twitterUserId ?? undefined,
       count: 100, // per page
       until: oneYearAgo, // stop when tweets are older than this
     });
   } else {
-    // Ongoing fetch: just get recent tweets
-    result = await fetchUserTweets(acc.handle, authToken, ct0, {
+    // Ongoing fetch: page back until the last known tweet or the page cap
+    result = await fetchUserTweets(acc.handle, {
+      userId: acc.twitterUserId ?? undefined,
       count: 50,
+      sinceId: acc.lastFetchedTweetId ?? undefined,
+      maxPages: await getFetchMaxPages(),
     });
   }
 
@@ -170,15 +258,39 @@ export async function fetchAndStoreTweetsForAccount(
     });
   }
 
-  const tweetsToStore = filterOriginalTweets(result.tweets);
+  await syncAccountFromFetch(accountId, result);
+
+  // Flag edits and deletions against what we stored before this fetch
+  await detectTweetChanges(accountId, result.tweets, result.source);
+
+  // Keep only the tweet types this account's policy stores
+  const policy = await getIngestionPolicy(accountId);
+  const tweetsToStore = filterTweetsByPolicy(result.tweets, policy);
 
   // Store tweets
-  await storeTweets(accountId, tweetsToStore);
+  await storeTweets(accountId, tweetsToStore, result.source);
+
+  // Record a gap when the page cap stopped us before reaching the last known tweet
+  const oldestFetchedId = getOldestTweetId(result.tweets);
+  const gapRecorded =
+    !isInitial &&
+    result.reachedSinceId === false &&
+    !!result.nextCursor &&
+    !!oldestFetchedId &&
+    !!acc.lastFetchedTweetId;
+
+  if (gapRecorded) {
+    await db.insert(fetchGap).values({
+      accountId,
+      newerTweetId: oldestFetchedId,
+      olderTweetId: acc.lastFetchedTweetId as string,
+      resumeCursor: result.nextCursor,
+    });
+  }
 
   // Update account tracking fields
   const now = Math.floor(Date.now() / 1000);
-  const firstTweet = result.tweets[0];
-  const mostRecentTweetId = firstTweet?.id ?? acc.lastFetchedTweetId;
+  const mostRecentTweetId = getNewestTweetId(result.tweets) ?? acc.lastFetchedTweetId;
 
   await db
     .update(account)
@@ -189,7 +301,270 @@ export async function fetchAndStoreTweetsForAccount(
     })
     .where(eq(account.id, accountId));
 
-  return { success: true, count: tweetsToStore.length };
+  return { success: true, count: tweetsToStore.length, gapRecorded };
+}
+
+/**
+ * Fill recorded fetch gaps for a single account.
+ * Resumes each open gap from its cursor and pages until the gap's older bound
+ * is reached. Gaps that hit the page cap again stay open with an advanced cursor.
+ * When a page fails partway through, the pages fetched before it are stored and the
+ * gap shrinks to the part still missing, resuming from the failed page next time.
+ * Returns the recovered tweet IDs: they are older than the profile's last update,
+ * so the caller must hand them to profile_update explicitly.
+ * Exported for use by the gap_backfill job.
+ */
+export async function backfillFetchGapsForAccount(
+  accountId: string,
+  onProgress?: (processed: number, total: number) => Promise<void>,
+): Promise<{
+  gapsProcessed: number;
+  gapsFilled: number;
+  tweetsRecovered: number;
+  recoveredTweetIds: string[];
+}> {
+  const [acc] = await db.select().from(account).where(eq(account.id, accountId));
+
+  if (!acc) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Account ${accountId} not found`,
+    });
+  }
+
+  const maxPages = await getFetchMaxPages();
+  const policy = await getIngestionPolicy(accountId);
+
+  const gaps = await db
+    .select()
+    .from(fetchGap)
+    .where(and(eq(fetchGap.accountId, accountId), eq(fetchGap.status, "open")))
+    .orderBy(desc(fetchGap.createdAt));
+
+  let gapsFilled = 0;
+  const recoveredTweetIds: string[] = [];
+
+  for (const [i, gap] of gaps.entries()) {
+    const result = await fetchUserTweets(acc.handle, {
+      userId: acc.twitterUserId ?? undefined,
+      count: 50,
+      sinceId: gap.olderTweetId,
+      cursor: gap.resumeCursor ?? undefined,
+      maxPages,
+    });
+
+    if (!result.success) {
+      // Keep what was fetched before the failing page; without a source nothing can be stored
+      const fetched = result.source ? (result.tweets ?? []) : [];
+      const tweetsToStore = filterTweetsByPolicy(fetched, policy);
+      if (result.source) await storeTweets(accountId, tweetsToStore, result.source);
+      recoveredTweetIds.push(...tweetsToStore.map((t) => t.id));
+
+      await db
+        .update(fetchGap)
+        .set({
+          resumeCursor: fetched.length > 0 ? result.nextCursor : gap.resumeCursor,
+          newerTweetId: getOldestTweetId(fetched) ?? gap.newerTweetId,
+          tweetsRecovered: gap.tweetsRecovered + tweetsToStore.length,
+          lastError: result.error,
+        })
+        .where(eq(fetchGap.id, gap.id));
+      await onProgress?.(i + 1, gaps.length);
+      continue;
+    }
+
+    await syncAccountFromFetch(accountId, result);
+    await detectTweetChanges(accountId, result.tweets, result.source);
+    const tweetsToStore = filterTweetsByPolicy(result.tweets, policy);
+    await storeTweets(accountId, tweetsToStore, result.source);
+    recoveredTweetIds.push(...tweetsToStore.map((t) => t.id));
+
+    const filled = result.reachedSinceId !== false || !result.nextCursor;
+    const now = Math.floor(Date.now() / 1000);
+
+    await db
+      .update(fetchGap)
+      .set({
+        status: filled ? "filled" : "open",
+        resumeCursor: filled ? null : result.nextCursor,
+        newerTweetId: getOldestTweetId(result.tweets) ?? gap.newerTweetId,
+        tweetsRecovered: gap.tweetsRecovered + tweetsToStore.length,
+        lastError: null,
+        filledAt: filled ? now : null,
+      })
+      .where(eq(fetchGap.id, gap.id));
+
+    if (filled) gapsFilled++;
+    await onProgress?.(i + 1, gaps.length);
+  }
+
+  return {
+    gapsProcessed: gaps.length,
+    gapsFilled,
+    tweetsRecovered: recoveredTweetIds.length,
+    recoveredTweetIds,
+  };
+}
+
+/**
+ * Re-poll engagement for an account's recent tweets that are due on the decay schedule
+ * (see services/engagement). Pages the timeline back to the oldest due tweet and
+ * re-stores every already-known tweet seen on the way, which updates its counts
+ * and records a snapshot. New tweets are left for the regular ingest.
+ * The re-fetched window is also checked for edited and deleted tweets.
+ * Exported for use by the engagement_poll job.
+ */
+export async function pollEngagementForAccount(accountId: string): Promise<{
+  dueCount: number;
+  polledCount: number;
+}> {
+  const [acc] = await db.select().from(account).where(eq(account.id, accountId));
+
+  if (!acc) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Account ${accountId} not found`,
+    });
+  }
+
+  const due = await getTweetsDueForPoll(accountId);
+  const oldestDue = due[due.length - 1];
+  if (!oldestDue) {
+    return { dueCount: 0, polledCount: 0 };
+  }
+
+  const result = await fetchUserTweets(acc.handle, {
+    userId: acc.twitterUserId ?? undefined,
+    count: 50,
+    until: oldestDue.tweetCreatedAt,
+    maxPages: await getFetchMaxPages(),
+  });
+
+  if (!result.success) {
+    throw new Error(`Failed to re-poll tweets: ${result.error}`);
+  }
+
+  await syncAccountFromFetch(accountId, result);
+
+  // Re-polls cover the freshest part of the timeline, where deletions matter most
+  await detectTweetChanges(accountId, result.tweets, result.source);
+
+  // Only refresh tweets we already store
+  const fetchedIds = result.tweets.map((t) => t.id);
+  const known =
+    fetchedIds.length > 0
+      ? await db
+          .select({ id: tweet.id })
+          .from(tweet)
+          .where(and(eq(tweet.accountId, accountId), inArray(tweet.id, fetchedIds)))
+      : [];
+  const knownIds = new Set(known.map((k) => k.id));
+  const tweetsToStore = result.tweets.filter((t) => knownIds.has(t.id));
+
+  await storeTweets(accountId, tweetsToStore, result.source);
+
+  return { dueCount: due.length, polledCount: tweetsToStore.length };
+}
+
+/** Archive data files holding tweets: tweets.js, or tweets-part1.js etc. for large archives. */
+const ARCHIVE_TWEETS_FILE_PATTERN = /(^|\/)tweets(-part\d+)?\.js$/;
+const ARCHIVE_ACCOUNT_FILE_PATTERN = /(^|\/)account\.js$/;
+
+/**
+ * Import tweets from an official Twitter/X data archive into the tweet table.
+ * Accepts the archive's data files (tweets.js / tweets-partN.js, optionally account.js);
+ * zip extraction happens client-side so media never has to be uploaded.
+ * Existing rows are kept as-is. A profile rebuild job is started afterwards so
+ * topics and personality cover the full imported history.
+ */
+export async function importArchiveForAccount(
+  accountId: string,
+  files: Array<{ name: string; content: string }>,
+): Promise<{
+  total: number;
+  imported: number;
+  skipped: number;
+  rebuildJobId: string | null;
+}> {
+  const [acc] = await db.select().from(account).where(eq(account.id, accountId));
+
+  if (!acc) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Account ${accountId} not found`,
+    });
+  }
+
+  await assertAccountWritable(accountId);
+
+  const handle = acc.handle.startsWith("@") ? acc.handle.slice(1) : acc.handle;
+
+  // Identify the archive owner (falls back to the account handle when account.js is absent)
+  const accountFile = files.find((f) => ARCHIVE_ACCOUNT_FILE_PATTERN.test(f.name));
+  const owner = accountFile ? parseArchiveAccount(accountFile.content) : null;
+
+  // Archives exported before a rename carry the old handle; the user ID still matches
+  const sameUser = !!owner && !!acc.twitterUserId && owner.userId === acc.twitterUserId;
+  if (owner && !sameUser && owner.username.toLowerCase() !== handle.toLowerCase()) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Archive belongs to @${owner.username}, not @${handle}`,
+    });
+  }
+
+  const tweetFiles = files.filter((f) => ARCHIVE_TWEETS_FILE_PATTERN.test(f.name));
+  if (tweetFiles.length === 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "No tweets.js file found in upload",
+    });
+  }
+
+  const author = owner ?? { userId: "", username: handle, name: handle };
+  const parsed: TweetData[] = [];
+  for (const file of tweetFiles) {
+    try {
+      parsed.push(...parseArchiveTweets(file.content, author));
+    } catch (error) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Could not parse ${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  // Same ingestion policy as live fetches
+  const tweetsToStore = filterTweetsByPolicy(parsed, await getIngestionPolicy(accountId));
+  const imported = await storeTweets(accountId, tweetsToStore, "archive", { keepExisting: true });
+
+  await logProfileActivity(
+    accountId,
+    "archive_imported",
+    `Imported ${imported} tweets from archive (${tweetsToStore.length - imported} already stored)`,
+    { total: tweetsToStore.length, imported, files: tweetFiles.map((f) => f.name) },
+  );
+
+  // Rebuild the profile so imported history is classified (fire-and-forget)
+  let rebuildJobId: string | null = null;
+  if (imported > 0) {
+    try {
+      rebuildJobId = await createJobRecord("profile_update", accountId, {
+        accountId,
+        rebuild: true,
+      });
+      void executeJob(rebuildJobId);
+    } catch (error) {
+      // A running profile update blocks the rebuild; the user can re-run it later
+      console.error("Failed to start profile rebuild after archive import:", error);
+    }
+  }
+
+  return {
+    total: tweetsToStore.length,
+    imported,
+    skipped: tweetsToStore.length - imported,
+    rebuildJobId,
+  };
 }
 
 export const ingestRouter = router({
@@ -229,6 +604,40 @@ export const ingestRouter = router({
       return acc;
     }),
 
+  /**
+   * Import tweets from an uploaded Twitter/X data archive, then rebuild the profile.
+   */
+  importArchive: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        files: z
+          .array(
+            z.object({
+              name: z.string().min(1),
+              content: z.string(),
+            }),
+          )
+          .min(1),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      return importArchiveForAccount(input.accountId, input.files);
+    }),
+
+  /**
+   * Get open fetch gaps for an account (newest first).
+   */
+  getGaps: publicProcedure
+    .input(z.object({ accountId: z.string().min(1) }))
+    .query(async ({ input }) => {
+      return db
+        .select()
+        .from(fetchGap)
+        .where(and(eq(fetchGap.accountId, input.accountId), eq(fetchGap.status, "open")))
+        .orderBy(desc(fetchGap.createdAt));
+    }),
+
   /**
    * Backfill isRetweet/isReply/isQuoteTweet for existing tweets.
    * Reads rawJson and updates flags for all tweets of an account.
@@ -236,6 +645,8 @@ export const ingestRouter = router({
   backfillTweetTypeFlags: publicProcedure
     .input(z.object({ accountId: z.string().min(1) }))
     .mutation(async ({ input }) => {
+      await assertAccountWritable(input.accountId);
+
       const tweets = await db
         .select({ id: tweet.id, rawJson: tweet.rawJson })
         .from(tweet)
@@ -250,4 +661,63 @@ export const ingestRouter = router({
 
       return { updated };
     }),
+
+  /**
+   * Backfill tweet_entity rows for existing tweets.
+   * Re-extracts hashtags, mentions, links and cashtags from text (and link entities in rawJson).
+   */
+  backfillTweetEntities: publicProcedure
+    .input(z.object({ accountId: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      await assertAccountWritable(input.accountId);
+
+      const tweets = await db
+        .select({
+          id: tweet.id,
+          text: tweet.text,
+          tweetCreatedAt: tweet.tweetCreatedAt,
+          rawJson: tweet.rawJson,
+        })
+        .from(tweet)
+        .where(eq(tweet.accountId, input.accountId));
+
+      const sources: EntitySourceTweet[] = tweets.map((t) => {
+        let urls: EntitySourceTweet["urls"];
+        try {
+          urls = t.rawJson
+            ? (JSON.parse(t.rawJson) as { urls?: EntitySourceTweet["urls"] }).urls
+            : undefined;
+        } catch {
+          urls = undefined;
+        }
+        return { id: t.id, text: t.text, tweetCreatedAt: t.tweetCreatedAt, urls };
+      });
+
+      const entities = await storeTweetEntities(input.accountId, sources);
+      return { tweets: sources.length, entities };
+    }),
+
+  /**
+   * Backfill named entities for tweets never extracted (stored before extraction
+   * shipped, or imported from an archive). Runs without notifications; once the
+   * history is extracted, profile updates notify entities new to the account.
+   */
+  backfillNamedEntities: publicProcedure
+    .input(z.object({ accountId: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      await assertAccountWritable(input.accountId);
+
+      const tweets = await db
+        .select({ id: tweet.id, text: tweet.text, tweetCreatedAt: tweet.tweetCreatedAt })
+        .from(tweet)
+        .where(and(eq(tweet.accountId, input.accountId), isNull(tweet.entitiesExtractedAt)))
+        .orderBy(asc(tweet.tweetCreatedAt));
+
+      const result = await extractAndStoreNamedEntities(
+        input.accountId,
+        tweets.map((t) => ({ ...t, text: stripUrls(t.text) })),
+        { notify: false },
+      );
+      return { tweets: result.tweetCount, entities: result.entityCount };
+    }),
 });
@@ -23,7 +23,14 @@ export const jobRouter = router({
     .input(
       z.object({
         accountId: z.string(),
-        jobType: z.enum(["profile_update", "ingest", "social_snapshot"]),
+        jobType: z.enum([
+          "profile_update",
+          "ingest",
+          "social_snapshot",
+          "gap_backfill",
+          "engagement_poll",
+          "topic_maintenance",
+        ]),
       }),
     )
     .mutation(async ({ input }) => {
@@ -3,7 +3,7 @@ import {
   detectedChange,
   notification,
 } from "@trend-x/db/schema";
-import { and, desc, eq } from "drizzle-orm";
+import { and, desc, eq, isNull, ne } from "drizzle-orm";
 import { z } from "zod";
 
 import { publicProcedure, router } from "../index";
@@ -43,6 +43,7 @@ export const notificationRouter = router({
 
         result.push({
           ...n,
+          evidence: n.evidence ? (JSON.parse(n.evidence) as Record<string, unknown>) : null,
           change,
         });
       }
@@ -50,6 +51,24 @@ export const notificationRouter = router({
       return result;
     }),
 
+  /**
+   * Get unread system notifications (not tied to an account, e.g. credential alerts),
+   * newest first. Cross-account trends are listed on the overview instead.
+   */
+  getUnreadSystem: publicProcedure.query(async () => {
+    return db
+      .select()
+      .from(notification)
+      .where(
+        and(
+          isNull(notification.accountId),
+          eq(notification.isRead, 0),
+          ne(notification.changeType, "cross_account_trend"),
+        ),
+      )
+      .orderBy(desc(notification.createdAt));
+  }),
+
   /**
    * Get the count of unread notifications for an account.
    */
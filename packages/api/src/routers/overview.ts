@@ -1,17 +1,32 @@
 import { db } from "@trend-x/db";
 import { account, notification } from "@trend-x/db/schema";
-import { count, eq, gte, sql } from "drizzle-orm";
+import { and, count, eq, gte, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
 
 import { publicProcedure, router } from "../index";
+import { getGroupAccountIds } from "../services/account-groups";
+import { getRecentCrossAccountTrends } from "../services/cross-account-trends";
+import { getEarlyAdopterAnalysis } from "../services/early-adopters";
+import { getCrossAccountEntityMentions } from "../services/named-entities";
+import { getThemeRanking, rebuildThemes } from "../services/themes";
+
+// Optional account group (tag) filter shared by the overview procedures
+const groupInput = z.object({ group: z.string().optional() }).optional();
 
 export const overviewRouter = router({
   /**
-   * Get aggregate metrics across all monitored accounts.
+   * Get aggregate metrics across all monitored accounts, or one account group.
    * Returns total accounts, total notifications, and total unread.
    */
-  getMetrics: publicProcedure.query(async () => {
+  getMetrics: publicProcedure.input(groupInput).query(async ({ input }) => {
+    const groupAccountIds = await getGroupAccountIds(input?.group);
+    const inGroup = groupAccountIds ? inArray(notification.accountId, groupAccountIds) : undefined;
+
     // Get total accounts
-    const accountsResult = await db.select({ count: count() }).from(account);
+    const accountsResult = await db
+      .select({ count: count() })
+      .from(account)
+      .where(groupAccountIds ? inArray(account.id, groupAccountIds) : undefined);
     const totalAccounts = accountsResult[0]?.count ?? 0;
 
     // If no accounts, return all zeros
@@ -24,14 +39,17 @@ export const overviewRouter = router({
     }
 
     // Get total notifications
-    const notificationsResult = await db.select({ count: count() }).from(notification);
+    const notificationsResult = await db
+      .select({ count: count() })
+      .from(notification)
+      .where(inGroup);
     const totalNotifications = notificationsResult[0]?.count ?? 0;
 
     // Get total unread
     const unreadResult = await db
       .select({ count: count() })
       .from(notification)
-      .where(eq(notification.isRead, 0));
+      .where(and(eq(notification.isRead, 0), inGroup));
     const totalUnread = unreadResult[0]?.count ?? 0;
 
     return {
@@ -42,10 +60,12 @@ export const overviewRouter = router({
   }),
 
   /**
-   * Get the 20 most recent notifications across all accounts.
+   * Get the 20 most recent notifications across all accounts, or one account group.
    * Returns notification details with account handle for cross-account activity feed.
    */
-  getRecentActivity: publicProcedure.query(async () => {
+  getRecentActivity: publicProcedure.input(groupInput).query(async ({ input }) => {
+    const groupAccountIds = await getGroupAccountIds(input?.group);
+
     const results = await db
       .select({
         id: notification.id,
@@ -57,6 +77,7 @@ export const overviewRouter = router({
       })
       .from(notification)
       .innerJoin(account, eq(notification.accountId, account.id))
+      .where(groupAccountIds ? inArray(notification.accountId, groupAccountIds) : undefined)
       .orderBy(sql`${notification.createdAt} DESC`)
       .limit(20);
 
@@ -64,10 +85,12 @@ export const overviewRouter = router({
   }),
 
   /**
-   * Get daily notification counts for the last 30 days.
+   * Get daily notification counts for the last 30 days, optionally for one account group.
    * Returns continuous date series with zero-count days filled in for chart rendering.
    */
-  getNotificationTrend: publicProcedure.query(async () => {
+  getNotificationTrend: publicProcedure.input(groupInput).query(async ({ input }) => {
+    const groupAccountIds = await getGroupAccountIds(input?.group);
+
     // Calculate 30 days ago timestamp
     const thirtyDaysAgo = Math.floor(Date.now() / 1000) - 30 * 86400;
 
@@ -77,7 +100,12 @@ export const overviewRouter = router({
         createdAt: notification.createdAt,
       })
       .from(notification)
-      .where(gte(notification.createdAt, thirtyDaysAgo));
+      .where(
+        and(
+          gte(notification.createdAt, thirtyDaysAgo),
+          groupAccountIds ? inArray(notification.accountId, groupAccountIds) : undefined,
+        ),
+      );
 
     // Group by date in JS (since SQLite date functions are limited with unix timestamps)
     const dateCounts = new Map<string, number>();
@@ -104,4 +132,104 @@ export const overviewRouter = router({
 
     return trendData;
   }),
+
+  /**
+   * Get subjects trending across several accounts in the last `days` days (default 7),
+   * newest first. With a group, only trends involving at least one of its accounts.
+   */
+  getCrossAccountTrends: publicProcedure
+    .input(
+      z
+        .object({
+          group: z.string().optional(),
+          days: z.number().int().min(1).max(90).optional(),
+          limit: z.number().int().positive().max(50).optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ input }) => {
+      const groupAccountIds = await getGroupAccountIds(input?.group);
+      return getRecentCrossAccountTrends({
+        accountIds: groupAccountIds,
+        days: input?.days,
+        limit: input?.limit,
+      });
+    }),
+
+  /**
+   * Get the named entities mentioned by the most accounts (of the group, if given)
+   * over the last `days` days (default 30), optionally of one type.
+   */
+  getEntityMentions: publicProcedure
+    .input(
+      z
+        .object({
+          group: z.string().optional(),
+          type: z.enum(["company", "person", "product", "ticker"]).optional(),
+          days: z.number().int().min(1).max(365).optional(),
+          limit: z.number().int().positive().max(100).optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ input }) => {
+      const groupAccountIds = await getGroupAccountIds(input?.group);
+      const since = Math.floor(Date.now() / 1000) - (input?.days ?? 30) * 86400;
+      return getCrossAccountEntityMentions({
+        accountIds: groupAccountIds,
+        type: input?.type,
+        since,
+        limit: input?.limit,
+      });
+    }),
+
+  /**
+   * Rank cross-account themes by how many accounts (of the group, if given) discuss
+   * them, then by growth of that number over the last `windowDays` (default 7).
+   */
+  getThemeRanking: publicProcedure
+    .input(
+      z
+        .object({
+          group: z.string().optional(),
+          windowDays: z.number().int().min(1).max(90).optional(),
+          limit: z.number().int().positive().max(100).optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ input }) => {
+      const groupAccountIds = await getGroupAccountIds(input?.group);
+      return getThemeRanking({
+        accountIds: groupAccountIds,
+        windowDays: input?.windowDays,
+        limit: input?.limit,
+      });
+    }),
+
+  /**
+   * Get the adoption order of emerging themes and the early adopter leaderboard:
+   * which accounts (of the group, if given) tend to mention themes first.
+   */
+  getEarlyAdopters: publicProcedure
+    .input(
+      z
+        .object({
+          group: z.string().optional(),
+          lookbackDays: z.number().int().min(7).max(730).optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ input }) => {
+      const groupAccountIds = await getGroupAccountIds(input?.group);
+      return getEarlyAdopterAnalysis({
+        accountIds: groupAccountIds,
+        lookbackDays: input?.lookbackDays,
+      });
+    }),
+
+  /**
+   * Rebuild the cross-account theme taxonomy now instead of waiting for the daily run.
+   */
+  rebuildThemes: publicProcedure.mutation(async () => {
+    return rebuildThemes();
+  }),
 });
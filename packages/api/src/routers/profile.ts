@@ -1,6 +1,8 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 
 import { publicProcedure, router } from "../index";
+import { getProfileSnapshots } from "../services/account-profile-snapshots";
 import {
   getRecentActivityByAccount,
   getRecentActivityGlobal,
@@ -9,6 +11,13 @@ import {
   getOrCreateProfile,
   getProfileByAccountId,
 } from "../services/profile";
+import {
+  mergeTopicsManually,
+  renameTopic,
+  setTopicFlag,
+} from "../services/topic-curation";
+import { getTopicHistory } from "../services/topic-snapshots";
+import { getTopicTweets } from "../services/tweet-topics";
 
 export const profileRouter = router({
   /**
@@ -43,6 +52,129 @@ export const profileRouter = router({
       return getRecentActivityByAccount(input.accountId, input.limit);
     }),
 
+  /**
+   * Get the Twitter profile history (bio, avatar, pinned tweet, ...) of an account, newest first.
+   */
+  getProfileSnapshots: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        limit: z.number().int().positive().max(100).optional(),
+      }),
+    )
+    .query(async ({ input }) => {
+      return getProfileSnapshots(input.accountId, input.limit);
+    }),
+
+  /**
+   * Get the tweets assigned to one of an account's topics, most representative
+   * first by default (or most recent first), paginated.
+   */
+  getTopicTweets: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        topicId: z.string().min(1),
+        sort: z.enum(["similarity", "recent"]).optional(),
+        limit: z.number().int().positive().max(200).optional(),
+        offset: z.number().int().min(0).optional(),
+      }),
+    )
+    .query(async ({ input }) => {
+      const result = await getTopicTweets(input.accountId, input.topicId, {
+        sort: input.sort,
+        limit: input.limit,
+        offset: input.offset,
+      });
+      if (!result) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: `Topic ${input.topicId} not found`,
+        });
+      }
+      return result;
+    }),
+
+  /**
+   * Get an account's topic proportions over time, one point per profile update.
+   * from/to are unix seconds; both are optional.
+   */
+  getTopicHistory: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        from: z.number().int().min(0).optional(),
+        to: z.number().int().min(0).optional(),
+      }),
+    )
+    .query(async ({ input }) => {
+      return getTopicHistory(input.accountId, { from: input.from, to: input.to });
+    }),
+
+  /**
+   * Rename a topic. Manual labels are kept by automated relabeling.
+   */
+  renameTopic: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        topicId: z.string().min(1),
+        label: z.string().trim().min(1).max(80),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      return renameTopic(input.accountId, input.topicId, input.label);
+    }),
+
+  /**
+   * Merge one topic into another. The target keeps its ID and label.
+   */
+  mergeTopics: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        sourceTopicId: z.string().min(1),
+        targetTopicId: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      return mergeTopicsManually(
+        input.accountId,
+        input.sourceTopicId,
+        input.targetTopicId,
+      );
+    }),
+
+  /**
+   * Pin or unpin a topic. Topic maintenance never merges away or splits pinned topics.
+   */
+  setTopicPinned: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        topicId: z.string().min(1),
+        pinned: z.boolean(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      return setTopicFlag(input.accountId, input.topicId, "pinned", input.pinned);
+    }),
+
+  /**
+   * Mute or unmute a topic. Muted topics raise no emergence or abandonment notifications.
+   */
+  setTopicMuted: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string().min(1),
+        topicId: z.string().min(1),
+        muted: z.boolean(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      return setTopicFlag(input.accountId, input.topicId, "muted", input.muted);
+    }),
+
   /**
    * Get recent activity across all accounts (global feed).
    */
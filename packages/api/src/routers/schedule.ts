@@ -1,3 +1,4 @@
+import { TRPCError } from "@trpc/server";
 import { avg, count, eq, sql } from "drizzle-orm";
 import { z } from "zod";
 
@@ -5,7 +6,20 @@ import { db } from "@trend-x/db";
 import { pipelineRun, scheduledJob } from "@trend-x/db/schema";
 
 import { publicProcedure, router } from "../index";
-import { refreshScheduler } from "../services/scheduler";
+import { normalizeTags } from "../services/account-groups";
+import { refreshScheduler, SCHEDULABLE_JOBS } from "../services/scheduler";
+
+/**
+ * Basic cron check - 5 fields (minute hour day month weekday)
+ */
+function assertCronExpression(cronExpression: string): void {
+  const cronParts = cronExpression.trim().split(/\s+/);
+  if (cronParts.length !== 5) {
+    throw new Error(
+      "Invalid cron expression. Expected 5 fields (minute hour day month weekday)",
+    );
+  }
+}
 
 /**
  * Schedule router - manage cron job schedules
@@ -80,13 +94,7 @@ export const scheduleRouter = router({
       const updateData: Record<string, unknown> = {};
 
       if (cronExpression !== undefined) {
-        // Validate cron expression - basic check for 5 fields
-        const cronParts = cronExpression.trim().split(/\s+/);
-        if (cronParts.length !== 5) {
-          throw new Error(
-            "Invalid cron expression. Expected 5 fields (minute hour day month weekday)",
-          );
-        }
+        assertCronExpression(cronExpression);
         updateData.cronExpression = cronExpression;
       }
 
@@ -105,4 +113,73 @@ export const scheduleRouter = router({
 
       return updated;
     }),
+
+  /**
+   * Create a schedule that runs a job only for the accounts of one group
+   */
+  create: publicProcedure
+    .input(
+      z.object({
+        jobType: z.string(),
+        cronExpression: z.string(),
+        accountTag: z.string().min(1),
+        label: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      if (!(input.jobType in SCHEDULABLE_JOBS)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Job type ${input.jobType} cannot be scheduled`,
+        });
+      }
+      assertCronExpression(input.cronExpression);
+
+      const [accountTag] = normalizeTags([input.accountTag]);
+      if (!accountTag) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Group is required" });
+      }
+
+      const [created] = await db
+        .insert(scheduledJob)
+        .values({
+          jobType: input.jobType,
+          cronExpression: input.cronExpression.trim(),
+          label: input.label?.trim() || null,
+          accountTag,
+          enabled: true,
+        })
+        .returning();
+
+      await refreshScheduler();
+
+      return created;
+    }),
+
+  /**
+   * Delete a group schedule. All-accounts schedules can only be disabled.
+   */
+  delete: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input }) => {
+      const [schedule] = await db
+        .select()
+        .from(scheduledJob)
+        .where(eq(scheduledJob.id, input.id));
+
+      if (!schedule) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Schedule not found" });
+      }
+      if (!schedule.accountTag) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "All-accounts schedules can be disabled but not deleted",
+        });
+      }
+
+      await db.delete(scheduledJob).where(eq(scheduledJob.id, input.id));
+      await refreshScheduler();
+
+      return { success: true };
+    }),
 });
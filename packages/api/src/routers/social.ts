@@ -7,7 +7,9 @@ import {
   socialConnection,
   socialSnapshot,
 } from "@trend-x/db/schema";
-import { and, desc, eq, gt, or, sql } from "drizzle-orm";
+import { and, desc, eq, gt, inArray, or, sql } from "drizzle-orm";
+import { getGroupAccountIds } from "../services/account-groups";
+import { assertAccountWritable } from "../services/account-lifecycle";
 
 export const socialRouter = router({
   /**
@@ -334,233 +336,240 @@ export const socialRouter = router({
     }),
 
   /**
-   * Get cross-account social graph showing shared connections between all monitored accounts.
+   * Get cross-account social graph showing shared connections between all monitored accounts
+   * (or the accounts of one group).
    * Only returns connections that appear for 2+ monitored accounts.
    */
-  getCrossAccountGraph: publicProcedure.query(async () => {
-    // 1. Fetch all monitored accounts
-    const monitoredAccounts = await db.select().from(account);
+  getCrossAccountGraph: publicProcedure
+    .input(z.object({ group: z.string().optional() }).optional())
+    .query(async ({ input }) => {
+      // 1. Fetch all monitored accounts (in the group, if given)
+      const groupAccountIds = await getGroupAccountIds(input?.group);
+      const monitoredAccounts = await db
+        .select()
+        .from(account)
+        .where(groupAccountIds ? inArray(account.id, groupAccountIds) : undefined);
+
+      if (monitoredAccounts.length === 0) {
+        return {
+          nodes: [],
+          links: [],
+          stats: { totalShared: 0, totalMonitored: 0 },
+          timeRange: { min: 0, max: 0 },
+        };
+      }
 
-    if (monitoredAccounts.length === 0) {
-      return {
-        nodes: [],
-        links: [],
-        stats: { totalShared: 0, totalMonitored: 0 },
-        timeRange: { min: 0, max: 0 },
+      // 2. For each account, fetch ALL social connections (active + inactive)
+      type ConnectionInfo = {
+        accountId: string;
+        userId: string;
+        username: string;
+        displayName: string;
+        direction: string;
+        firstSeenAt: number;
+        deactivatedAt: number | null;
       };
-    }
-
-    // 2. For each account, fetch ALL social connections (active + inactive)
-    type ConnectionInfo = {
-      accountId: string;
-      userId: string;
-      username: string;
-      displayName: string;
-      direction: string;
-      firstSeenAt: number;
-      deactivatedAt: number | null;
-    };
-
-    const allConnections: ConnectionInfo[] = [];
-
-    for (const acct of monitoredAccounts) {
-      const connections = await db
-        .select({
-          accountId: socialConnection.accountId,
-          userId: socialConnection.userId,
-          username: socialConnection.username,
-          displayName: socialConnection.displayName,
-          direction: socialConnection.direction,
-          firstSeenAt: socialConnection.firstSeenAt,
-          deactivatedAt: socialConnection.deactivatedAt,
-        })
-        .from(socialConnection)
-        .where(eq(socialConnection.accountId, acct.id));
-      allConnections.push(...connections);
-    }
-
-    // 3. Build map: userId -> Set<accountId>
-    const userToAccounts = new Map<string, Set<string>>();
-    const userInfo = new Map<string, { username: string; displayName: string }>();
-
-    for (const conn of allConnections) {
-      if (!userToAccounts.has(conn.userId)) {
-        userToAccounts.set(conn.userId, new Set());
-        userInfo.set(conn.userId, {
-          username: conn.username,
-          displayName: conn.displayName,
-        });
+
+      const allConnections: ConnectionInfo[] = [];
+
+      for (const acct of monitoredAccounts) {
+        const connections = await db
+          .select({
+            accountId: socialConnection.accountId,
+            userId: socialConnection.userId,
+            username: socialConnection.username,
+            displayName: socialConnection.displayName,
+            direction: socialConnection.direction,
+            firstSeenAt: socialConnection.firstSeenAt,
+            deactivatedAt: socialConnection.deactivatedAt,
+          })
+          .from(socialConnection)
+          .where(eq(socialConnection.accountId, acct.id));
+        allConnections.push(...connections);
       }
-      userToAccounts.get(conn.userId)!.add(conn.accountId);
-    }
-
-    // 4. Shared connections = those appearing for 2+ monitored accounts
-    const sharedUserIds = new Set<string>();
-    for (const [userId, accountIds] of userToAccounts) {
-      if (accountIds.size >= 2) {
-        sharedUserIds.add(userId);
+
+      // 3. Build map: userId -> Set<accountId>
+      const userToAccounts = new Map<string, Set<string>>();
+      const userInfo = new Map<string, { username: string; displayName: string }>();
+
+      for (const conn of allConnections) {
+        if (!userToAccounts.has(conn.userId)) {
+          userToAccounts.set(conn.userId, new Set());
+          userInfo.set(conn.userId, {
+            username: conn.username,
+            displayName: conn.displayName,
+          });
+        }
+        userToAccounts.get(conn.userId)!.add(conn.accountId);
       }
-    }
-
-    // Build account handle lookup
-    const accountHandleMap = new Map<string, string>();
-    for (const acct of monitoredAccounts) {
-      const handle = acct.handle.startsWith("@")
-        ? acct.handle.slice(1)
-        : acct.handle;
-      accountHandleMap.set(acct.id, handle);
-    }
-
-    // 5. Compute per-user temporal data from their connections
-    // For shared nodes: firstSeenAt = min across all connections, deactivatedAt = null if any active, else max
-    const userTemporal = new Map<string, { firstSeenAt: number; deactivatedAt: number | null }>();
-    for (const userId of sharedUserIds) {
-      const userConns = allConnections.filter((c) => c.userId === userId);
-      let minFirst = Infinity;
-      let maxDeactivated = 0;
-      let anyActive = false;
-      for (const c of userConns) {
-        if (c.firstSeenAt < minFirst) minFirst = c.firstSeenAt;
-        if (c.deactivatedAt === null) {
-          anyActive = true;
-        } else if (c.deactivatedAt > maxDeactivated) {
-          maxDeactivated = c.deactivatedAt;
+
+      // 4. Shared connections = those appearing for 2+ monitored accounts
+      const sharedUserIds = new Set<string>();
+      for (const [userId, accountIds] of userToAccounts) {
+        if (accountIds.size >= 2) {
+          sharedUserIds.add(userId);
+        }
+      }
+
+      // Build account handle lookup
+      const accountHandleMap = new Map<string, string>();
+      for (const acct of monitoredAccounts) {
+        const handle = acct.handle.startsWith("@")
+          ? acct.handle.slice(1)
+          : acct.handle;
+        accountHandleMap.set(acct.id, handle);
+      }
+
+      // 5. Compute per-user temporal data from their connections
+      // For shared nodes: firstSeenAt = min across all connections, deactivatedAt = null if any active, else max
+      const userTemporal = new Map<string, { firstSeenAt: number; deactivatedAt: number | null }>();
+      for (const userId of sharedUserIds) {
+        const userConns = allConnections.filter((c) => c.userId === userId);
+        let minFirst = Infinity;
+        let maxDeactivated = 0;
+        let anyActive = false;
+        for (const c of userConns) {
+          if (c.firstSeenAt < minFirst) minFirst = c.firstSeenAt;
+          if (c.deactivatedAt === null) {
+            anyActive = true;
+          } else if (c.deactivatedAt > maxDeactivated) {
+            maxDeactivated = c.deactivatedAt;
+          }
+        }
+        userTemporal.set(userId, {
+          firstSeenAt: minFirst === Infinity ? 0 : minFirst,
+          deactivatedAt: anyActive ? null : maxDeactivated,
+        });
+      }
+
+      // 6. Build graph nodes and links
+      type CrossGraphNode = {
+        id: string;
+        name: string;
+        val: number;
+        color: string;
+        isMonitored: boolean;
+        isShared: boolean;
+        sharedWith?: string[];
+        firstSeenAt: number;
+        deactivatedAt: number | null;
+      };
+      type CrossGraphLink = {
+        source: string;
+        target: string;
+        isMutual: boolean;
+        direction: "following" | "follower" | "mutual";
+        firstSeenAt: number;
+        deactivatedAt: number | null;
+      };
+
+      const nodes: CrossGraphNode[] = [];
+      const links: CrossGraphLink[] = [];
+      const nodeIds = new Set<string>();
+
+      // Determine which monitored accounts have shared connections
+      const monitoredWithShared = new Set<string>();
+      for (const userId of sharedUserIds) {
+        const accountIds = userToAccounts.get(userId)!;
+        for (const accountId of accountIds) {
+          monitoredWithShared.add(accountId);
         }
       }
-      userTemporal.set(userId, {
-        firstSeenAt: minFirst === Infinity ? 0 : minFirst,
-        deactivatedAt: anyActive ? null : maxDeactivated,
-      });
-    }
-
-    // 6. Build graph nodes and links
-    type CrossGraphNode = {
-      id: string;
-      name: string;
-      val: number;
-      color: string;
-      isMonitored: boolean;
-      isShared: boolean;
-      sharedWith?: string[];
-      firstSeenAt: number;
-      deactivatedAt: number | null;
-    };
-    type CrossGraphLink = {
-      source: string;
-      target: string;
-      isMutual: boolean;
-      direction: "following" | "follower" | "mutual";
-      firstSeenAt: number;
-      deactivatedAt: number | null;
-    };
-
-    const nodes: CrossGraphNode[] = [];
-    const links: CrossGraphLink[] = [];
-    const nodeIds = new Set<string>();
-
-    // Determine which monitored accounts have shared connections
-    const monitoredWithShared = new Set<string>();
-    for (const userId of sharedUserIds) {
-      const accountIds = userToAccounts.get(userId)!;
-      for (const accountId of accountIds) {
-        monitoredWithShared.add(accountId);
+
+      // Add monitored account nodes (always visible: firstSeenAt=0, deactivatedAt=null)
+      for (const acct of monitoredAccounts) {
+        if (!monitoredWithShared.has(acct.id)) continue;
+
+        const handle = accountHandleMap.get(acct.id) ?? acct.handle;
+
+        nodes.push({
+          id: acct.id,
+          name: handle,
+          val: 10,
+          color: "#4ade80",
+          isMonitored: true,
+          isShared: false,
+          sharedWith: undefined,
+          firstSeenAt: 0,
+          deactivatedAt: null,
+        });
+        nodeIds.add(acct.id);
       }
-    }
-
-    // Add monitored account nodes (always visible: firstSeenAt=0, deactivatedAt=null)
-    for (const acct of monitoredAccounts) {
-      if (!monitoredWithShared.has(acct.id)) continue;
-
-      const handle = accountHandleMap.get(acct.id) ?? acct.handle;
-
-      nodes.push({
-        id: acct.id,
-        name: handle,
-        val: 10,
-        color: "#4ade80",
-        isMonitored: true,
-        isShared: false,
-        sharedWith: undefined,
-        firstSeenAt: 0,
-        deactivatedAt: null,
-      });
-      nodeIds.add(acct.id);
-    }
-
-    // Add shared connection nodes
-    for (const userId of sharedUserIds) {
-      const info = userInfo.get(userId);
-      if (!info) continue;
-
-      const accountIds = userToAccounts.get(userId)!;
-      const sharedWith = Array.from(accountIds).map(
-        (id) => accountHandleMap.get(id) ?? id,
-      );
-
-      // Scale val 3-8 based on how many accounts share this connection
-      const shareCount = accountIds.size;
-      const maxAccounts = monitoredAccounts.length;
-      const scaledVal =
-        maxAccounts <= 2
-          ? 5
-          : 3 + Math.round(((shareCount - 2) / (maxAccounts - 2)) * 5);
-      const val = Math.min(8, Math.max(3, scaledVal));
-
-      const temporal = userTemporal.get(userId)!;
-
-      nodes.push({
-        id: userId,
-        name: info.username,
-        val,
-        color: "#f59e0b",
-        isMonitored: false,
-        isShared: true,
-        sharedWith,
-        firstSeenAt: temporal.firstSeenAt,
-        deactivatedAt: temporal.deactivatedAt,
-      });
-      nodeIds.add(userId);
-    }
-
-    // Add links: one per (monitoredAccount -> sharedConnection) pair
-    for (const conn of allConnections) {
-      if (!sharedUserIds.has(conn.userId)) continue;
-      if (!nodeIds.has(conn.accountId) || !nodeIds.has(conn.userId)) continue;
-
-      const crossDir = conn.direction as "following" | "follower" | "mutual";
-      const isCrossFollower = crossDir === "follower";
-      links.push({
-        source: isCrossFollower ? conn.userId : conn.accountId,
-        target: isCrossFollower ? conn.accountId : conn.userId,
-        isMutual: crossDir === "mutual",
-        direction: crossDir,
-        firstSeenAt: conn.firstSeenAt,
-        deactivatedAt: conn.deactivatedAt,
-      });
-    }
-
-    // 7. Compute timeRange
-    const now = Math.floor(Date.now() / 1000);
-    let timeMin = now;
-    for (const node of nodes) {
-      if (node.firstSeenAt > 0 && node.firstSeenAt < timeMin) {
-        timeMin = node.firstSeenAt;
+
+      // Add shared connection nodes
+      for (const userId of sharedUserIds) {
+        const info = userInfo.get(userId);
+        if (!info) continue;
+
+        const accountIds = userToAccounts.get(userId)!;
+        const sharedWith = Array.from(accountIds).map(
+          (id) => accountHandleMap.get(id) ?? id,
+        );
+
+        // Scale val 3-8 based on how many accounts share this connection
+        const shareCount = accountIds.size;
+        const maxAccounts = monitoredAccounts.length;
+        const scaledVal =
+          maxAccounts <= 2
+            ? 5
+            : 3 + Math.round(((shareCount - 2) / (maxAccounts - 2)) * 5);
+        const val = Math.min(8, Math.max(3, scaledVal));
+
+        const temporal = userTemporal.get(userId)!;
+
+        nodes.push({
+          id: userId,
+          name: info.username,
+          val,
+          color: "#f59e0b",
+          isMonitored: false,
+          isShared: true,
+          sharedWith,
+          firstSeenAt: temporal.firstSeenAt,
+          deactivatedAt: temporal.deactivatedAt,
+        });
+        nodeIds.add(userId);
+      }
+
+      // Add links: one per (monitoredAccount -> sharedConnection) pair
+      for (const conn of allConnections) {
+        if (!sharedUserIds.has(conn.userId)) continue;
+        if (!nodeIds.has(conn.accountId) || !nodeIds.has(conn.userId)) continue;
+
+        const crossDir = conn.direction as "following" | "follower" | "mutual";
+        const isCrossFollower = crossDir === "follower";
+        links.push({
+          source: isCrossFollower ? conn.userId : conn.accountId,
+          target: isCrossFollower ? conn.accountId : conn.userId,
+          isMutual: crossDir === "mutual",
+          direction: crossDir,
+          firstSeenAt: conn.firstSeenAt,
+          deactivatedAt: conn.deactivatedAt,
+        });
+      }
+
+      // 7. Compute timeRange
+      const now = Math.floor(Date.now() / 1000);
+      let timeMin = now;
+      for (const node of nodes) {
+        if (node.firstSeenAt > 0 && node.firstSeenAt < timeMin) {
+          timeMin = node.firstSeenAt;
+        }
       }
-    }
-
-    return {
-      nodes,
-      links,
-      stats: {
-        totalShared: sharedUserIds.size,
-        totalMonitored: monitoredWithShared.size,
-      },
-      timeRange: {
-        min: timeMin,
-        max: now,
-      },
-    };
-  }),
+
+      return {
+        nodes,
+        links,
+        stats: {
+          totalShared: sharedUserIds.size,
+          totalMonitored: monitoredWithShared.size,
+        },
+        timeRange: {
+          min: timeMin,
+          max: now,
+        },
+      };
+    }),
 
   /**
    * Delete all social data (connections + snapshots) for an account.
@@ -569,6 +578,7 @@ export const socialRouter = router({
   deleteData: publicProcedure
     .input(z.object({ accountId: z.string() }))
     .mutation(async ({ input }) => {
+      await assertAccountWritable(input.accountId);
       await db
         .delete(socialConnection)
         .where(eq(socialConnection.accountId, input.accountId));
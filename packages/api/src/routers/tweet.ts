@@ -4,6 +4,15 @@ import { and, eq, gte, inArray, lt } from "drizzle-orm";
 import { z } from "zod";
 
 import { publicProcedure, router } from "../index";
+import { calculateEngagementVelocity, getEngagementHistory } from "../services/engagement";
+import { getEntityMentions } from "../services/named-entities";
+import { getTopEntities } from "../services/tweet-entities";
+
+// Entity types the top-entity queries can rank
+const topEntityTypeSchema = z.enum(["hashtag", "mention", "domain", "url", "cashtag"]);
+
+// Named entity types extracted by the chat model
+const namedEntityTypeSchema = z.enum(["company", "person", "product", "ticker"]);
 
 export const tweetRouter = router({
   /**
@@ -74,4 +83,61 @@ export const tweetRouter = router({
       return result;
     }),
 
+  /**
+   * Get the engagement curve for a tweet (snapshots oldest first) and its current velocity.
+   */
+  getEngagementHistory: publicProcedure
+    .input(z.object({ tweetId: z.string() }))
+    .query(async ({ input }) => {
+      const [row] = await db
+        .select({ tweetCreatedAt: tweet.tweetCreatedAt })
+        .from(tweet)
+        .where(eq(tweet.id, input.tweetId));
+
+      const snapshots = await getEngagementHistory(input.tweetId);
+      const velocity = row ? calculateEngagementVelocity(snapshots, row.tweetCreatedAt) : null;
+
+      return { snapshots, velocity };
+    }),
+
+  /**
+   * Get an account's most used entities of one type (domains, hashtags, mentions, ...)
+   * over the last `days` days (all time when omitted), most frequent first.
+   * Shows which sources and people an account amplifies.
+   */
+  getTopEntities: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string(),
+        type: topEntityTypeSchema,
+        days: z.number().int().positive().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+      }),
+    )
+    .query(async ({ input }) => {
+      const since =
+        input.days !== undefined ? Math.floor(Date.now() / 1000) - input.days * 86400 : undefined;
+
+      return getTopEntities(input.accountId, input.type, { since, limit: input.limit });
+    }),
+
+  /**
+   * Get the companies, people, products and tickers an account mentions most over the
+   * last `days` days (all time when omitted), optionally of one type.
+   */
+  getNamedEntities: publicProcedure
+    .input(
+      z.object({
+        accountId: z.string(),
+        type: namedEntityTypeSchema.optional(),
+        days: z.number().int().positive().optional(),
+        limit: z.number().int().min(1).max(100).default(20),
+      }),
+    )
+    .query(async ({ input }) => {
+      const since =
+        input.days !== undefined ? Math.floor(Date.now() / 1000) - input.days * 86400 : undefined;
+
+      return getEntityMentions(input.accountId, { type: input.type, since, limit: input.limit });
+    }),
 });
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+import { publicProcedure, router } from "../index";
+import {
+  addCredential,
+  listCredentials,
+  removeCredential,
+  testCredential,
+} from "../services/twitter-credentials";
+
+export const twitterCredentialRouter = router({
+  /**
+   * List the credential pool with health status and last success/failure times.
+   * Secrets are never returned, only the last characters of the auth token.
+   */
+  list: publicProcedure.query(async () => {
+    return listCredentials();
+  }),
+
+  /**
+   * Register a cookie set, then test it so its health is known right away.
+   */
+  add: publicProcedure
+    .input(
+      z.object({
+        label: z.string().min(1),
+        authToken: z.string().min(1),
+        ct0: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const credential = await addCredential(input);
+      const test = await testCredential(credential.id);
+      return { credential, test };
+    }),
+
+  /**
+   * Remove a cookie set from the pool.
+   */
+  remove: publicProcedure.input(z.object({ id: z.string().min(1) })).mutation(async ({ input }) => {
+    await removeCredential(input.id);
+    return { success: true };
+  }),
+
+  /**
+   * Test a cookie set. Success marks it healthy again.
+   */
+  test: publicProcedure.input(z.object({ id: z.string().min(1) })).mutation(async ({ input }) => {
+    return testCredential(input.id);
+  }),
+});
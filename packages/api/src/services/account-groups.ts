@@ -0,0 +1,84 @@
+import { db } from "@trend-x/db";
+import { account, accountTag } from "@trend-x/db/schema";
+import { asc, count, eq } from "drizzle-orm";
+
+/**
+ * A group is the cohort of accounts sharing a tag (e.g. "vc", "journalist").
+ * Overview metrics, the cross-account graph and schedules can be scoped to one.
+ */
+export interface AccountGroup {
+  name: string; // The tag
+  accountCount: number;
+}
+
+/**
+ * Normalize tags as stored: trimmed, lowercased, deduplicated, empty ones dropped.
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((t) => t.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * List all groups (distinct tags) with their account counts, by name.
+ */
+export async function listGroups(): Promise<AccountGroup[]> {
+  const rows = await db
+    .select({ name: accountTag.tag, accountCount: count() })
+    .from(accountTag)
+    .groupBy(accountTag.tag)
+    .orderBy(asc(accountTag.tag));
+
+  return rows;
+}
+
+/**
+ * Get every account's tags, keyed by account ID (accounts without tags are absent).
+ */
+export async function getTagsByAccount(): Promise<Map<string, string[]>> {
+  const rows = await db
+    .select({ accountId: accountTag.accountId, tag: accountTag.tag })
+    .from(accountTag)
+    .orderBy(asc(accountTag.tag));
+
+  const tagsByAccount = new Map<string, string[]>();
+  for (const row of rows) {
+    const tags = tagsByAccount.get(row.accountId) ?? [];
+    tags.push(row.tag);
+    tagsByAccount.set(row.accountId, tags);
+  }
+  return tagsByAccount;
+}
+
+/**
+ * Replace an account's tags. Returns the normalized tags stored.
+ */
+export async function setAccountTags(accountId: string, tags: string[]): Promise<string[]> {
+  const normalized = normalizeTags(tags);
+
+  await db.transaction(async (tx) => {
+    await tx.delete(accountTag).where(eq(accountTag.accountId, accountId));
+    if (normalized.length > 0) {
+      await tx.insert(accountTag).values(normalized.map((tag) => ({ accountId, tag })));
+    }
+  });
+
+  return normalized;
+}
+
+/**
+ * Resolve a group filter to account IDs. Returns null when no group is given,
+ * meaning "all accounts"; an unknown group resolves to an empty list.
+ */
+export async function getGroupAccountIds(
+  group: string | null | undefined,
+): Promise<string[] | null> {
+  if (!group) return null;
+
+  const rows = await db
+    .select({ accountId: accountTag.accountId })
+    .from(accountTag)
+    .innerJoin(account, eq(accountTag.accountId, account.id))
+    .where(eq(accountTag.tag, group.trim().toLowerCase()));
+
+  return rows.map((r) => r.accountId);
+}
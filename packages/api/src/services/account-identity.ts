@@ -0,0 +1,92 @@
+import { db } from "@trend-x/db";
+import { account, notification } from "@trend-x/db/schema";
+import { eq } from "drizzle-orm";
+import type { SourceName, SourceTweet, SourceUser } from "./sources/types";
+
+export interface HandleChangeEvidence {
+  previousHandle: string;
+  newHandle: string;
+  twitterUserId: string;
+}
+
+/**
+ * Whether user IDs from this source are real Twitter user IDs.
+ * Offline sources (fixtures, archive directories) are keyed by handle and
+ * invent or copy IDs, so they never update an account's stored identity.
+ */
+export function isLiveSource(source: SourceName): boolean {
+  return source === "bird";
+}
+
+/**
+ * Read a user's current handle off a fetched timeline: the author of a tweet they wrote.
+ * Returns null when the page holds none (e.g. only retweets).
+ */
+export function findCurrentUser(userId: string, tweets: SourceTweet[]): SourceUser | null {
+  const own = tweets.find(
+    (t) => t.authorId === userId && t.author.username && !t.text.startsWith("RT @"),
+  );
+  if (!own) return null;
+
+  return { userId, username: own.author.username, name: own.author.name || own.author.username };
+}
+
+/**
+ * Reconcile an account with the user a live fetch resolved to.
+ *
+ * - No stored ID yet: the ID is stored (first live fetch after adding the account).
+ * - Same ID, different handle: the account was renamed. The handle is updated and a
+ *   handle_changed notification keeps the old one as history.
+ *
+ * A rename onto a handle another monitored account already uses is skipped with a warning.
+ * Returns the handle change, if any.
+ */
+export async function syncAccountIdentity(
+  accountId: string,
+  user: SourceUser,
+): Promise<HandleChangeEvidence | null> {
+  const [acc] = await db
+    .select({ handle: account.handle, twitterUserId: account.twitterUserId })
+    .from(account)
+    .where(eq(account.id, accountId));
+  if (!acc) return null;
+
+  if (!acc.twitterUserId) {
+    await db.update(account).set({ twitterUserId: user.userId }).where(eq(account.id, accountId));
+    return null;
+  }
+
+  if (acc.twitterUserId !== user.userId) return null;
+  if (acc.handle.toLowerCase() === user.username.toLowerCase()) return null;
+
+  const [taken] = await db
+    .select({ id: account.id })
+    .from(account)
+    .where(eq(account.handle, user.username));
+  if (taken) {
+    console.warn(
+      `@${acc.handle} was renamed to @${user.username}, which another account already monitors`,
+    );
+    return null;
+  }
+
+  const evidence: HandleChangeEvidence = {
+    previousHandle: acc.handle,
+    newHandle: user.username,
+    twitterUserId: user.userId,
+  };
+
+  await db.update(account).set({ handle: user.username }).where(eq(account.id, accountId));
+
+  await db.insert(notification).values({
+    accountId,
+    detectionRunId: null,
+    changeId: null,
+    title: `Handle Changed: @${evidence.newHandle}`,
+    explanation: `@${evidence.previousHandle} renamed their account to @${evidence.newHandle}. Monitoring continues under the new handle.`,
+    changeType: "handle_changed",
+    evidence: JSON.stringify(evidence),
+  });
+
+  return evidence;
+}
@@ -0,0 +1,374 @@
+import { db } from "@trend-x/db";
+import { account, accountTag } from "@trend-x/db/schema";
+import { createJobRecord, executeJob } from "../jobs/executor";
+import "../jobs/index";
+import { normalizeTags } from "./account-groups";
+import { BirdSource } from "./sources/bird-source";
+
+export type BulkImportFormat = "csv" | "handles" | "twitter_list";
+
+/**
+ * Outcome of one input row:
+ * - ready: valid and new (dry run only, nothing was written)
+ * - created: account added
+ * - duplicate: already monitored, or repeated earlier in the input
+ * - invalid: not a usable Twitter handle
+ */
+export type BulkImportRowStatus = "ready" | "created" | "duplicate" | "invalid";
+
+export interface BulkImportRowResult {
+  row: number; // 1-based position in the input (CSV header excluded)
+  input: string; // Raw handle as given
+  handle: string | null; // Cleaned handle, null when invalid
+  status: BulkImportRowStatus;
+  accountId?: string; // Created account, or the existing one for duplicates
+  tags: string[];
+  message?: string;
+}
+
+export interface BulkImportResult {
+  rows: BulkImportRowResult[];
+  created: number;
+  duplicates: number;
+  invalid: number;
+  queuedJobIds: string[]; // Initial ingest jobs, run one after another in the background
+}
+
+interface ImportRow {
+  input: string;
+  tags: string[];
+  notes: string | null;
+  twitterUserId?: string; // Known for Twitter list members
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const MAX_IMPORT_ROWS = 500;
+
+// Twitter handles: 1-15 letters, digits or underscores
+const HANDLE_PATTERN = /^[A-Za-z0-9_]{1,15}$/;
+
+// Accepts a bare list ID or an x.com / twitter.com list URL
+const LIST_URL_PATTERN = /(?:twitter\.com|x\.com)\/i\/lists\/(\d+)/i;
+const LIST_ID_PATTERN = /^\d{5,}$/;
+
+// List timeline pages read to collect list members (20 tweets per page)
+const LIST_MAX_PAGES = 25;
+
+// Pause between initial ingests, on top of the shared rate-limit budget, so a large
+// import doesn't starve scheduled fetches of the timeline window
+const INGEST_STAGGER_MS = 30 * 1000;
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalize a handle as typed: trims whitespace and a leading @ or profile URL.
+ * Returns null when the result isn't a valid Twitter handle.
+ */
+export function cleanHandle(input: string): string | null {
+  const handle = input
+    .trim()
+    .replace(/^https?:\/\/(www\.)?(twitter|x)\.com\//i, "")
+    .replace(/^@/, "")
+    .replace(/[/?#].*$/, "");
+  return HANDLE_PATTERN.test(handle) ? handle : null;
+}
+
+function parseTags(value: string | undefined): string[] {
+  return value ? normalizeTags(value.split(/[;,|]/)) : [];
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas, escaped
+ * quotes ("") and line breaks.
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Parse CSV with columns handle, tags, notes. A header row naming the columns
+ * is optional; without one the columns are read in that order. Multiple tags in
+ * one cell are separated by ";" or "|" (or "," inside a quoted cell).
+ */
+function parseCsv(text: string): ImportRow[] {
+  const rows = parseCsvRows(text);
+  const header = rows[0]?.map((c) => c.trim().toLowerCase()) ?? [];
+
+  let columns = { handle: 0, tags: 1, notes: 2 };
+  if (header.includes("handle")) {
+    columns = {
+      handle: header.indexOf("handle"),
+      tags: header.indexOf("tags"),
+      notes: header.indexOf("notes"),
+    };
+    rows.shift();
+  }
+
+  return rows.map((cells) => ({
+    input: cells[columns.handle]?.trim() ?? "",
+    tags: parseTags(columns.tags >= 0 ? cells[columns.tags] : undefined),
+    notes: (columns.notes >= 0 ? cells[columns.notes]?.trim() : undefined) || null,
+  }));
+}
+
+/**
+ * Parse a plain handle list: one per line (commas and spaces also separate).
+ */
+function parseHandleList(text: string): ImportRow[] {
+  return text
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map((input) => ({ input, tags: [], notes: null }));
+}
+
+/**
+ * Resolve a Twitter list (ID or URL) to its members through Bird.
+ */
+async function resolveTwitterList(value: string): Promise<ImportRow[]> {
+  const trimmed = value.trim();
+  const listId =
+    LIST_URL_PATTERN.exec(trimmed)?.[1] ?? (LIST_ID_PATTERN.test(trimmed) ? trimmed : null);
+  if (!listId) {
+    throw new Error(`Not a Twitter list ID or URL: ${trimmed}`);
+  }
+
+  const result = await new BirdSource().getListMembers(listId, LIST_MAX_PAGES);
+  if (!result.success) {
+    throw new Error(`Could not fetch Twitter list ${listId}: ${result.error}`);
+  }
+
+  return result.users.map((user) => ({
+    input: user.username,
+    tags: [],
+    notes: null,
+    twitterUserId: user.userId,
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Import many accounts at once from CSV (handle, tags, notes), a newline-separated
+ * handle list, or a Twitter list ID.
+ *
+ * Every row is validated and deduplicated (case-insensitively) against monitored
+ * accounts and earlier rows, and gets its own result. `tags` are added to every row.
+ * With dryRun nothing is written; valid new rows come back as "ready".
+ * With queueIngest, an initial ingest job is queued per created account.
+ */
+export async function importAccounts(input: {
+  format: BulkImportFormat;
+  content: string;
+  tags?: string[];
+  dryRun?: boolean;
+  queueIngest?: boolean;
+}): Promise<BulkImportResult> {
+  const parsed =
+    input.format === "csv"
+      ? parseCsv(input.content)
+      : input.format === "handles"
+        ? parseHandleList(input.content)
+        : await resolveTwitterList(input.content);
+
+  if (parsed.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Too many rows (${parsed.length}), import at most ${MAX_IMPORT_ROWS} at once`);
+  }
+
+  const sharedTags = normalizeTags(input.tags ?? []);
+
+  const existing = await db
+    .select({ id: account.id, handle: account.handle, twitterUserId: account.twitterUserId })
+    .from(account);
+  const existingByHandle = new Map(existing.map((a) => [a.handle.toLowerCase(), a.id]));
+  const existingByUserId = new Map(
+    existing.flatMap((a) => (a.twitterUserId ? [[a.twitterUserId, a.id] as const] : [])),
+  );
+  const seenRows = new Map<string, number>();
+
+  const rows: BulkImportRowResult[] = [];
+  const createdIds: string[] = [];
+
+  for (const [i, row] of parsed.entries()) {
+    const rowNumber = i + 1;
+    const handle = cleanHandle(row.input);
+    const tags = [...new Set([...row.tags, ...sharedTags])];
+
+    if (!handle) {
+      rows.push({
+        row: rowNumber,
+        input: row.input,
+        handle: null,
+        status: "invalid",
+        tags,
+        message: row.input ? "Not a valid Twitter handle" : "Empty handle",
+      });
+      continue;
+    }
+
+    const key = handle.toLowerCase();
+    const existingId =
+      existingByHandle.get(key) ??
+      (row.twitterUserId ? existingByUserId.get(row.twitterUserId) : undefined);
+    if (existingId) {
+      rows.push({
+        row: rowNumber,
+        input: row.input,
+        handle,
+        status: "duplicate",
+        accountId: existingId,
+        tags,
+        message: "Already monitored",
+      });
+      continue;
+    }
+
+    const firstRow = seenRows.get(key);
+    if (firstRow !== undefined) {
+      rows.push({
+        row: rowNumber,
+        input: row.input,
+        handle,
+        status: "duplicate",
+        tags,
+        message: `Repeats row ${firstRow}`,
+      });
+      continue;
+    }
+    seenRows.set(key, rowNumber);
+
+    if (input.dryRun) {
+      rows.push({ row: rowNumber, input: row.input, handle, status: "ready", tags });
+      continue;
+    }
+
+    const [created] = await db
+      .insert(account)
+      .values({ handle, notes: row.notes, twitterUserId: row.twitterUserId ?? null })
+      .returning({ id: account.id });
+    if (!created) {
+      throw new Error(`Failed to create account @${handle}`);
+    }
+
+    if (tags.length > 0) {
+      await db.insert(accountTag).values(tags.map((tag) => ({ accountId: created.id, tag })));
+    }
+
+    createdIds.push(created.id);
+    rows.push({
+      row: rowNumber,
+      input: row.input,
+      handle,
+      status: "created",
+      accountId: created.id,
+      tags,
+    });
+  }
+
+  const queued =
+    input.queueIngest && createdIds.length > 0 ? await queueStaggeredIngests(createdIds) : [];
+
+  // The accounts exist either way; report ingests that couldn't be queued on their row
+  for (const { accountId, error } of queued) {
+    const row = rows.find((r) => r.accountId === accountId && r.status === "created");
+    if (error && row) row.message = `Initial fetch not queued: ${error}`;
+  }
+  const queuedJobIds = queued.flatMap((q) => (q.jobId ? [q.jobId] : []));
+
+  return {
+    rows,
+    created: rows.filter((r) => r.status === "created" || r.status === "ready").length,
+    duplicates: rows.filter((r) => r.status === "duplicate").length,
+    invalid: rows.filter((r) => r.status === "invalid").length,
+    queuedJobIds,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Initial ingest
+// ---------------------------------------------------------------------------
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Queue an initial ingest job per account and run them one after another in the
+ * background, INGEST_STAGGER_MS apart. Jobs show up as queued right away.
+ * An account whose job can't be created (e.g. the ingest concurrency limit is
+ * reached) gets an error instead of a job ID; the other accounts are still queued.
+ */
+export async function queueStaggeredIngests(
+  accountIds: string[],
+): Promise<Array<{ accountId: string; jobId: string | null; error?: string }>> {
+  const queued: Array<{ accountId: string; jobId: string | null; error?: string }> = [];
+  for (const accountId of accountIds) {
+    try {
+      queued.push({ accountId, jobId: await createJobRecord("ingest", accountId, { accountId }) });
+    } catch (error) {
+      queued.push({
+        accountId,
+        jobId: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  const jobIds = queued.flatMap((q) => (q.jobId ? [q.jobId] : []));
+
+  // Fire-and-forget - do NOT await
+  void (async () => {
+    for (const [i, jobId] of jobIds.entries()) {
+      if (i > 0) await sleep(INGEST_STAGGER_MS);
+      try {
+        await executeJob(jobId);
+      } catch (error) {
+        // A failed ingest doesn't stop the remaining accounts
+        console.error(`Initial ingest job ${jobId} failed:`, error);
+      }
+    }
+  })();
+
+  return queued;
+}
@@ -0,0 +1,70 @@
+import { db } from "@trend-x/db";
+import { account } from "@trend-x/db/schema";
+import { eq } from "drizzle-orm";
+import { logProfileActivity } from "./profile-activity";
+
+/**
+ * Account lifecycle:
+ * - active: fetched and analyzed on schedule
+ * - paused: skipped by the scheduler, manual runs still allowed
+ * - archived: skipped by the scheduler and read-only; history is kept for browsing
+ */
+export type AccountStatus = "active" | "paused" | "archived";
+
+export const ACCOUNT_STATUSES = ["active", "paused", "archived"] as const;
+
+// Cadence overrides are limited to what the cadence tick can honour
+export const MIN_FETCH_INTERVAL_MINUTES = 15;
+export const MAX_FETCH_INTERVAL_MINUTES = 7 * 24 * 60;
+
+/**
+ * Throw if the account is archived. Guards everything that writes account data:
+ * jobs, fetches, archive imports, policy changes and data deletion.
+ */
+export async function assertAccountWritable(accountId: string): Promise<void> {
+  const [acc] = await db
+    .select({ handle: account.handle, status: account.status })
+    .from(account)
+    .where(eq(account.id, accountId));
+
+  if (acc?.status === "archived") {
+    throw new Error(`@${acc.handle} is archived and read-only. Restore it to make changes.`);
+  }
+}
+
+/**
+ * Update an account's lifecycle status and/or fetch cadence override
+ * (null = follow the ingest schedule). Returns the stored values.
+ */
+export async function updateAccountMonitoring(
+  accountId: string,
+  update: { status?: AccountStatus; fetchIntervalMinutes?: number | null },
+): Promise<{ status: AccountStatus; fetchIntervalMinutes: number | null }> {
+  const [acc] = await db
+    .select({ status: account.status, fetchIntervalMinutes: account.fetchIntervalMinutes })
+    .from(account)
+    .where(eq(account.id, accountId));
+  if (!acc) {
+    throw new Error(`Account ${accountId} not found`);
+  }
+
+  const previousStatus = acc.status as AccountStatus;
+  const status = update.status ?? previousStatus;
+  const fetchIntervalMinutes =
+    update.fetchIntervalMinutes === undefined
+      ? acc.fetchIntervalMinutes
+      : update.fetchIntervalMinutes;
+
+  await db.update(account).set({ status, fetchIntervalMinutes }).where(eq(account.id, accountId));
+
+  if (status !== previousStatus) {
+    await logProfileActivity(
+      accountId,
+      "monitoring_status_changed",
+      `Monitoring ${status === "active" ? "resumed" : status}`,
+      { from: previousStatus, to: status },
+    );
+  }
+
+  return { status, fetchIntervalMinutes };
+}
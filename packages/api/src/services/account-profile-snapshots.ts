@@ -0,0 +1,263 @@
+import { db } from "@trend-x/db";
+import { account, accountProfileSnapshot, notification } from "@trend-x/db/schema";
+import { desc, eq } from "drizzle-orm";
+import { isLiveSource } from "./account-identity";
+import { logProfileActivity } from "./profile-activity";
+import { getTweetSource } from "./sources/source-factory";
+import type { SourceProfile, SourceTweet } from "./sources/types";
+
+export type ProfileSnapshotTrigger = "ingest" | "social_snapshot";
+
+/** Profile fields that are diffed between snapshots (handle renames are tracked separately). */
+export type ProfileField =
+  | "displayName"
+  | "description"
+  | "location"
+  | "website"
+  | "profileImageUrl"
+  | "pinnedTweetId"
+  | "isVerified";
+
+export interface ProfileFieldChange {
+  field: ProfileField;
+  before: string | null;
+  after: string | null;
+}
+
+export interface AccountProfileSnapshotEntry {
+  id: string;
+  username: string;
+  displayName: string;
+  description: string | null;
+  location: string | null;
+  website: string | null;
+  profileImageUrl: string | null;
+  pinnedTweetId: string | null;
+  isVerified: boolean;
+  trigger: ProfileSnapshotTrigger;
+  capturedAt: number;
+  changes: ProfileFieldChange[]; // Fields that differ from the previous snapshot (empty for the first)
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const PROFILE_FIELDS: ProfileField[] = [
+  "displayName",
+  "description",
+  "location",
+  "website",
+  "profileImageUrl",
+  "pinnedTweetId",
+  "isVerified",
+];
+
+const FIELD_LABELS: Record<ProfileField, string> = {
+  displayName: "display name",
+  description: "bio",
+  location: "location",
+  website: "website",
+  profileImageUrl: "avatar",
+  pinnedTweetId: "pinned tweet",
+  isVerified: "verification",
+};
+
+// Timeline page size used to read the profile during social snapshots
+const PROFILE_PAGE_SIZE = 5;
+
+// Long bios are cut in notification text; the full values stay in evidence
+const MAX_EXPLANATION_VALUE_LENGTH = 120;
+
+type SnapshotRow = typeof accountProfileSnapshot.$inferSelect;
+
+// ---------------------------------------------------------------------------
+// Reading profiles
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a user's profile off a fetched timeline: the author profile embedded in a tweet they wrote.
+ * Returns null when the page holds none (e.g. only retweets, or a source without profiles).
+ */
+export function findCurrentProfile(userId: string, tweets: SourceTweet[]): SourceProfile | null {
+  const own = tweets.find(
+    (t) =>
+      t.authorId === userId && t.authorProfile?.userId === userId && !t.text.startsWith("RT @"),
+  );
+  return own?.authorProfile ?? null;
+}
+
+/**
+ * Fetch a user's current profile with a single small timeline page.
+ * Returns null for offline sources or when the page holds no tweet of theirs.
+ */
+export async function fetchCurrentProfile(userId: string): Promise<SourceProfile | null> {
+  const source = await getTweetSource();
+  if (!isLiveSource(source.name)) return null;
+
+  const page = await source.getTimelinePage(userId, { count: PROFILE_PAGE_SIZE });
+  if (!page.success) {
+    console.warn(`Could not fetch profile for user ${userId}: ${page.error}`);
+    return null;
+  }
+
+  return findCurrentProfile(userId, page.tweets);
+}
+
+// ---------------------------------------------------------------------------
+// Diffing
+// ---------------------------------------------------------------------------
+
+function fieldValue(
+  row: Pick<SnapshotRow, ProfileField> | SourceProfile,
+  field: ProfileField,
+): string | null {
+  const value = row[field];
+  if (field === "isVerified") return value ? "verified" : "not verified";
+  return (value as string | null) ?? null;
+}
+
+function diffProfiles(
+  before: Pick<SnapshotRow, ProfileField> | SourceProfile,
+  after: Pick<SnapshotRow, ProfileField> | SourceProfile,
+): ProfileFieldChange[] {
+  const changes: ProfileFieldChange[] = [];
+  for (const field of PROFILE_FIELDS) {
+    const beforeValue = fieldValue(before, field);
+    const afterValue = fieldValue(after, field);
+    if (beforeValue !== afterValue) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+  return changes;
+}
+
+function formatValue(value: string | null): string {
+  if (value === null || value === "") return "(empty)";
+  if (value.length <= MAX_EXPLANATION_VALUE_LENGTH) return `"${value}"`;
+  return `"${value.slice(0, MAX_EXPLANATION_VALUE_LENGTH)}…"`;
+}
+
+function explainChange(handle: string, change: ProfileFieldChange): string {
+  const label = FIELD_LABELS[change.field];
+  if (change.field === "isVerified") {
+    return change.after === "verified"
+      ? `@${handle} is now verified.`
+      : `@${handle} lost their verification.`;
+  }
+  if (change.field === "profileImageUrl") {
+    return `@${handle} changed their avatar.`;
+  }
+  if (change.field === "pinnedTweetId") {
+    return change.after
+      ? `@${handle} pinned a different tweet (${change.after}).`
+      : `@${handle} unpinned their pinned tweet.`;
+  }
+  return `@${handle} changed their ${label} from ${formatValue(change.before)} to ${formatValue(change.after)}.`;
+}
+
+// ---------------------------------------------------------------------------
+// Recording
+// ---------------------------------------------------------------------------
+
+/**
+ * Record a monitored account's current profile and notify about edited fields.
+ *
+ * The first capture is a baseline and notifies nothing. Later captures are diffed
+ * field by field against the latest snapshot: unchanged profiles add no row, and each
+ * changed field becomes a profile_field_changed notification with {field, before, after}
+ * evidence. Returns the changes found.
+ */
+export async function recordProfileSnapshot(
+  accountId: string,
+  profile: SourceProfile,
+  trigger: ProfileSnapshotTrigger,
+): Promise<ProfileFieldChange[]> {
+  const [acc] = await db
+    .select({ handle: account.handle })
+    .from(account)
+    .where(eq(account.id, accountId));
+  if (!acc) return [];
+
+  const [latest] = await db
+    .select()
+    .from(accountProfileSnapshot)
+    .where(eq(accountProfileSnapshot.accountId, accountId))
+    .orderBy(desc(accountProfileSnapshot.capturedAt))
+    .limit(1);
+
+  const changes = latest ? diffProfiles(latest, profile) : [];
+  if (latest && changes.length === 0) return [];
+
+  await db.insert(accountProfileSnapshot).values({
+    accountId,
+    username: profile.username,
+    displayName: profile.displayName,
+    description: profile.description,
+    location: profile.location,
+    website: profile.website,
+    profileImageUrl: profile.profileImageUrl,
+    pinnedTweetId: profile.pinnedTweetId,
+    isVerified: profile.isVerified ? 1 : 0,
+    trigger,
+  });
+
+  if (changes.length === 0) return [];
+
+  await db.insert(notification).values(
+    changes.map((change) => ({
+      accountId,
+      detectionRunId: null,
+      changeId: null,
+      title: `Profile Updated: ${FIELD_LABELS[change.field]}`,
+      explanation: explainChange(acc.handle, change),
+      changeType: "profile_field_changed",
+      evidence: JSON.stringify(change),
+    })),
+  );
+
+  await logProfileActivity(
+    accountId,
+    "profile_metadata_changed",
+    `Profile edited: ${changes.map((c) => FIELD_LABELS[c.field]).join(", ")}`,
+    { fields: changes.map((c) => c.field), trigger },
+  );
+
+  return changes;
+}
+
+/**
+ * Get an account's profile history, newest first, with each snapshot's changes
+ * relative to the one before it.
+ * @param limit - Maximum snapshots to return (default 20)
+ */
+export async function getProfileSnapshots(
+  accountId: string,
+  limit = 20,
+): Promise<AccountProfileSnapshotEntry[]> {
+  // One extra row so the oldest returned snapshot can be diffed too
+  const rows = await db
+    .select()
+    .from(accountProfileSnapshot)
+    .where(eq(accountProfileSnapshot.accountId, accountId))
+    .orderBy(desc(accountProfileSnapshot.capturedAt))
+    .limit(limit + 1);
+
+  return rows.slice(0, limit).map((row, i) => {
+    const previous = rows[i + 1];
+    return {
+      id: row.id,
+      username: row.username,
+      displayName: row.displayName,
+      description: row.description,
+      location: row.location,
+      website: row.website,
+      profileImageUrl: row.profileImageUrl,
+      pinnedTweetId: row.pinnedTweetId,
+      isVerified: row.isVerified === 1,
+      trigger: row.trigger as ProfileSnapshotTrigger,
+      capturedAt: row.capturedAt,
+      changes: previous ? diffProfiles(previous, row) : [],
+    };
+  });
+}
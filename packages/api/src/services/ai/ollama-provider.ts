@@ -1,5 +1,5 @@
 import { categorizeModel } from "./model-filter";
-import type { AIModel, AIProvider, ChatResponse, EmbeddingResponse } from "./types";
+import type { AIModel, AIProvider, ChatOptions, ChatResponse, EmbeddingResponse } from "./types";
 
 interface OllamaModel {
   name: string;
@@ -64,6 +64,7 @@ export class OllamaProvider implements AIProvider {
   async chat(
     model: string,
     messages: Array<{ role: "system" | "user"; content: string }>,
+    options?: ChatOptions,
   ): Promise<ChatResponse> {
     const response = await fetch(`${this.baseUrl}/api/chat`, {
       method: "POST",
@@ -72,6 +73,8 @@ export class OllamaProvider implements AIProvider {
         model,
         messages,
         stream: false,
+        // Ollama takes the JSON schema itself as the output format
+        ...(options?.jsonSchema && { format: options.jsonSchema.schema }),
       }),
     });
 
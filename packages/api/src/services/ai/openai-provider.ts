@@ -1,6 +1,6 @@
 import OpenAI from "openai";
 import { categorizeModel } from "./model-filter";
-import type { AIModel, AIProvider, ChatResponse, EmbeddingResponse } from "./types";
+import type { AIModel, AIProvider, ChatOptions, ChatResponse, EmbeddingResponse } from "./types";
 
 export class OpenAIProvider implements AIProvider {
   name = "openai" as const;
@@ -23,10 +23,17 @@ export class OpenAIProvider implements AIProvider {
   async chat(
     model: string,
     messages: Array<{ role: "system" | "user"; content: string }>,
+    options?: ChatOptions,
   ): Promise<ChatResponse> {
     const response = await this.client.chat.completions.create({
       model,
       messages,
+      ...(options?.jsonSchema && {
+        response_format: {
+          type: "json_schema",
+          json_schema: { ...options.jsonSchema, strict: true },
+        },
+      }),
     });
 
     const content = response.choices[0]?.message?.content || "";
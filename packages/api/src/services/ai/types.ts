@@ -1,6 +1,12 @@
 export type ProviderName = "openai" | "openrouter" | "ollama";
 export type ModelCategory = "chat" | "embedding" | "unknown";
-export type OperationType = "embedding" | "labeling" | "sentiment" | "explanation" | "personality";
+export type OperationType =
+  | "embedding"
+  | "labeling"
+  | "sentiment"
+  | "explanation"
+  | "personality"
+  | "entities";
 
 export interface AIModel {
   id: string; // model identifier (e.g. "gpt-4o-mini")
@@ -13,6 +19,11 @@ export interface AIModel {
   };
 }
 
+export interface ChatOptions {
+  // Constrain the reply to JSON matching this schema (structured output)
+  jsonSchema?: { name: string; schema: Record<string, unknown> };
+}
+
 export interface ChatResponse {
   content: string;
   promptTokens: number;
@@ -32,6 +43,7 @@ export interface AIProvider {
   chat(
     model: string,
     messages: Array<{ role: "system" | "user"; content: string }>,
+    options?: ChatOptions,
   ): Promise<ChatResponse>;
   embed(model: string, inputs: string[]): Promise<EmbeddingResponse>;
 }
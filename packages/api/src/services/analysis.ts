@@ -18,8 +18,15 @@ const HALF_LIFE_DAYS = 90;
 const HALF_LIFE_SECONDS = HALF_LIFE_DAYS * 24 * 60 * 60;
 const DECAY_CONSTANT = Math.LN2 / HALF_LIFE_SECONDS;
 
-// Reply tweets weighted at 50% of standalone/retweet
-const REPLY_WEIGHT_MULTIPLIER = 0.5;
+// Cluster count selection: k is searched in this range and picked by mean silhouette
+const MIN_CLUSTERS = 2;
+const MAX_CLUSTERS = 15;
+// k is chosen on an evenly spaced sample so large timelines stay cheap to search
+const CLUSTER_SELECTION_SAMPLE_SIZE = 400;
+// Below this mean silhouette no split beats keeping all tweets in one topic
+const MIN_SPLIT_SILHOUETTE = 0.05;
+// Fixed seed so the same tweets always yield the same k
+const CLUSTER_SELECTION_SEED = 42;
 
 // Adaptive window settings
 const MIN_TWEETS_FOR_FINGERPRINT = 20;
@@ -49,6 +56,15 @@ export interface ClusterResult {
   proportion: number;
 }
 
+/**
+ * Clusters plus how the cluster count was chosen, for the profile activity log.
+ */
+export interface ClusteringOutcome {
+  clusters: ClusterResult[];
+  k: number;
+  silhouette: number | null; // Mean silhouette of the chosen k (-1..1), null when too few tweets to score
+}
+
 /**
  * Calculate exponential decay weight based on tweet age.
  * Recent tweets have weight ~1.0, 90-day-old tweets ~0.5, 180-day ~0.25.
@@ -65,16 +81,15 @@ export function calculateTemporalWeight(
  * Calculate combined weight for a tweet (temporal * type multiplier).
  * @param tweetTimestamp - Unix timestamp of tweet
  * @param referenceTimestamp - Current time or most recent tweet time
- * @param isReply - Whether tweet is a reply
+ * @param typeWeight - Multiplier for the tweet's type (from the account's ingestion policy)
  */
 export function calculateTweetWeight(
   tweetTimestamp: number,
   referenceTimestamp: number,
-  isReply: boolean,
+  typeWeight: number,
 ): number {
   const temporal = calculateTemporalWeight(tweetTimestamp, referenceTimestamp);
-  const typeMultiplier = isReply ? REPLY_WEIGHT_MULTIPLIER : 1.0;
-  return temporal * typeMultiplier;
+  return temporal * typeWeight;
 }
 
 /**
@@ -94,29 +109,154 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   return denominator === 0 ? 0 : dot / denominator;
 }
 
+/**
+ * Pairwise cosine distances (1 - cosine similarity) between vectors.
+ */
+function cosineDistanceMatrix(vectors: number[][]): number[][] {
+  const n = vectors.length;
+  const distances: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const distance = 1 - cosineSimilarity(vectors[i]!, vectors[j]!);
+      distances[i]![j] = distance;
+      distances[j]![i] = distance;
+    }
+  }
+  return distances;
+}
+
+/**
+ * Mean silhouette coefficient of a clustering, from precomputed distances.
+ * Points alone in their cluster score 0.
+ */
+function silhouetteScore(distances: number[][], labels: number[]): number {
+  const n = labels.length;
+  const clusterSizes = new Map<number, number>();
+  for (const label of labels) {
+    clusterSizes.set(label, (clusterSizes.get(label) ?? 0) + 1);
+  }
+
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const own = labels[i]!;
+    if ((clusterSizes.get(own) ?? 0) <= 1) continue;
+
+    // Sum of distances from point i to every cluster
+    const sums = new Map<number, number>();
+    for (let j = 0; j < n; j++) {
+      if (i === j) continue;
+      sums.set(labels[j]!, (sums.get(labels[j]!) ?? 0) + distances[i]![j]!);
+    }
+
+    const a = (sums.get(own) ?? 0) / ((clusterSizes.get(own) ?? 1) - 1);
+    let b = Number.POSITIVE_INFINITY;
+    for (const [label, sum] of sums) {
+      if (label === own) continue;
+      b = Math.min(b, sum / (clusterSizes.get(label) ?? 1));
+    }
+    if (!Number.isFinite(b)) continue;
+
+    const denominator = Math.max(a, b);
+    total += denominator === 0 ? 0 : (b - a) / denominator;
+  }
+
+  return total / n;
+}
+
+/**
+ * Choose the number of clusters by mean silhouette (cosine distance).
+ *
+ * Each k in MIN_CLUSTERS..MAX_CLUSTERS is tried with k-means on an evenly spaced sample
+ * of up to CLUSTER_SELECTION_SAMPLE_SIZE embeddings, and the k with the best silhouette
+ * wins. When even the best split scores below MIN_SPLIT_SILHOUETTE the tweets have no
+ * real cluster structure and k = 1, so a coherent account isn't cut into noise topics.
+ */
+export function selectClusterCount(embeddings: number[][]): {
+  k: number;
+  silhouette: number | null;
+} {
+  const n = embeddings.length;
+  const maxK = Math.min(MAX_CLUSTERS, n - 1);
+  if (maxK < MIN_CLUSTERS) {
+    return { k: 1, silhouette: null };
+  }
+
+  const stride = Math.max(1, n / CLUSTER_SELECTION_SAMPLE_SIZE);
+  const sample: number[][] = [];
+  for (let i = 0; i < n && sample.length < CLUSTER_SELECTION_SAMPLE_SIZE; i += stride) {
+    sample.push(embeddings[Math.floor(i)]!);
+  }
+  const distances = cosineDistanceMatrix(sample);
+
+  let best = { k: 1, silhouette: Number.NEGATIVE_INFINITY };
+  for (let k = MIN_CLUSTERS; k <= Math.min(maxK, sample.length - 1); k++) {
+    const result = kmeans(sample, k, {
+      initialization: "kmeans++",
+      seed: CLUSTER_SELECTION_SEED,
+    });
+    const score = silhouetteScore(distances, result.clusters);
+    if (score > best.silhouette) {
+      best = { k, silhouette: score };
+    }
+  }
+
+  if (best.silhouette < MIN_SPLIT_SILHOUETTE) {
+    return { k: 1, silhouette: best.silhouette };
+  }
+  return best;
+}
+
+/**
+ * Assign every embedding to one of k clusters. k = 1 puts everything in a
+ * single cluster around the mean embedding.
+ */
+function assignClusters(
+  embeddings: number[][],
+  k: number,
+): { clusters: number[]; centroids: number[][] } {
+  if (k <= 1) {
+    const dimensions = embeddings[0]?.length ?? 0;
+    const mean = new Array<number>(dimensions).fill(0);
+    for (const embedding of embeddings) {
+      for (let d = 0; d < dimensions; d++) {
+        mean[d]! += embedding[d]! / embeddings.length;
+      }
+    }
+    return { clusters: embeddings.map(() => 0), centroids: [mean] };
+  }
+
+  const result = kmeans(embeddings, k, {
+    initialization: "kmeans++",
+    seed: CLUSTER_SELECTION_SEED,
+  });
+  return { clusters: result.clusters, centroids: result.centroids };
+}
+
 /**
  * Cluster tweets using k-means.
- * Dynamically determines k based on tweet count (sqrt heuristic, min 2, max 15).
+ * k is chosen by silhouette score (see selectClusterCount).
  */
-export function clusterTweets(tweets: TweetWithEmbedding[]): ClusterResult[] {
+export function clusterTweets(tweets: TweetWithEmbedding[]): ClusteringOutcome {
   if (tweets.length < 2) {
     // Single tweet = single cluster
-    return [
-      {
-        clusterId: 0,
-        tweetIds: tweets.map((t) => t.id),
-        tweets,
-        centroid: tweets[0]?.embedding || [],
-        proportion: 1,
-      },
-    ];
+    return {
+      clusters: [
+        {
+          clusterId: 0,
+          tweetIds: tweets.map((t) => t.id),
+          tweets,
+          centroid: tweets[0]?.embedding || [],
+          proportion: 1,
+        },
+      ],
+      k: 1,
+      silhouette: null,
+    };
   }
 
-  // Dynamic k: sqrt of tweet count, bounded
-  const k = Math.max(2, Math.min(15, Math.round(Math.sqrt(tweets.length))));
-
   const embeddings = tweets.map((t) => t.embedding);
-  const result = kmeans(embeddings, k, { initialization: "kmeans++" });
+  const { k, silhouette } = selectClusterCount(embeddings);
+  const result = assignClusters(embeddings, k);
 
   // Group tweets by cluster
   const clusters = new Map<number, TweetWithEmbedding[]>();
@@ -139,11 +279,15 @@ export function clusterTweets(tweets: TweetWithEmbedding[]): ClusterResult[] {
   }
 
   // Sort by proportion descending
-  return clusterResults.sort((a, b) => b.proportion - a.proportion);
+  return {
+    clusters: clusterResults.sort((a, b) => b.proportion - a.proportion),
+    k,
+    silhouette,
+  };
 }
 
 export interface TweetWithEmbeddingAndType extends TweetWithEmbedding {
-  isReply: boolean;
+  typeWeight: number; // Multiplier for the tweet's type (see ingestion-policy.ts)
   weight?: number; // Pre-calculated weight
 }
 
@@ -199,17 +343,21 @@ export function getAdaptiveTimeWindow(
 }
 
 /**
- * Calculate weighted average centroid from tweets.
+ * Calculate weighted average centroid from tweets (missing weight counts as 1).
+ * Falls back to the unweighted mean when every weight is zero.
  */
-function calculateWeightedCentroid(tweets: TweetWithEmbeddingAndType[]): number[] {
+export function calculateWeightedCentroid(
+  tweets: Array<{ embedding: number[]; weight?: number }>,
+): number[] {
   if (tweets.length === 0) return [];
 
+  const allZero = tweets.every((t) => t.weight === 0);
   const dim = tweets[0]!.embedding.length;
   const centroid = new Array<number>(dim).fill(0);
   let totalWeight = 0;
 
   for (const tweet of tweets) {
-    const w = tweet.weight || 1;
+    const w = allZero ? 1 : (tweet.weight ?? 1);
     totalWeight += w;
     for (let i = 0; i < dim; i++) {
       centroid[i]! += tweet.embedding[i]! * w;
@@ -230,24 +378,28 @@ function calculateWeightedCentroid(tweets: TweetWithEmbeddingAndType[]): number[
  *
  * Algorithm:
  * 1. Calculate weight for each tweet
- * 2. Run k-means to get initial cluster assignments
+ * 2. Run k-means (k chosen by silhouette) to get initial cluster assignments
  * 3. Recalculate centroids using weighted average of embeddings
  */
 export function clusterTweetsWeighted(
   tweets: TweetWithEmbeddingAndType[],
   referenceTimestamp?: number,
-): ClusterResult[] {
+): ClusteringOutcome {
   if (tweets.length < 2) {
     // Single tweet = single cluster
-    return [
-      {
-        clusterId: 0,
-        tweetIds: tweets.map((t) => t.id),
-        tweets: tweets,
-        centroid: tweets[0]?.embedding || [],
-        proportion: 1,
-      },
-    ];
+    return {
+      clusters: [
+        {
+          clusterId: 0,
+          tweetIds: tweets.map((t) => t.id),
+          tweets: tweets,
+          centroid: tweets[0]?.embedding || [],
+          proportion: 1,
+        },
+      ],
+      k: 1,
+      silhouette: null,
+    };
   }
 
   const refTime = referenceTimestamp ?? Math.floor(Date.now() / 1000);
@@ -255,15 +407,13 @@ export function clusterTweetsWeighted(
   // Calculate weights for all tweets
   const tweetsWithWeights = tweets.map((t) => ({
     ...t,
-    weight: calculateTweetWeight(t.tweetCreatedAt, refTime, t.isReply),
+    weight: calculateTweetWeight(t.tweetCreatedAt, refTime, t.typeWeight),
   }));
 
-  // Dynamic k: sqrt of tweet count, bounded 2-15
-  const k = Math.max(2, Math.min(15, Math.round(Math.sqrt(tweets.length))));
-
-  // Run standard k-means for cluster assignment
+  // Run standard k-means for cluster assignment, k chosen by silhouette
   const embeddings = tweets.map((t) => t.embedding);
-  const result = kmeans(embeddings, k, { initialization: "kmeans++" });
+  const { k, silhouette } = selectClusterCount(embeddings);
+  const result = assignClusters(embeddings, k);
 
   // Group tweets by cluster
   const clusters = new Map<number, TweetWithEmbeddingAndType[]>();
@@ -294,7 +444,11 @@ export function clusterTweetsWeighted(
   }
 
   // Sort by proportion descending
-  return clusterResults.sort((a, b) => b.proportion - a.proportion);
+  return {
+    clusters: clusterResults.sort((a, b) => b.proportion - a.proportion),
+    k,
+    silhouette,
+  };
 }
 
 export interface TopicLabel {
@@ -350,6 +504,53 @@ export async function labelTopics(clusters: ClusterResult[]): Promise<TopicLabel
   return labels;
 }
 
+/**
+ * Generate labels for cross-account themes from the topic labels they group.
+ * Each group's labels come from different accounts describing the same theme.
+ */
+export async function labelThemes(
+  groups: Array<{ clusterId: number; topicLabels: string[] }>,
+): Promise<TopicLabel[]> {
+  const provider = await getProvider();
+  const model = await getConfiguredModel("ai_chat_model", "gpt-4o-mini");
+  const labels: TopicLabel[] = [];
+
+  for (const group of groups) {
+    const samplesText = group.topicLabels
+      .slice(0, 10)
+      .map((l, i) => `${i + 1}. ${l}`)
+      .join("\n");
+
+    const response = await provider.chat(model, [
+      {
+        role: "system",
+        content:
+          "You are a topic labeling assistant. Given topic labels that different Twitter accounts' topics received, generate one concise label (1-5 words) for the shared theme. Be specific rather than generic. Return ONLY the label, no explanation.",
+      },
+      {
+        role: "user",
+        content: `Label the shared theme of these topics:\n\n${samplesText}`,
+      },
+    ]);
+
+    await trackTokenUsage({
+      operation: "labeling",
+      provider: provider.name,
+      model,
+      promptTokens: response.promptTokens,
+      completionTokens: response.completionTokens,
+      totalTokens: response.totalTokens,
+    });
+
+    labels.push({
+      clusterId: group.clusterId,
+      label: response.content.trim() || group.topicLabels[0] || "Uncategorized",
+    });
+  }
+
+  return labels;
+}
+
 export interface SentimentResult {
   clusterId: number;
   positive: number;
@@ -429,6 +630,196 @@ export async function classifySentiment(clusters: ClusterResult[]): Promise<Sent
   return results;
 }
 
+export type TweetSentiment = "positive" | "neutral" | "negative";
+export type TweetStance = "support" | "oppose" | "none";
+
+export interface TweetSentimentResult {
+  tweetId: string;
+  sentiment: TweetSentiment;
+  stance: TweetStance;
+}
+
+const SENTIMENT_CODES: Record<string, TweetSentiment> = {
+  P: "positive",
+  N: "neutral",
+  X: "negative",
+};
+
+const STANCE_CODES: Record<string, TweetStance> = {
+  S: "support",
+  O: "oppose",
+  U: "none",
+};
+
+/**
+ * Classify sentiment and stance (toward the tweet's main subject) for individual
+ * tweets via configured chat model, 25 tweets per request.
+ * Unparseable lines default to neutral with no stance.
+ */
+export async function classifyTweetSentiment(
+  tweets: Array<{ id: string; text: string }>,
+): Promise<TweetSentimentResult[]> {
+  if (tweets.length === 0) return [];
+
+  const provider = await getProvider();
+  const model = await getConfiguredModel("ai_chat_model", "gpt-4o-mini");
+  const results: TweetSentimentResult[] = [];
+
+  const BATCH = 25;
+  for (let i = 0; i < tweets.length; i += BATCH) {
+    const batch = tweets.slice(i, i + BATCH);
+    const numbered = batch.map((t, j) => `${j + 1}. ${t.text}`).join("\n");
+
+    const response = await provider.chat(model, [
+      {
+        role: "system",
+        content:
+          "You are a sentiment and stance classifier. For each numbered tweet, respond with ONLY two letters separated by a space: sentiment P (positive), N (neutral) or X (negative), then stance toward the tweet's main subject S (supports), O (opposes) or U (no clear stance). One line per tweet, in order. No explanations.",
+      },
+      {
+        role: "user",
+        content: numbered,
+      },
+    ]);
+
+    await trackTokenUsage({
+      operation: "sentiment",
+      provider: provider.name,
+      model,
+      promptTokens: response.promptTokens,
+      completionTokens: response.completionTokens,
+      totalTokens: response.totalTokens,
+    });
+
+    const lines = response.content
+      .trim()
+      .split("\n")
+      .map((l) =>
+        l
+          .trim()
+          .toUpperCase()
+          .replace(/^\d+[.)]\s*/, ""),
+      );
+
+    batch.forEach((t, j) => {
+      const [sentimentCode, stanceCode] = (lines[j] ?? "").split(/\s+/);
+      results.push({
+        tweetId: t.id,
+        sentiment: SENTIMENT_CODES[sentimentCode?.[0] ?? ""] ?? "neutral",
+        stance: STANCE_CODES[stanceCode?.[0] ?? ""] ?? "none",
+      });
+    });
+  }
+
+  return results;
+}
+
+export const NAMED_ENTITY_TYPES = ["company", "person", "product", "ticker"] as const;
+export type NamedEntityType = (typeof NAMED_ENTITY_TYPES)[number];
+
+export interface TweetNamedEntities {
+  tweetId: string;
+  entities: Array<{ type: NamedEntityType; name: string }>;
+}
+
+const NAMED_ENTITY_SCHEMA = {
+  type: "object",
+  properties: {
+    tweets: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          index: { type: "integer" },
+          entities: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                type: { type: "string", enum: NAMED_ENTITY_TYPES },
+                name: { type: "string" },
+              },
+              required: ["type", "name"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["index", "entities"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["tweets"],
+  additionalProperties: false,
+};
+
+/**
+ * Extract the companies, people, products and tickers each tweet talks about via
+ * configured chat model with structured output, 20 tweets per request.
+ * A batch whose reply cannot be parsed yields no entities for its tweets.
+ */
+export async function extractNamedEntities(
+  tweets: Array<{ id: string; text: string }>,
+): Promise<TweetNamedEntities[]> {
+  if (tweets.length === 0) return [];
+
+  const provider = await getProvider();
+  const model = await getConfiguredModel("ai_chat_model", "gpt-4o-mini");
+  const results: TweetNamedEntities[] = [];
+
+  const BATCH = 20;
+  for (let i = 0; i < tweets.length; i += BATCH) {
+    const batch = tweets.slice(i, i + BATCH);
+    const numbered = batch.map((t, j) => `${j + 1}. ${t.text}`).join("\n");
+
+    const response = await provider.chat(
+      model,
+      [
+        {
+          role: "system",
+          content:
+            'You are a named entity extractor. For each numbered tweet, list the specific companies, people, products and stock or crypto tickers it talks about, using each entity\'s canonical name (e.g. "Tesla", "Elon Musk", "ChatGPT", "TSLA"). Skip generic concepts, places and the tweet\'s own author. Return every tweet by its number, with an empty list when it names no entity.',
+        },
+        {
+          role: "user",
+          content: numbered,
+        },
+      ],
+      { jsonSchema: { name: "named_entities", schema: NAMED_ENTITY_SCHEMA } },
+    );
+
+    await trackTokenUsage({
+      operation: "entities",
+      provider: provider.name,
+      model,
+      promptTokens: response.promptTokens,
+      completionTokens: response.completionTokens,
+      totalTokens: response.totalTokens,
+    });
+
+    let parsed: { tweets: Array<{ index: number; entities: TweetNamedEntities["entities"] }> };
+    try {
+      parsed = JSON.parse(response.content);
+    } catch {
+      console.warn("Named entity extraction returned invalid JSON, skipping batch");
+      parsed = { tweets: [] };
+    }
+
+    batch.forEach((t, j) => {
+      const entry = parsed.tweets?.find((e) => e.index === j + 1);
+      results.push({
+        tweetId: t.id,
+        // Providers without schema enforcement can still return stray types
+        entities: (entry?.entities ?? []).filter(
+          (e) => NAMED_ENTITY_TYPES.includes(e.type) && e.name?.trim(),
+        ),
+      });
+    });
+  }
+
+  return results;
+}
+
 export interface ActivityMetrics {
   tweetsPerDay: number;
   maxSilenceHours: number;
@@ -1,135 +1,214 @@
-import { TwitterClient } from "@steipete/bird";
-
-export interface BirdTweet {
-  id: string;
-  text: string;
-  createdAt: string; // ISO timestamp from Bird
-  author: { username: string; name: string };
-  authorId: string;
-  likeCount: number;
-  retweetCount: number;
-  replyCount: number;
-  conversationId: string;
-  inReplyToStatusId?: string;
-}
+import { findCurrentUser, isLiveSource } from "./account-identity";
+import { getTweetSource } from "./sources/source-factory";
+import { compareTweetIds } from "./sources/tweet-ids";
+import type { SourceName, SourceTweet, SourceUser, TweetSource } from "./sources/types";
+
+/** Tweet shape produced by every tweet source (named after the original Bird-only fetcher). */
+export type BirdTweet = SourceTweet;
 
 /** Alias for use by ingest router and other consumers. */
 export type TweetData = BirdTweet;
 
+export { compareTweetIds };
+
 export type FetchResult =
   | {
       success: true;
       tweets: BirdTweet[];
       nextCursor?: string;
+      /** Only set for sinceId fetches: false when the page cap stopped paging before sinceId was reached */
+      reachedSinceId?: boolean;
+      /** Tweet source the tweets came from */
+      source: SourceName;
+      /** User the timeline belongs to, with their current handle (unset when it could not be determined) */
+      user?: SourceUser;
     }
   | {
       success: false;
       error: string;
+      /** Tweets from the pages fetched before the failure */
       tweets?: BirdTweet[];
+      /** Cursor of the page that failed, to resume from */
       nextCursor?: string;
+      /** Tweet source the partial tweets came from */
+      source?: SourceName;
     };
 
+/** Page cap for historical ('until') fetches. */
+const UNTIL_MAX_PAGES = 100;
+
+/**
+ * Page through a timeline, stopping when `shouldStop` returns true for a page,
+ * the timeline ends, or maxPages is reached.
+ */
+async function fetchTimelinePages(
+  source: TweetSource,
+  userId: string,
+  options: {
+    count: number;
+    maxPages: number;
+    cursor?: string;
+    shouldStop: (page: BirdTweet[]) => boolean;
+  },
+): Promise<
+  | { success: true; tweets: BirdTweet[]; nextCursor?: string; stopped: boolean }
+  | { success: false; error: string; tweets: BirdTweet[]; nextCursor?: string }
+> {
+  const tweets: BirdTweet[] = [];
+  let cursor = options.cursor;
+
+  // Pacing is left to the source (Bird requests wait on the shared rate-limit budget)
+  for (let page = 0; page < options.maxPages; page++) {
+    const result = await source.getTimelinePage(userId, { count: options.count, cursor });
+    if (!result.success) {
+      return { success: false, error: result.error, tweets, nextCursor: cursor };
+    }
+
+    tweets.push(...result.tweets);
+
+    if (options.shouldStop(result.tweets)) {
+      return { success: true, tweets, stopped: true };
+    }
+
+    cursor = result.nextCursor;
+    if (!cursor || result.tweets.length === 0) {
+      // End of timeline: nothing older left to page through
+      return { success: true, tweets, stopped: true };
+    }
+  }
+
+  return { success: true, tweets, nextCursor: cursor, stopped: false };
+}
+
 /**
- * Fetch tweets for a user via Bird library.
+ * Fetch tweets for a user via the configured tweet source (see sources/source-factory).
  *
  * @param handle - Twitter handle (without @)
- * @param authToken - Twitter auth_token cookie
- * @param ct0 - Twitter ct0 cookie
- * @param options - Optional count for number of tweets per page, and until timestamp for historical fetch
+ * @param options - Optional count for number of tweets per page, and until timestamp for historical fetch.
+ *   With sinceId, pages (starting at cursor if given) until a tweet at or older than sinceId
+ *   is seen or maxPages is reached; nextCursor then points at the first unfetched page.
+ *   With userId, live sources fetch the timeline by ID without resolving the handle, so a
+ *   renamed account keeps working; the current handle is then read from the tweets.
  * @returns FetchResult with success/failure and tweets array
  */
 export async function fetchUserTweets(
   handle: string,
-  authToken: string,
-  ct0: string,
-  options?: { count?: number; until?: number },
+  options?: {
+    count?: number;
+    until?: number;
+    sinceId?: string;
+    maxPages?: number;
+    cursor?: string;
+    userId?: string;
+  },
 ): Promise<FetchResult> {
   const count = options?.count ?? 50;
   const until = options?.until;
+  const sinceId = options?.sinceId;
 
   // Strip @ prefix if present
   const cleanHandle = handle.startsWith("@") ? handle.slice(1) : handle;
 
-  const client = new TwitterClient({
-    cookies: {
-      authToken,
-      ct0,
-    },
-  });
-
   try {
-    // First, look up the numeric user ID from the handle
-    const userLookup = await client.getUserIdByUsername(cleanHandle);
-    if (!userLookup.success || !userLookup.userId) {
+    const source = await getTweetSource();
+
+    // Look up the numeric user ID from the handle, unless a live source already knows it.
+    // Offline sources are keyed by handle and always need the lookup.
+    let lookedUpUser: SourceUser | undefined;
+    if (!options?.userId || !isLiveSource(source.name)) {
+      const userLookup = await source.lookupUser(cleanHandle);
+      if (!userLookup.success) {
+        return {
+          success: false,
+          error: userLookup.error,
+          tweets: [],
+        };
+      }
+      lookedUpUser = userLookup.user;
+    }
+    const userId = lookedUpUser?.userId ?? (options?.userId as string);
+
+    // With an ID-only fetch, the current handle comes from the user's own tweets
+    const resolveUser = (tweets: BirdTweet[]): SourceUser | undefined =>
+      lookedUpUser ?? findCurrentUser(userId, tweets) ?? undefined;
+
+    // Page backwards from the newest tweet (or a resume cursor) until sinceId is reached
+    if (sinceId) {
+      const result = await fetchTimelinePages(source, userId, {
+        count,
+        maxPages: options?.maxPages ?? 10,
+        cursor: options?.cursor,
+        // Timeline is newest-first, so once the oldest tweet on a page is at or before
+        // sinceId everything newer has been seen. Checking the last tweet (not any tweet)
+        // keeps an old pinned tweet at the top of page 1 from stopping the fetch early.
+        shouldStop: (page) => {
+          const oldest = page[page.length - 1];
+          return !!oldest && compareTweetIds(oldest.id, sinceId) <= 0;
+        },
+      });
+
+      // Keep only tweets newer than the stop marker
+      const newer = result.tweets.filter((t) => compareTweetIds(t.id, sinceId) > 0);
+
+      if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+          tweets: newer,
+          nextCursor: result.nextCursor,
+          source: source.name,
+        };
+      }
+
       return {
-        success: false,
-        error: userLookup.error || `Could not find user @${cleanHandle}`,
-        tweets: [],
+        success: true,
+        tweets: newer,
+        nextCursor: result.nextCursor,
+        reachedSinceId: result.stopped,
+        source: source.name,
+        user: resolveUser(result.tweets),
       };
     }
 
     // If no 'until' specified, just fetch a single page
     if (!until) {
-      const result = await client.getUserTweets(userLookup.userId, count);
-
-      // Map to our BirdTweet interface
-      const tweets: BirdTweet[] = (result.tweets ?? []).map((t) => ({
-        id: t.id,
-        text: t.text,
-        createdAt: t.createdAt ?? new Date().toISOString(),
-        author: {
-          username: t.author?.username ?? cleanHandle,
-          name: t.author?.name ?? cleanHandle,
-        },
-        authorId: t.authorId ?? "",
-        likeCount: t.likeCount ?? 0,
-        retweetCount: t.retweetCount ?? 0,
-        replyCount: t.replyCount ?? 0,
-        conversationId: t.conversationId ?? t.id,
-        inReplyToStatusId: t.inReplyToStatusId,
-      }));
+      const result = await source.getTimelinePage(userId, { count });
+      if (!result.success) {
+        return { success: false, error: result.error, tweets: [] };
+      }
 
       return {
         success: true,
-        tweets,
+        tweets: result.tweets,
         nextCursor: result.nextCursor,
+        source: source.name,
+        user: resolveUser(result.tweets),
       };
     }
 
-    // Use paginated fetch for historical data (with 'until' timestamp)
-    // Calculate max pages needed: ~50 tweets per page, estimate 10 tweets/day, fetch up to 1 year
-    const maxPages = 100; // Allow up to 5000 tweets (100 pages * 50 tweets)
-    const result = await client.getUserTweetsPaged(userLookup.userId, count, {
-      maxPages,
-      pageDelayMs: 1000, // 1 second delay between pages to avoid rate limits
-    });
+    // Paginated fetch for historical data: stop once a page reaches past 'until'
+    const isBeforeUntil = (t: BirdTweet) =>
+      Math.floor(new Date(t.createdAt).getTime() / 1000) < until;
 
-    // Map to our BirdTweet interface
-    const allTweets: BirdTweet[] = (result.tweets ?? []).map((t) => ({
-      id: t.id,
-      text: t.text,
-      createdAt: t.createdAt ?? new Date().toISOString(),
-      author: {
-        username: t.author?.username ?? cleanHandle,
-        name: t.author?.name ?? cleanHandle,
+    const result = await fetchTimelinePages(source, userId, {
+      count,
+      maxPages: options?.maxPages ?? UNTIL_MAX_PAGES,
+      shouldStop: (page) => {
+        const oldest = page[page.length - 1];
+        return !!oldest && isBeforeUntil(oldest);
       },
-      authorId: t.authorId ?? "",
-      likeCount: t.likeCount ?? 0,
-      retweetCount: t.retweetCount ?? 0,
-      replyCount: t.replyCount ?? 0,
-      conversationId: t.conversationId ?? t.id,
-      inReplyToStatusId: t.inReplyToStatusId,
-    }));
-
-    // Filter tweets to only those within the 'until' window
-    const filteredTweets = allTweets.filter((t) => {
-      const timestamp = Math.floor(new Date(t.createdAt).getTime() / 1000);
-      return timestamp >= until;
     });
 
+    if (!result.success) {
+      return { success: false, error: result.error, tweets: [] };
+    }
+
+    // Filter tweets to only those within the 'until' window
     return {
       success: true,
-      tweets: filteredTweets,
+      tweets: result.tweets.filter((t) => !isBeforeUntil(t)),
+      source: source.name,
+      user: resolveUser(result.tweets),
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error fetching tweets";
@@ -141,26 +220,3 @@ export async function fetchUserTweets(
     };
   }
 }
-
-/**
- * Filter out retweets and replies, keeping only original tweets.
- *
- * Per CONTEXT.md:
- * - Exclude retweets: text starts with "RT @"
- * - Exclude replies: has inReplyToStatusId OR conversationId !== id
- *
- * @param tweets - Array of BirdTweet objects
- * @returns Filtered array containing only original tweets
- */
-export function filterOriginalTweets(tweets: BirdTweet[]): BirdTweet[] {
-  return tweets.filter((t) => {
-    // Exclude replies (has inReplyToStatusId or conversationId differs from id)
-    if (t.inReplyToStatusId) return false;
-    if (t.conversationId !== t.id) return false;
-
-    // Exclude retweets (text starts with "RT @")
-    if (t.text.startsWith("RT @")) return false;
-
-    return true;
-  });
-}
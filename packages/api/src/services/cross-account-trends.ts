@@ -0,0 +1,442 @@
+import { db } from "@trend-x/db";
+import { account, notification, tweet, tweetEmbedding } from "@trend-x/db/schema";
+import { and, desc, eq, gte, inArray, isNull } from "drizzle-orm";
+import { cosineSimilarity, labelTopics, type TweetWithEmbedding } from "./analysis";
+import { getEmbeddingModel } from "./openai";
+import { escapeHtml, getTelegramConfig, sendTelegramMessage } from "./telegram";
+
+export interface CrossAccountTrendTweet {
+  tweetId: string;
+  accountId: string;
+  handle: string;
+  text: string;
+  tweetCreatedAt: number;
+}
+
+/**
+ * Evidence stored on a cross_account_trend notification.
+ */
+export interface CrossAccountTrendEvidence {
+  label: string;
+  accounts: Array<{ accountId: string; handle: string }>;
+  tweetIds: string[]; // Every tweet in the cluster, its embeddings identify repeat alerts
+  tweets: CrossAccountTrendTweet[]; // Evidence shown to the user, a few per account
+  windowStart: number;
+  windowEnd: number;
+}
+
+export interface CrossAccountTrend {
+  notificationId: string;
+  title: string;
+  explanation: string;
+  createdAt: number;
+  isRead: number;
+  evidence: CrossAccountTrendEvidence;
+}
+
+interface WindowTweet extends CrossAccountTrendTweet {
+  embedding: number[];
+}
+
+interface TrendCluster {
+  centroid: number[];
+  tweets: WindowTweet[];
+}
+
+interface PreviousTrend {
+  evidence: CrossAccountTrendEvidence;
+  centroid: number[] | null; // Mean of its tweets' embeddings, null when none are stored
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// Rolling window of recent tweets searched for shared subjects
+const TREND_WINDOW_HOURS = 48;
+
+// Tweets at least this similar to a cluster centroid join the cluster
+const TREND_SIMILARITY_THRESHOLD = 0.82;
+
+// Distinct accounts a cluster needs to count as a trend
+const MIN_TREND_ACCOUNTS = 3;
+
+// Evidence tweets kept per account on the notification
+const EVIDENCE_TWEETS_PER_ACCOUNT = 2;
+
+// Trends notified this recently are not re-raised unless new accounts join them
+const REPEAT_LOOKBACK_DAYS = 7;
+
+// Keep IN (...) lists well below SQLite's variable limit
+const LOOKUP_BATCH_SIZE = 500;
+
+// Quiet period after the last profile update before detection runs
+const DETECTION_DEBOUNCE_MS = 2 * 60 * 1000;
+
+let detectionTimer: ReturnType<typeof setTimeout> | null = null;
+let detectionRunning = false;
+
+// ---------------------------------------------------------------------------
+// Clustering
+// ---------------------------------------------------------------------------
+
+/**
+ * Load embedded, non-retweet tweets posted in the window by active accounts
+ * (paused and archived accounts are left out), under the configured embedding model.
+ */
+async function loadWindowTweets(windowStart: number): Promise<WindowTweet[]> {
+  const model = await getEmbeddingModel();
+
+  const rows = await db
+    .select({
+      tweetId: tweet.id,
+      accountId: tweet.accountId,
+      handle: account.handle,
+      text: tweet.text,
+      tweetCreatedAt: tweet.tweetCreatedAt,
+      embedding: tweetEmbedding.embedding,
+    })
+    .from(tweet)
+    .innerJoin(account, eq(account.id, tweet.accountId))
+    .innerJoin(
+      tweetEmbedding,
+      and(eq(tweetEmbedding.tweetId, tweet.id), eq(tweetEmbedding.model, model)),
+    )
+    .where(
+      and(
+        gte(tweet.tweetCreatedAt, windowStart),
+        eq(tweet.isRetweet, 0),
+        isNull(tweet.deletedAt),
+        eq(account.status, "active"),
+      ),
+    )
+    .orderBy(desc(tweetEmbedding.createdAt));
+
+  // An edited tweet can have several vectors; keep the newest
+  const byTweet = new Map<string, WindowTweet>();
+  for (const row of rows) {
+    if (byTweet.has(row.tweetId)) continue;
+    byTweet.set(row.tweetId, { ...row, embedding: JSON.parse(row.embedding) as number[] });
+  }
+
+  return [...byTweet.values()].sort((a, b) => a.tweetCreatedAt - b.tweetCreatedAt);
+}
+
+/**
+ * Greedy single-pass clustering: oldest first, each tweet joins the most similar
+ * cluster at or above TREND_SIMILARITY_THRESHOLD or starts a new one. Centroids
+ * are the running mean of their members.
+ */
+function clusterWindowTweets(tweets: WindowTweet[]): TrendCluster[] {
+  const clusters: TrendCluster[] = [];
+
+  for (const item of tweets) {
+    let best: { cluster: TrendCluster; similarity: number } | null = null;
+    for (const cluster of clusters) {
+      const similarity = cosineSimilarity(item.embedding, cluster.centroid);
+      if (!best || similarity > best.similarity) best = { cluster, similarity };
+    }
+
+    if (!best || best.similarity < TREND_SIMILARITY_THRESHOLD) {
+      clusters.push({ centroid: [...item.embedding], tweets: [item] });
+      continue;
+    }
+
+    const { cluster } = best;
+    cluster.tweets.push(item);
+    const n = cluster.tweets.length;
+    cluster.centroid = cluster.centroid.map(
+      (value, i) => value + ((item.embedding[i] ?? value) - value) / n,
+    );
+  }
+
+  return clusters;
+}
+
+function distinctAccounts(tweets: CrossAccountTrendTweet[]) {
+  const accounts = new Map<string, string>();
+  for (const t of tweets) accounts.set(t.accountId, t.handle);
+  return [...accounts].map(([accountId, handle]) => ({ accountId, handle }));
+}
+
+/**
+ * Pick evidence tweets: the ones closest to the centroid, a few per account.
+ */
+function selectEvidenceTweets(cluster: TrendCluster): CrossAccountTrendTweet[] {
+  const ranked = [...cluster.tweets].sort(
+    (a, b) =>
+      cosineSimilarity(b.embedding, cluster.centroid) -
+      cosineSimilarity(a.embedding, cluster.centroid),
+  );
+
+  const perAccount = new Map<string, number>();
+  const evidence: CrossAccountTrendTweet[] = [];
+  for (const { embedding: _embedding, ...item } of ranked) {
+    const used = perAccount.get(item.accountId) ?? 0;
+    if (used >= EVIDENCE_TWEETS_PER_ACCOUNT) continue;
+    perAccount.set(item.accountId, used + 1);
+    evidence.push(item);
+  }
+  return evidence;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+/**
+ * Load the cross-account trend notifications raised since `since`, with the
+ * centroid of each trend's tweets under the configured embedding model.
+ */
+async function getPreviousTrends(since: number): Promise<PreviousTrend[]> {
+  const rows = await db
+    .select({ evidence: notification.evidence })
+    .from(notification)
+    .where(
+      and(eq(notification.changeType, "cross_account_trend"), gte(notification.createdAt, since)),
+    );
+
+  const evidence = rows.flatMap((r) =>
+    r.evidence ? [JSON.parse(r.evidence) as CrossAccountTrendEvidence] : [],
+  );
+  if (evidence.length === 0) return [];
+
+  const model = await getEmbeddingModel();
+  const tweetIds = [...new Set(evidence.flatMap((e) => e.tweetIds))];
+  const embeddings = new Map<string, number[]>();
+  for (let i = 0; i < tweetIds.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = await db
+      .select({ tweetId: tweetEmbedding.tweetId, embedding: tweetEmbedding.embedding })
+      .from(tweetEmbedding)
+      .where(
+        and(
+          inArray(tweetEmbedding.tweetId, tweetIds.slice(i, i + LOOKUP_BATCH_SIZE)),
+          eq(tweetEmbedding.model, model),
+        ),
+      );
+    for (const row of batch) {
+      if (!embeddings.has(row.tweetId)) {
+        embeddings.set(row.tweetId, JSON.parse(row.embedding) as number[]);
+      }
+    }
+  }
+
+  return evidence.map((e) => {
+    const vectors = e.tweetIds
+      .map((id) => embeddings.get(id))
+      .filter((v): v is number[] => v !== undefined);
+    return { evidence: e, centroid: vectors.length > 0 ? meanVector(vectors) : null };
+  });
+}
+
+function meanVector(vectors: number[][]): number[] {
+  const mean = new Array<number>(vectors[0]?.length ?? 0).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < mean.length; i++) {
+      mean[i] = (mean[i] ?? 0) + (vector[i] ?? 0) / vectors.length;
+    }
+  }
+  return mean;
+}
+
+/**
+ * Whether the cluster involves no account the earlier trend didn't already list.
+ */
+function addsNoAccounts(cluster: TrendCluster, previous: PreviousTrend): boolean {
+  const previousAccountIds = new Set(previous.evidence.accounts.map((a) => a.accountId));
+  return cluster.tweets.every((t) => previousAccountIds.has(t.accountId));
+}
+
+/**
+ * A cluster repeats an earlier trend when it covers the same subject (its centroid
+ * is as close to the earlier trend's as a tweet must be to join a cluster) and adds
+ * no account the earlier trend didn't already list.
+ */
+function isRepeatOf(cluster: TrendCluster, previous: PreviousTrend): boolean {
+  if (!previous.centroid) return false;
+  const similarity = cosineSimilarity(cluster.centroid, previous.centroid);
+  return similarity >= TREND_SIMILARITY_THRESHOLD && addsNoAccounts(cluster, previous);
+}
+
+/**
+ * Labels catch repeats whose tweets drifted too far for the centroid check.
+ */
+function isRepeatLabel(label: string, cluster: TrendCluster, previous: PreviousTrend): boolean {
+  return (
+    previous.evidence.label.toLowerCase() === label.toLowerCase() &&
+    addsNoAccounts(cluster, previous)
+  );
+}
+
+async function sendTrendToTelegram(title: string, explanation: string): Promise<void> {
+  try {
+    const telegramConfig = await getTelegramConfig();
+    if (telegramConfig?.enabled) {
+      await sendTelegramMessage(
+        telegramConfig.botToken,
+        telegramConfig.chatId,
+        `<b>${escapeHtml(title)}</b>\n\n${escapeHtml(explanation)}`,
+      );
+    }
+  } catch (error) {
+    console.error("Failed to send cross-account trend to Telegram:", error);
+  }
+}
+
+/**
+ * Request trend detection after a profile update classified new tweets.
+ * Requests are debounced: detection runs once DETECTION_DEBOUNCE_MS pass without
+ * another request, so a scheduled update over every account triggers a single run.
+ */
+export function requestCrossAccountTrendDetection(): void {
+  if (detectionTimer) clearTimeout(detectionTimer);
+  detectionTimer = setTimeout(() => void runRequestedDetection(), DETECTION_DEBOUNCE_MS);
+}
+
+/**
+ * Run a requested detection. Failures are logged; the next profile update retries.
+ */
+async function runRequestedDetection(): Promise<void> {
+  detectionTimer = null;
+
+  // A slow run must not overlap the next one; retry once it has finished
+  if (detectionRunning) {
+    requestCrossAccountTrendDetection();
+    return;
+  }
+  detectionRunning = true;
+
+  try {
+    const notificationIds = await detectCrossAccountTrends();
+    if (notificationIds.length > 0) {
+      console.log(`[Trends] Detected ${notificationIds.length} cross-account trend(s)`);
+    }
+  } catch (error) {
+    console.error("[Trends] Cross-account trend detection failed:", error);
+  } finally {
+    detectionRunning = false;
+  }
+}
+
+/**
+ * Find subjects several monitored accounts started covering within the last
+ * TREND_WINDOW_HOURS: clusters of semantically similar recent tweets spanning at
+ * least MIN_TREND_ACCOUNTS distinct accounts. Each new trend creates a
+ * cross_account_trend notification (not tied to one account) listing the accounts
+ * and evidence tweets. Trends notified in the last REPEAT_LOOKBACK_DAYS with the same
+ * subject (similar centroid or same label) are skipped unless new accounts joined
+ * them. Returns the created notification IDs.
+ */
+export async function detectCrossAccountTrends(): Promise<string[]> {
+  const now = Math.floor(Date.now() / 1000);
+  const windowStart = now - TREND_WINDOW_HOURS * 60 * 60;
+
+  const tweets = await loadWindowTweets(windowStart);
+  const trends = clusterWindowTweets(tweets).filter(
+    (c) => distinctAccounts(c.tweets).length >= MIN_TREND_ACCOUNTS,
+  );
+  if (trends.length === 0) return [];
+
+  const previous = await getPreviousTrends(now - REPEAT_LOOKBACK_DAYS * 24 * 60 * 60);
+  const fresh = trends.filter((c) => !previous.some((p) => isRepeatOf(c, p)));
+  if (fresh.length === 0) return [];
+
+  const labels = await labelTopics(
+    fresh.map((c, i) => {
+      const evidence = selectEvidenceTweets(c);
+      const labelTweets: TweetWithEmbedding[] = evidence.map((t) => ({
+        id: t.tweetId,
+        text: t.text,
+        embedding: [],
+        tweetCreatedAt: t.tweetCreatedAt,
+      }));
+      return {
+        clusterId: i,
+        tweetIds: labelTweets.map((t) => t.id),
+        tweets: labelTweets,
+        centroid: c.centroid,
+        proportion: 0,
+      };
+    }),
+  );
+
+  const notificationIds: string[] = [];
+  for (const [i, cluster] of fresh.entries()) {
+    const label = labels.find((l) => l.clusterId === i)?.label ?? "Uncategorized";
+    if (previous.some((p) => isRepeatLabel(label, cluster, p))) continue;
+
+    const accounts = distinctAccounts(cluster.tweets);
+    const evidence: CrossAccountTrendEvidence = {
+      label,
+      accounts,
+      tweetIds: cluster.tweets.map((t) => t.tweetId),
+      tweets: selectEvidenceTweets(cluster),
+      windowStart,
+      windowEnd: now,
+    };
+
+    const title = `Trending Across Accounts: ${label}`;
+    const handles = accounts.map((a) => `@${a.handle}`).join(", ");
+    const explanation = `${accounts.length} accounts posted ${cluster.tweets.length} similar tweets in the last ${TREND_WINDOW_HOURS} hours: ${handles}.`;
+
+    const [row] = await db
+      .insert(notification)
+      .values({
+        accountId: null,
+        detectionRunId: null,
+        changeId: null,
+        title,
+        explanation,
+        changeType: "cross_account_trend",
+        evidence: JSON.stringify(evidence),
+      })
+      .returning({ id: notification.id });
+    if (row) notificationIds.push(row.id);
+
+    await sendTrendToTelegram(title, explanation);
+  }
+
+  return notificationIds;
+}
+
+/**
+ * List cross-account trend notifications from the last `days` days, newest first.
+ * With `accountIds`, only trends involving at least one of those accounts.
+ */
+export async function getRecentCrossAccountTrends(options: {
+  accountIds: string[] | null;
+  days?: number;
+  limit?: number;
+}): Promise<CrossAccountTrend[]> {
+  const since = Math.floor(Date.now() / 1000) - (options.days ?? 7) * 24 * 60 * 60;
+
+  const rows = await db
+    .select()
+    .from(notification)
+    .where(
+      and(eq(notification.changeType, "cross_account_trend"), gte(notification.createdAt, since)),
+    )
+    .orderBy(desc(notification.createdAt));
+
+  const groupAccountIds = options.accountIds ? new Set(options.accountIds) : null;
+
+  return rows
+    .flatMap((r) =>
+      r.evidence === null
+        ? []
+        : [
+            {
+              notificationId: r.id,
+              title: r.title,
+              explanation: r.explanation,
+              createdAt: r.createdAt,
+              isRead: r.isRead,
+              evidence: JSON.parse(r.evidence) as CrossAccountTrendEvidence,
+            },
+          ],
+    )
+    .filter(
+      (t) => !groupAccountIds || t.evidence.accounts.some((a) => groupAccountIds.has(a.accountId)),
+    )
+    .slice(0, options.limit ?? 10);
+}
@@ -0,0 +1,275 @@
+import { db } from "@trend-x/db";
+import { theme, tweet, tweetTopic } from "@trend-x/db/schema";
+import { and, asc, count, eq, gte, inArray, lt, min } from "drizzle-orm";
+import { getLatestThemeCapture, getThemeCapture } from "./themes";
+
+export interface ThemeAdopter {
+  accountId: string;
+  handle: string;
+  firstMentionAt: number; // When the account's mentions of the theme became significant
+  lagDays: number; // Days after the theme's first adopter
+}
+
+export interface EmergingTheme {
+  themeId: string;
+  label: string;
+  emergedAt: number; // First adopter's firstMentionAt
+  adopters: ThemeAdopter[]; // Earliest first
+}
+
+export interface EarlyAdopterScore {
+  accountId: string;
+  handle: string;
+  score: number; // Mean adoption percentile over the account's themes, 1 = always first
+  themesAdopted: number;
+  themesLed: number; // Themes the account adopted first
+  averageLeadDays: number; // Mean days ahead of each theme's median adopter, negative = behind
+  history: Array<{ at: number; score: number }>; // Running score as of each theme's emergence, oldest first
+}
+
+export interface EarlyAdopterAnalysis {
+  themes: EmergingTheme[]; // Most recently emerged first
+  leaderboard: EarlyAdopterScore[]; // Highest score first
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// Tweets an account needs in a theme before it counts as mentioning it
+const SIGNIFICANT_MENTION_TWEETS = 3;
+
+// Accounts a theme needs before the adoption order means anything
+const MIN_THEME_ADOPTERS = 2;
+
+// Themes an account needs to appear on the leaderboard
+const MIN_SCORED_THEMES = 2;
+
+const DEFAULT_LOOKBACK_DAYS = 365;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// ---------------------------------------------------------------------------
+// First mentions
+// ---------------------------------------------------------------------------
+
+/**
+ * Find when each account's mentions of each theme became significant: the time of
+ * its SIGNIFICANT_MENTION_TWEETS-th tweet assigned to a topic mapped to the theme.
+ * Topics are mapped through the latest taxonomy capture. Returns themeId -> adopters,
+ * earliest first, for themes first adopted at or after `windowStart`, and when tweet
+ * topic coverage began for every account.
+ *
+ * Only tweets in the window are loaded one by one; earlier ones are counted per topic,
+ * which is enough to carry mention counts into the window and to leave out themes
+ * adopted before it.
+ *
+ * Tweet topic assignments only exist for tweets classified since they were introduced
+ * (or since the account's last rebuild), so an account's coverage begins at its oldest
+ * assigned tweet. Before the latest of those, an uncovered account may have mentioned a
+ * theme first without it showing.
+ */
+async function findFirstMentions(
+  capture: Awaited<ReturnType<typeof getThemeCapture>>,
+  windowStart: number,
+): Promise<{
+  adoptersByTheme: Map<string, Array<Omit<ThemeAdopter, "lagDays">>>;
+  coveredSince: number;
+}> {
+  const themeByTopic = new Map(capture.map((a) => [`${a.accountId}:${a.topicId}`, a.themeId]));
+  const handles = new Map(capture.map((a) => [a.accountId, a.handle]));
+  const accountIds = [...handles.keys()];
+
+  const earlier = await db
+    .select({
+      accountId: tweetTopic.accountId,
+      topicId: tweetTopic.topicId,
+      mentions: count(),
+      firstAt: min(tweet.tweetCreatedAt),
+    })
+    .from(tweetTopic)
+    .innerJoin(tweet, eq(tweet.id, tweetTopic.tweetId))
+    .where(and(inArray(tweetTopic.accountId, accountIds), lt(tweet.tweetCreatedAt, windowStart)))
+    .groupBy(tweetTopic.accountId, tweetTopic.topicId);
+
+  const mentionCounts = new Map<string, number>();
+  const adoptedEarlier = new Set<string>();
+  const coverageStarts = new Map<string, number>();
+
+  for (const row of earlier) {
+    const start = coverageStarts.get(row.accountId);
+    if (row.firstAt !== null && (start === undefined || row.firstAt < start)) {
+      coverageStarts.set(row.accountId, row.firstAt);
+    }
+
+    const themeId = themeByTopic.get(`${row.accountId}:${row.topicId}`);
+    if (!themeId) continue;
+
+    const key = `${row.accountId}:${themeId}`;
+    const mentions = (mentionCounts.get(key) ?? 0) + row.mentions;
+    mentionCounts.set(key, mentions);
+    if (mentions >= SIGNIFICANT_MENTION_TWEETS) adoptedEarlier.add(themeId);
+  }
+
+  const rows = await db
+    .select({
+      accountId: tweetTopic.accountId,
+      topicId: tweetTopic.topicId,
+      tweetCreatedAt: tweet.tweetCreatedAt,
+    })
+    .from(tweetTopic)
+    .innerJoin(tweet, eq(tweet.id, tweetTopic.tweetId))
+    .where(and(inArray(tweetTopic.accountId, accountIds), gte(tweet.tweetCreatedAt, windowStart)))
+    .orderBy(asc(tweet.tweetCreatedAt));
+
+  const adoptersByTheme = new Map<string, Array<Omit<ThemeAdopter, "lagDays">>>();
+
+  for (const row of rows) {
+    const handle = handles.get(row.accountId);
+    if (!handle) continue;
+
+    // Rows are oldest first, so an account's first row starts its coverage
+    // unless it already has earlier assigned tweets
+    if (!coverageStarts.has(row.accountId)) coverageStarts.set(row.accountId, row.tweetCreatedAt);
+
+    const themeId = themeByTopic.get(`${row.accountId}:${row.topicId}`);
+    if (!themeId || adoptedEarlier.has(themeId)) continue;
+
+    const key = `${row.accountId}:${themeId}`;
+    const mentions = (mentionCounts.get(key) ?? 0) + 1;
+    mentionCounts.set(key, mentions);
+    if (mentions !== SIGNIFICANT_MENTION_TWEETS) continue;
+
+    // Rows are oldest first, so adopters are appended in adoption order
+    const adopters = adoptersByTheme.get(themeId) ?? [];
+    adopters.push({ accountId: row.accountId, handle, firstMentionAt: row.tweetCreatedAt });
+    adoptersByTheme.set(themeId, adopters);
+  }
+
+  return { adoptersByTheme, coveredSince: Math.max(0, ...coverageStarts.values()) };
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const upper = sorted[mid] ?? 0;
+  return sorted.length % 2 === 0 ? ((sorted[mid - 1] ?? upper) + upper) / 2 : upper;
+}
+
+/**
+ * Order accounts by when they first significantly mentioned each emerging theme,
+ * and score how early each account tends to be.
+ *
+ * A theme is emerging when its first adopter's significant mention falls within the
+ * last `lookbackDays` days (default 365) and at least MIN_THEME_ADOPTERS accounts
+ * (of `accountIds`, null = all) mention it. Themes that emerged before every account's
+ * tweet topic coverage began are left out, since their adoption order is unknown.
+ * In a theme with n adopters the account at position r (0 = first) scores
+ * (n - 1 - r) / (n - 1); an account's early adopter score is its mean over the themes
+ * it adopted. History replays the score theme by theme in order of emergence, so a
+ * rising line means the account got earlier.
+ */
+export async function getEarlyAdopterAnalysis(options: {
+  accountIds: string[] | null;
+  lookbackDays?: number;
+  themeLimit?: number;
+  leaderboardLimit?: number;
+}): Promise<EarlyAdopterAnalysis> {
+  const capturedAt = await getLatestThemeCapture();
+  if (capturedAt === null) return { themes: [], leaderboard: [] };
+
+  const capture = await getThemeCapture(capturedAt, options.accountIds);
+  if (capture.length === 0) return { themes: [], leaderboard: [] };
+
+  const windowStart =
+    Math.floor(Date.now() / 1000) - (options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS) * DAY_SECONDS;
+  const { adoptersByTheme, coveredSince } = await findFirstMentions(capture, windowStart);
+  const since = Math.max(coveredSince, windowStart);
+
+  const emerging = [...adoptersByTheme].flatMap(([themeId, adopters]) => {
+    const emergedAt = adopters[0]?.firstMentionAt;
+    return adopters.length >= MIN_THEME_ADOPTERS && emergedAt !== undefined && emergedAt >= since
+      ? [{ themeId, adopters, emergedAt }]
+      : [];
+  });
+
+  const themeRows =
+    emerging.length > 0
+      ? await db
+          .select({ id: theme.id, label: theme.label })
+          .from(theme)
+          .where(
+            inArray(
+              theme.id,
+              emerging.map((e) => e.themeId),
+            ),
+          )
+      : [];
+  const labelById = new Map(themeRows.map((t) => [t.id, t.label]));
+
+  const themes: EmergingTheme[] = emerging
+    .map(({ themeId, adopters, emergedAt }) => ({
+      themeId,
+      label: labelById.get(themeId) ?? "Uncategorized",
+      emergedAt,
+      adopters: adopters.map((a) => ({
+        ...a,
+        lagDays: (a.firstMentionAt - emergedAt) / DAY_SECONDS,
+      })),
+    }))
+    .sort((a, b) => a.emergedAt - b.emergedAt);
+
+  // Replay themes in order of emergence, accumulating each account's placements
+  const placements = new Map<
+    string,
+    {
+      handle: string;
+      percentiles: number[];
+      leads: number[];
+      history: EarlyAdopterScore["history"];
+    }
+  >();
+
+  for (const t of themes) {
+    const n = t.adopters.length;
+    const medianMentionAt = median(t.adopters.map((a) => a.firstMentionAt));
+
+    for (const [position, adopter] of t.adopters.entries()) {
+      const entry = placements.get(adopter.accountId) ?? {
+        handle: adopter.handle,
+        percentiles: [],
+        leads: [],
+        history: [],
+      };
+      entry.percentiles.push((n - 1 - position) / (n - 1));
+      entry.leads.push((medianMentionAt - adopter.firstMentionAt) / DAY_SECONDS);
+      entry.history.push({
+        at: t.emergedAt,
+        score: entry.percentiles.reduce((sum, p) => sum + p, 0) / entry.percentiles.length,
+      });
+      placements.set(adopter.accountId, entry);
+    }
+  }
+
+  const leaderboard: EarlyAdopterScore[] = [...placements]
+    .filter(([, entry]) => entry.percentiles.length >= MIN_SCORED_THEMES)
+    .map(([accountId, entry]) => ({
+      accountId,
+      handle: entry.handle,
+      score: entry.percentiles.reduce((sum, p) => sum + p, 0) / entry.percentiles.length,
+      themesAdopted: entry.percentiles.length,
+      themesLed: entry.percentiles.filter((p) => p === 1).length,
+      averageLeadDays: entry.leads.reduce((sum, d) => sum + d, 0) / entry.leads.length,
+      history: entry.history,
+    }))
+    .sort((a, b) => b.score - a.score || b.themesAdopted - a.themesAdopted);
+
+  return {
+    themes: themes.reverse().slice(0, options.themeLimit ?? 10),
+    leaderboard: leaderboard.slice(0, options.leaderboardLimit ?? 20),
+  };
+}
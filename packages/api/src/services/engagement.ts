@@ -0,0 +1,172 @@
+import { db } from "@trend-x/db";
+import { tweet, tweetEngagementSnapshot } from "@trend-x/db/schema";
+import { and, asc, eq, gte, inArray, max } from "drizzle-orm";
+
+export interface EngagementCounts {
+  likeCount: number;
+  retweetCount: number;
+  replyCount: number;
+}
+
+export interface EngagementSnapshot extends EngagementCounts {
+  capturedAt: number; // Unix timestamp
+}
+
+export interface EngagementVelocity {
+  likesPerHour: number;
+  retweetsPerHour: number;
+  repliesPerHour: number;
+  windowHours: number; // Span the rates were measured over
+}
+
+// ---------------------------------------------------------------------------
+// Re-poll schedule
+// ---------------------------------------------------------------------------
+
+const HOUR_SECONDS = 60 * 60;
+
+// Keep multi-row inserts well under SQLite's bound-parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+// Engagement moves fastest right after posting, so young tweets are re-polled
+// often and the interval widens with age. Older tweets are no longer re-polled.
+const POLL_SCHEDULE: Array<{ maxAgeHours: number; intervalHours: number }> = [
+  { maxAgeHours: 6, intervalHours: 1 },
+  { maxAgeHours: 24, intervalHours: 3 },
+  { maxAgeHours: 72, intervalHours: 12 },
+  { maxAgeHours: 168, intervalHours: 24 },
+];
+
+/** Tweets older than this are no longer re-polled (last POLL_SCHEDULE step, 7 days) */
+export const ENGAGEMENT_POLL_MAX_AGE_SECONDS = 168 * HOUR_SECONDS;
+
+/**
+ * Get the re-poll interval for a tweet of the given age, or null once it is too old to poll.
+ */
+export function getPollIntervalSeconds(ageSeconds: number): number | null {
+  const step = POLL_SCHEDULE.find((s) => ageSeconds < s.maxAgeHours * HOUR_SECONDS);
+  return step ? step.intervalHours * HOUR_SECONDS : null;
+}
+
+/**
+ * Find an account's tweets whose engagement is due for a re-poll:
+ * young enough to be on the schedule and last captured at least one interval ago.
+ * Returned newest-first.
+ */
+export async function getTweetsDueForPoll(
+  accountId: string,
+  now: number = Math.floor(Date.now() / 1000),
+): Promise<Array<{ id: string; tweetCreatedAt: number }>> {
+  const recent = await db
+    .select({ id: tweet.id, tweetCreatedAt: tweet.tweetCreatedAt })
+    .from(tweet)
+    .where(
+      and(
+        eq(tweet.accountId, accountId),
+        gte(tweet.tweetCreatedAt, now - ENGAGEMENT_POLL_MAX_AGE_SECONDS),
+      ),
+    );
+
+  if (recent.length === 0) return [];
+
+  const lastCaptured = await db
+    .select({
+      tweetId: tweetEngagementSnapshot.tweetId,
+      capturedAt: max(tweetEngagementSnapshot.capturedAt),
+    })
+    .from(tweetEngagementSnapshot)
+    .where(
+      inArray(
+        tweetEngagementSnapshot.tweetId,
+        recent.map((t) => t.id),
+      ),
+    )
+    .groupBy(tweetEngagementSnapshot.tweetId);
+
+  const lastCapturedById = new Map(lastCaptured.map((r) => [r.tweetId, r.capturedAt ?? 0]));
+
+  return recent
+    .filter((t) => {
+      const interval = getPollIntervalSeconds(now - t.tweetCreatedAt);
+      if (interval === null) return false;
+      return now - (lastCapturedById.get(t.id) ?? 0) >= interval;
+    })
+    .sort((a, b) => b.tweetCreatedAt - a.tweetCreatedAt);
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots
+// ---------------------------------------------------------------------------
+
+/**
+ * Record the current engagement counts for a batch of tweets.
+ */
+export async function recordEngagementSnapshots(
+  accountId: string,
+  tweets: Array<{ id: string } & Partial<EngagementCounts>>,
+  capturedAt: number = Math.floor(Date.now() / 1000),
+): Promise<void> {
+  const rows = tweets.map((t) => ({
+    tweetId: t.id,
+    accountId,
+    likeCount: t.likeCount ?? 0,
+    retweetCount: t.retweetCount ?? 0,
+    replyCount: t.replyCount ?? 0,
+    capturedAt,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(tweetEngagementSnapshot).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+}
+
+/**
+ * Get the engagement history for a tweet, oldest first.
+ */
+export async function getEngagementHistory(tweetId: string): Promise<EngagementSnapshot[]> {
+  return db
+    .select({
+      likeCount: tweetEngagementSnapshot.likeCount,
+      retweetCount: tweetEngagementSnapshot.retweetCount,
+      replyCount: tweetEngagementSnapshot.replyCount,
+      capturedAt: tweetEngagementSnapshot.capturedAt,
+    })
+    .from(tweetEngagementSnapshot)
+    .where(eq(tweetEngagementSnapshot.tweetId, tweetId))
+    .orderBy(asc(tweetEngagementSnapshot.capturedAt));
+}
+
+// ---------------------------------------------------------------------------
+// Velocity
+// ---------------------------------------------------------------------------
+
+/**
+ * Calculate current engagement velocity from a tweet's snapshots (oldest first).
+ * Uses the two most recent snapshots; with a single snapshot, measures from
+ * the tweet's creation (when all counts were zero).
+ * Returns null when there is no usable time span.
+ */
+export function calculateEngagementVelocity(
+  snapshots: EngagementSnapshot[],
+  tweetCreatedAt: number,
+): EngagementVelocity | null {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) return null;
+
+  const previous: EngagementSnapshot = snapshots[snapshots.length - 2] ?? {
+    likeCount: 0,
+    retweetCount: 0,
+    replyCount: 0,
+    capturedAt: tweetCreatedAt,
+  };
+
+  const windowHours = (latest.capturedAt - previous.capturedAt) / HOUR_SECONDS;
+  if (windowHours <= 0) return null;
+
+  return {
+    likesPerHour: (latest.likeCount - previous.likeCount) / windowHours,
+    retweetsPerHour: (latest.retweetCount - previous.retweetCount) / windowHours,
+    repliesPerHour: (latest.replyCount - previous.replyCount) / windowHours,
+    windowHours,
+  };
+}
@@ -2,6 +2,7 @@ import { db } from "@trend-x/db";
 import { topicDriftBuffer, tweet as tweetTable } from "@trend-x/db/schema";
 import { eq, inArray } from "drizzle-orm";
 import {
+  calculateWeightedCentroid,
   cosineSimilarity,
   clusterTweets,
   labelTopics,
@@ -11,10 +12,12 @@ import {
 } from "./analysis";
 import {
   getOrCreateProfile,
+  isCuratedTopic,
   updateProfile,
   type ProfileTopic,
 } from "./profile";
 import { logProfileActivity } from "./profile-activity";
+import { recordTopicAssignments, type TopicAssignment } from "./tweet-topics";
 
 // --- Configuration ---
 
@@ -33,6 +36,8 @@ export interface TweetForClassification {
   tweetCreatedAt: number;
   /** Enriched text including quoted content for quote tweets */
   enrichedText?: string;
+  /** Type weight from the account's ingestion policy (default 1, 0 = ignored in analysis) */
+  weight?: number;
 }
 
 export interface ClassificationResult {
@@ -55,18 +60,23 @@ export interface ClassificationResult {
 /**
  * Classify tweets incrementally against a live account profile.
  *
- * For each tweet:
+ * Tweets whose type weight is 0 are skipped entirely. For each remaining tweet:
  * 1. Compute cosine similarity to all existing topic centroids
  * 2. If best match >= 0.75 threshold, assign to that topic and update centroid
+ *    (the tweet's type weight scales how far it pulls the centroid and how much
+ *    it adds to the topic's count, which drives proportions)
  * 3. If no match, add to drift buffer
  * 4. If drift buffer exceeds 50 tweets, trigger re-clustering
  *
- * Updates profile topics and totalTweetsProcessed after classification.
+ * Updates profile topics and totalTweetsProcessed after classification,
+ * and records each matched tweet's topic.
  */
 export async function classifyTweetsIncremental(
   accountId: string,
-  tweets: TweetForClassification[],
+  classifiable: TweetForClassification[],
 ): Promise<ClassificationResult> {
+  // Weight 0 means the tweet type is stored but ignored in analysis
+  const tweets = classifiable.filter((t) => t.weight !== 0);
   if (tweets.length === 0) {
     return { matched: [], drifted: [], totalProcessed: 0, newTopicsCreated: 0 };
   }
@@ -74,9 +84,9 @@ export async function classifyTweetsIncremental(
   const profile = await getOrCreateProfile(accountId);
   const topics = [...profile.topics]; // mutable copy
 
-  // First run: no existing topics, so cluster all tweets directly
-  if (topics.length === 0) {
-    return bootstrapTopics(accountId, profile.totalTweetsProcessed, tweets);
+  // First run (or a rebuild that kept only curated topics): cluster all tweets directly
+  if (topics.length === 0 || profile.totalTweetsProcessed === 0) {
+    return bootstrapTopics(accountId, profile.totalTweetsProcessed, tweets, topics);
   }
 
   const matched: ClassificationResult["matched"] = [];
@@ -101,7 +111,8 @@ export async function classifyTweetsIncremental(
       // Match found - update topic centroid with weighted average
       const topic = topics[bestTopicIdx]!;
       const n = topic.tweetCount;
-      const weight = 1 / (n + 1);
+      const typeWeight = tweet.weight ?? 1;
+      const weight = typeWeight / (n + typeWeight);
 
       // Weighted centroid update: new_centroid = (1 - weight) * old + weight * new
       const updatedCentroid = topic.centroid.map(
@@ -111,7 +122,7 @@ export async function classifyTweetsIncremental(
       topics[bestTopicIdx] = {
         ...topic,
         centroid: updatedCentroid,
-        tweetCount: n + 1,
+        tweetCount: n + typeWeight,
       };
 
       matched.push({
@@ -150,6 +161,11 @@ export async function classifyTweetsIncremental(
     totalTweetsProcessed: newTotal,
   });
 
+  await recordTopicAssignments(
+    accountId,
+    matched.map((m) => ({ tweetId: m.tweetId, topicId: m.topicId, similarity: m.similarity })),
+  );
+
   // Log classification activity
   await logProfileActivity(
     accountId,
@@ -192,7 +208,7 @@ export async function classifyTweetsIncremental(
  * 2. Re-cluster using k-means (reuse clusterTweets from analysis.ts)
  * 3. Label new clusters via LLM (reuse labelTopics)
  * 4. Classify sentiment (reuse classifySentiment)
- * 5. Add new topics to profile
+ * 5. Add new topics to profile and record the buffered tweets' topics
  * 6. Clear drift buffer
  *
  * Returns information about new topics created.
@@ -221,8 +237,8 @@ export async function processDriftBuffer(accountId: string): Promise<{
     }),
   );
 
-  // Cluster the buffered tweets
-  const clusters: ClusterResult[] = clusterTweets(tweetsForClustering);
+  // Cluster the buffered tweets (k chosen by silhouette score)
+  const { clusters, k, silhouette } = clusterTweets(tweetsForClustering);
 
   // Label each cluster via LLM
   // Note: labelTopics expects tweets with text. Since drift buffer doesn't store text,
@@ -238,6 +254,7 @@ export async function processDriftBuffer(accountId: string): Promise<{
     [];
   const profile = await getOrCreateProfile(accountId);
   const existingTopics = [...profile.topics];
+  const assignments: TopicAssignment[] = [];
 
   for (const cluster of clusters) {
     const label =
@@ -261,6 +278,7 @@ export async function processDriftBuffer(accountId: string): Promise<{
     };
 
     existingTopics.push(newTopic);
+    assignments.push(...clusterAssignments(cluster, newTopic.id));
     newTopics.push({
       id: newTopic.id,
       label: newTopic.label,
@@ -281,6 +299,7 @@ export async function processDriftBuffer(accountId: string): Promise<{
 
   // Update profile with merged topics
   await updateProfile(accountId, { topics: existingTopics });
+  await recordTopicAssignments(accountId, assignments);
 
   // Clear drift buffer for this account
   await db
@@ -291,11 +310,13 @@ export async function processDriftBuffer(accountId: string): Promise<{
   await logProfileActivity(
     accountId,
     "drift_buffer_processed",
-    `Processed drift buffer: ${bufferEntries.length} tweets yielded ${newTopics.length} new topics`,
+    `Processed drift buffer: ${bufferEntries.length} tweets yielded ${newTopics.length} new topics (${formatClusterSelection(k, silhouette)})`,
     {
       bufferSize: bufferEntries.length,
       newTopicCount: newTopics.length,
       newTopicLabels: newTopics.map((t) => t.label),
+      k,
+      silhouette,
     },
   );
 
@@ -319,11 +340,16 @@ export async function processDriftBuffer(accountId: string): Promise<{
  * Bootstrap topics on the first run by clustering all tweets at once.
  * Since there are no existing topics, incremental matching would send
  * everything to the drift buffer. Instead, cluster directly.
+ *
+ * Curated topics kept by a profile reset seed the result: each cluster that
+ * matches one keeps its id and flags (and its label when set manually), and
+ * curated topics no cluster matched are carried over with no tweets.
  */
 async function bootstrapTopics(
   accountId: string,
   previousTweetsProcessed: number,
   tweets: TweetForClassification[],
+  seedTopics: ProfileTopic[] = [],
 ): Promise<ClassificationResult> {
   const tweetsForClustering: TweetWithEmbedding[] = tweets.map((t) => ({
     id: t.id,
@@ -332,12 +358,24 @@ async function bootstrapTopics(
     tweetCreatedAt: t.tweetCreatedAt,
   }));
 
-  const clusters = clusterTweets(tweetsForClustering);
+  const { clusters, k, silhouette } = clusterTweets(tweetsForClustering);
   const labels = await labelTopics(clusters);
   const sentiments = await classifySentiment(clusters);
 
-  const totalTweetCount = tweets.length;
+  // Recompute centroids so lower-weighted tweet types pull them less
+  const weightById = new Map(tweets.map((t) => [t.id, t.weight ?? 1]));
+  for (const cluster of clusters) {
+    cluster.centroid = calculateWeightedCentroid(
+      cluster.tweets.map((t) => ({ embedding: t.embedding, weight: weightById.get(t.id) })),
+    );
+  }
+
+  // Counts are weighted too, so proportions follow the type weights
+  const weightOf = (id: string) => weightById.get(id) ?? 1;
+  const totalTweetCount = tweets.reduce((sum, t) => sum + weightOf(t.id), 0);
   const newTopics: ProfileTopic[] = [];
+  const assignments: TopicAssignment[] = [];
+  const seedByCluster = matchSeedTopics(clusters, seedTopics.filter(isCuratedTopic));
 
   for (const cluster of clusters) {
     const label =
@@ -347,51 +385,57 @@ async function bootstrapTopics(
       (s) => s.clusterId === cluster.clusterId,
     ) || { positive: 0.33, neutral: 0.34, negative: 0.33 };
 
-    newTopics.push({
-      id: crypto.randomUUID(),
-      label,
+    const seed = seedByCluster.get(cluster.clusterId);
+    const tweetCount = cluster.tweetIds.reduce((sum, id) => sum + weightOf(id), 0);
+    const topic: ProfileTopic = {
+      ...seed,
+      id: seed?.id ?? crypto.randomUUID(),
+      label: seed?.manualLabel ? seed.label : label,
       centroid: cluster.centroid,
-      proportion: cluster.tweetIds.length / totalTweetCount,
-      tweetCount: cluster.tweetIds.length,
+      proportion: totalTweetCount > 0 ? tweetCount / totalTweetCount : 0,
+      tweetCount,
       sentiment: {
         positive: sentiment.positive,
         neutral: sentiment.neutral,
         negative: sentiment.negative,
       },
-    });
+    };
+    newTopics.push(topic);
+    assignments.push(...clusterAssignments(cluster, topic.id));
   }
 
-  // Build matched result — every tweet belongs to a cluster
-  const matched: ClassificationResult["matched"] = [];
-  for (const cluster of clusters) {
-    const topic = newTopics.find(
-      (t) => t.label === (labels.find((l) => l.clusterId === cluster.clusterId)?.label || "Uncategorized"),
-    );
-    if (!topic) continue;
-    for (const tweetId of cluster.tweetIds) {
-      matched.push({
-        tweetId,
-        topicId: topic.id,
-        topicLabel: topic.label,
-        similarity: 1,
-      });
+  // Curated topics are never dropped, even when no cluster matched them
+  const seededIds = new Set(newTopics.map((t) => t.id));
+  for (const seed of seedTopics) {
+    if (isCuratedTopic(seed) && !seededIds.has(seed.id)) {
+      newTopics.push({ ...seed, proportion: 0, tweetCount: 0 });
     }
   }
 
+  // Build matched result — every tweet belongs to a cluster
+  const labelById = new Map(newTopics.map((t) => [t.id, t.label]));
+  const matched: ClassificationResult["matched"] = assignments.map((a) => ({
+    ...a,
+    topicLabel: labelById.get(a.topicId) ?? "Uncategorized",
+  }));
+
   const newTotal = previousTweetsProcessed + tweets.length;
   await updateProfile(accountId, {
     topics: newTopics,
     totalTweetsProcessed: newTotal,
   });
+  await recordTopicAssignments(accountId, assignments);
 
   await logProfileActivity(
     accountId,
     "topics_bootstrapped",
-    `Initial clustering: ${tweets.length} tweets into ${newTopics.length} topics`,
+    `Initial clustering: ${tweets.length} tweets into ${newTopics.length} topics (${formatClusterSelection(k, silhouette)})`,
     {
       totalProcessed: tweets.length,
       topicCount: newTopics.length,
       topicLabels: newTopics.map((t) => t.label),
+      k,
+      silhouette,
     },
   );
 
@@ -405,6 +449,54 @@ async function bootstrapTopics(
 
 // --- Helpers ---
 
+/**
+ * Describe how the cluster count was chosen, e.g. "k=4, silhouette 0.18".
+ */
+function formatClusterSelection(k: number, silhouette: number | null): string {
+  return silhouette === null ? `k=${k}` : `k=${k}, silhouette ${silhouette.toFixed(2)}`;
+}
+
+/**
+ * Pair clusters with seed topics by centroid similarity, most similar pairs first.
+ * Each seed and each cluster is used at most once, and only pairs at or above
+ * the match threshold count. Returns the matched seed per cluster id.
+ */
+function matchSeedTopics(
+  clusters: ClusterResult[],
+  seeds: ProfileTopic[],
+): Map<number, ProfileTopic> {
+  const pairs = clusters
+    .flatMap((cluster) =>
+      seeds.map((seed) => ({
+        cluster,
+        seed,
+        similarity: cosineSimilarity(cluster.centroid, seed.centroid),
+      })),
+    )
+    .filter((pair) => pair.similarity >= SIMILARITY_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  const seedByCluster = new Map<number, ProfileTopic>();
+  const usedSeeds = new Set<string>();
+  for (const { cluster, seed } of pairs) {
+    if (seedByCluster.has(cluster.clusterId) || usedSeeds.has(seed.id)) continue;
+    seedByCluster.set(cluster.clusterId, seed);
+    usedSeeds.add(seed.id);
+  }
+  return seedByCluster;
+}
+
+/**
+ * Topic assignments for every tweet in a cluster, scored against the cluster centroid.
+ */
+function clusterAssignments(cluster: ClusterResult, topicId: string): TopicAssignment[] {
+  return cluster.tweets.map((t) => ({
+    tweetId: t.id,
+    topicId,
+    similarity: cosineSimilarity(t.embedding, cluster.centroid),
+  }));
+}
+
 /**
  * Get the current drift buffer count for an account.
  */
@@ -0,0 +1,124 @@
+import { db } from "@trend-x/db";
+import { account } from "@trend-x/db/schema";
+import { eq } from "drizzle-orm";
+import { assertAccountWritable } from "./account-lifecycle";
+import type { SourceTweet } from "./sources/types";
+
+export type TweetType = "original" | "reply" | "retweet" | "quote";
+
+/**
+ * Per-account rules for which tweet types are stored and how much each type
+ * counts in topic classification and personality evaluation.
+ */
+export interface IngestionPolicy {
+  includeReplies: boolean;
+  includeRetweets: boolean;
+  includeQuotes: boolean;
+  weights: Record<TweetType, number>; // 0-1 multiplier, 0 = stored but ignored in analysis
+}
+
+// Matches the historical behavior: originals and quote tweets only, replies at half weight
+export const DEFAULT_INGESTION_POLICY: IngestionPolicy = {
+  includeReplies: false,
+  includeRetweets: false,
+  includeQuotes: true,
+  weights: {
+    original: 1,
+    reply: 0.5,
+    retweet: 0.5,
+    quote: 1,
+  },
+};
+
+/**
+ * Classify a fetched tweet. Retweets take precedence over replies, replies over quotes.
+ * Self-thread continuations (conversationId differs from id) count as replies.
+ */
+export function getTweetType(t: SourceTweet): TweetType {
+  if (t.text.startsWith("RT @")) return "retweet";
+  if (t.inReplyToStatusId || t.conversationId !== t.id) return "reply";
+  if (t.quotedTweet) return "quote";
+  return "original";
+}
+
+/**
+ * Classify a stored tweet row from its 0/1 type flags, with the same precedence as getTweetType.
+ */
+export function getTweetTypeFromFlags(flags: {
+  isRetweet: number;
+  isReply: number;
+  isQuoteTweet: number;
+}): TweetType {
+  if (flags.isRetweet === 1) return "retweet";
+  if (flags.isReply === 1) return "reply";
+  if (flags.isQuoteTweet === 1) return "quote";
+  return "original";
+}
+
+/**
+ * Keep only the tweet types the policy stores. Originals are always kept.
+ */
+export function filterTweetsByPolicy<T extends SourceTweet>(
+  tweets: T[],
+  policy: IngestionPolicy,
+): T[] {
+  return tweets.filter((t) => {
+    switch (getTweetType(t)) {
+      case "retweet":
+        return policy.includeRetweets;
+      case "reply":
+        return policy.includeReplies;
+      case "quote":
+        return policy.includeQuotes;
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Parse a stored policy, filling any missing fields from the defaults.
+ */
+export function parseIngestionPolicy(raw: string | null): IngestionPolicy {
+  if (!raw) return DEFAULT_INGESTION_POLICY;
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<IngestionPolicy>;
+    return {
+      ...DEFAULT_INGESTION_POLICY,
+      ...parsed,
+      weights: { ...DEFAULT_INGESTION_POLICY.weights, ...parsed.weights },
+    };
+  } catch {
+    return DEFAULT_INGESTION_POLICY;
+  }
+}
+
+/**
+ * Get the ingestion policy for an account (defaults if none is set).
+ */
+export async function getIngestionPolicy(accountId: string): Promise<IngestionPolicy> {
+  const [row] = await db
+    .select({ ingestionPolicy: account.ingestionPolicy })
+    .from(account)
+    .where(eq(account.id, accountId));
+
+  return parseIngestionPolicy(row?.ingestionPolicy ?? null);
+}
+
+/**
+ * Replace the ingestion policy for an account.
+ */
+export async function setIngestionPolicy(
+  accountId: string,
+  policy: IngestionPolicy,
+): Promise<IngestionPolicy> {
+  await assertAccountWritable(accountId);
+
+  await db
+    .update(account)
+    .set({ ingestionPolicy: JSON.stringify(policy) })
+    .where(eq(account.id, accountId));
+
+  return policy;
+}
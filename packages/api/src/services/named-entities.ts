@@ -0,0 +1,366 @@
+import { db } from "@trend-x/db";
+import { account, namedEntity, notification, tweet } from "@trend-x/db/schema";
+import { and, count, desc, eq, gte, inArray, isNotNull, isNull, lt, max, min } from "drizzle-orm";
+import { extractNamedEntities, type NamedEntityType } from "./analysis";
+
+export interface EntityMention {
+  type: NamedEntityType;
+  name: string;
+  normalizedName: string;
+  count: number; // Number of tweets mentioning the entity
+  firstMentionAt: number;
+  lastMentionAt: number;
+}
+
+export interface CrossAccountEntityMention {
+  type: NamedEntityType;
+  name: string;
+  normalizedName: string;
+  mentionCount: number; // Tweets mentioning the entity across all accounts
+  accounts: Array<{ accountId: string; handle: string; count: number }>; // Most mentions first
+}
+
+export interface NewEntity {
+  type: NamedEntityType;
+  name: string;
+  normalizedName: string;
+  tweetIds: string[];
+}
+
+export interface EntityExtractionResult {
+  tweetCount: number; // Tweets sent to the model
+  entityCount: number; // Entity rows written
+  newEntities: NewEntity[]; // Entities the account had never mentioned before
+  notificationIds: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// Keep IN (...) lists and multi-row inserts well below SQLite's variable limit
+const BATCH_SIZE = 500;
+
+// Extracted tweets an account needs before new entities are notified. Below this
+// the account's history is too thin to tell a new entity from an unseen old one.
+// Older tweets that were never extracted (stored before extraction shipped, or
+// imported from an archive) hold notifications back until backfillNamedEntities runs.
+const MIN_ENTITY_HISTORY_TWEETS = 50;
+
+// New entity notifications raised per extraction, most mentioned first
+const MAX_NEW_ENTITY_NOTIFICATIONS = 5;
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalize an entity name for grouping: lowercased with collapsed whitespace;
+ * tickers uppercased without a leading "$".
+ */
+export function normalizeEntityName(type: NamedEntityType, name: string): string {
+  const collapsed = name.trim().replace(/\s+/g, " ");
+  return type === "ticker" ? collapsed.replace(/^\$/, "").toUpperCase() : collapsed.toLowerCase();
+}
+
+/**
+ * Whether the account's tweets older than `before` have all been extracted, and
+ * enough of them to tell a new entity from an old one.
+ */
+async function hasExtractedHistory(accountId: string, before: number): Promise<boolean> {
+  const countOlder = async (extracted: boolean) => {
+    const [row] = await db
+      .select({ count: count() })
+      .from(tweet)
+      .where(
+        and(
+          eq(tweet.accountId, accountId),
+          lt(tweet.tweetCreatedAt, before),
+          extracted ? isNotNull(tweet.entitiesExtractedAt) : isNull(tweet.entitiesExtractedAt),
+        ),
+      );
+    return row?.count ?? 0;
+  };
+
+  return (await countOlder(false)) === 0 && (await countOlder(true)) >= MIN_ENTITY_HISTORY_TWEETS;
+}
+
+/**
+ * Find which of the given entities the account mentioned in tweets other than
+ * `excludeTweetIds`. Returns "type:normalizedName" keys.
+ */
+async function findKnownEntities(
+  accountId: string,
+  normalizedNames: string[],
+  excludeTweetIds: string[],
+): Promise<Set<string>> {
+  const excluded = new Set(excludeTweetIds);
+  const known = new Set<string>();
+  for (let i = 0; i < normalizedNames.length; i += BATCH_SIZE) {
+    const rows = await db
+      .select({
+        type: namedEntity.type,
+        normalizedName: namedEntity.normalizedName,
+        tweetId: namedEntity.tweetId,
+      })
+      .from(namedEntity)
+      .where(
+        and(
+          eq(namedEntity.accountId, accountId),
+          inArray(namedEntity.normalizedName, normalizedNames.slice(i, i + BATCH_SIZE)),
+        ),
+      );
+    for (const row of rows) {
+      if (!excluded.has(row.tweetId)) known.add(`${row.type}:${row.normalizedName}`);
+    }
+  }
+  return known;
+}
+
+/**
+ * Extract named entities from tweets that have not been processed yet and store
+ * them. Already extracted tweets are skipped, so a profile rebuild does not pay for
+ * them again. Tweets without text are marked extracted without a model call.
+ * Entities the account had never mentioned before raise an entity_new notification,
+ * once every older tweet has been extracted (see MIN_ENTITY_HISTORY_TWEETS).
+ * Pass `notify: false` when extracting history, which has nothing new to report.
+ */
+export async function extractAndStoreNamedEntities(
+  accountId: string,
+  tweets: Array<{ id: string; text: string; tweetCreatedAt: number }>,
+  options: { notify?: boolean } = {},
+): Promise<EntityExtractionResult> {
+  const pending = new Set<string>();
+  for (let i = 0; i < tweets.length; i += BATCH_SIZE) {
+    const rows = await db
+      .select({ id: tweet.id })
+      .from(tweet)
+      .where(
+        and(
+          inArray(
+            tweet.id,
+            tweets.slice(i, i + BATCH_SIZE).map((t) => t.id),
+          ),
+          isNull(tweet.entitiesExtractedAt),
+        ),
+      );
+    for (const row of rows) pending.add(row.id);
+  }
+
+  const toExtract = tweets.filter((t) => pending.has(t.id));
+  if (toExtract.length === 0) {
+    return { tweetCount: 0, entityCount: 0, newEntities: [], notificationIds: [] };
+  }
+
+  const notify =
+    options.notify !== false &&
+    (await hasExtractedHistory(
+      accountId,
+      toExtract.reduce((oldest, t) => Math.min(oldest, t.tweetCreatedAt), Number.POSITIVE_INFINITY),
+    ));
+  const extracted = await extractNamedEntities(toExtract.filter((t) => t.text.trim().length > 0));
+  const createdAtById = new Map(toExtract.map((t) => [t.id, t.tweetCreatedAt]));
+
+  // One row per tweet and entity; the model may name an entity twice in a tweet
+  const rows = new Map<string, typeof namedEntity.$inferInsert>();
+  for (const result of extracted) {
+    // The model may echo back an ID it was not sent
+    const tweetCreatedAt = createdAtById.get(result.tweetId);
+    if (tweetCreatedAt === undefined) continue;
+
+    for (const entity of result.entities) {
+      const normalizedName = normalizeEntityName(entity.type, entity.name);
+      rows.set(`${result.tweetId}:${entity.type}:${normalizedName}`, {
+        tweetId: result.tweetId,
+        accountId,
+        type: entity.type,
+        name: entity.name.trim(),
+        normalizedName,
+        tweetCreatedAt,
+      });
+    }
+  }
+
+  const values = [...rows.values()];
+  for (let i = 0; i < values.length; i += BATCH_SIZE) {
+    await db
+      .insert(namedEntity)
+      .values(values.slice(i, i + BATCH_SIZE))
+      .onConflictDoNothing();
+  }
+
+  const extractedIds = toExtract.map((t) => t.id);
+  const extractedAt = Math.floor(Date.now() / 1000);
+  for (let i = 0; i < extractedIds.length; i += BATCH_SIZE) {
+    await db
+      .update(tweet)
+      .set({ entitiesExtractedAt: extractedAt })
+      .where(inArray(tweet.id, extractedIds.slice(i, i + BATCH_SIZE)));
+  }
+
+  // Group this batch's mentions by entity to find the ones never seen before
+  const batchEntities = new Map<string, NewEntity>();
+  for (const row of values) {
+    const key = `${row.type}:${row.normalizedName}`;
+    const entry = batchEntities.get(key) ?? {
+      type: row.type as NamedEntityType,
+      name: row.name,
+      normalizedName: row.normalizedName,
+      tweetIds: [],
+    };
+    entry.tweetIds.push(row.tweetId);
+    batchEntities.set(key, entry);
+  }
+
+  let newEntities: NewEntity[] = [];
+  if (notify && batchEntities.size > 0) {
+    const known = await findKnownEntities(
+      accountId,
+      [...new Set(values.map((v) => v.normalizedName))],
+      extractedIds,
+    );
+    newEntities = [...batchEntities]
+      .filter(([key]) => !known.has(key))
+      .map(([, entity]) => entity)
+      .sort((a, b) => b.tweetIds.length - a.tweetIds.length);
+  }
+
+  const notificationIds = await createNewEntityNotifications(
+    accountId,
+    newEntities.slice(0, MAX_NEW_ENTITY_NOTIFICATIONS),
+  );
+
+  return {
+    tweetCount: toExtract.length,
+    entityCount: values.length,
+    newEntities,
+    notificationIds,
+  };
+}
+
+/**
+ * Create one entity_new notification per newly mentioned entity.
+ * Returns array of notification IDs.
+ */
+async function createNewEntityNotifications(
+  accountId: string,
+  entities: NewEntity[],
+): Promise<string[]> {
+  if (entities.length === 0) return [];
+
+  const rows = await db
+    .insert(notification)
+    .values(
+      entities.map((entity) => ({
+        accountId,
+        detectionRunId: null,
+        changeId: null,
+        title: `New Entity: ${entity.name}`,
+        explanation: `Mentioned the ${entity.type} "${entity.name}" for the first time, in ${entity.tweetIds.length} tweet${entity.tweetIds.length === 1 ? "" : "s"}.`,
+        changeType: "entity_new",
+        evidence: JSON.stringify(entity),
+      })),
+    )
+    .returning({ id: notification.id });
+
+  return rows.map((r) => r.id);
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Get an account's most mentioned named entities, optionally of one type and since
+ * a tweet creation time (inclusive). Sorted by tweet count, most frequent first.
+ */
+export async function getEntityMentions(
+  accountId: string,
+  options: { type?: NamedEntityType; since?: number; limit?: number } = {},
+): Promise<EntityMention[]> {
+  const tweetCount = count(namedEntity.tweetId);
+
+  const rows = await db
+    .select({
+      type: namedEntity.type,
+      name: max(namedEntity.name),
+      normalizedName: namedEntity.normalizedName,
+      count: tweetCount,
+      firstMentionAt: min(namedEntity.tweetCreatedAt),
+      lastMentionAt: max(namedEntity.tweetCreatedAt),
+    })
+    .from(namedEntity)
+    .where(
+      and(
+        eq(namedEntity.accountId, accountId),
+        options.type ? eq(namedEntity.type, options.type) : undefined,
+        options.since !== undefined ? gte(namedEntity.tweetCreatedAt, options.since) : undefined,
+      ),
+    )
+    .groupBy(namedEntity.type, namedEntity.normalizedName)
+    .orderBy(desc(tweetCount), desc(max(namedEntity.tweetCreatedAt)))
+    .limit(options.limit ?? 20);
+
+  return rows.map((r) => ({
+    type: r.type as NamedEntityType,
+    name: r.name ?? r.normalizedName,
+    normalizedName: r.normalizedName,
+    count: r.count,
+    firstMentionAt: r.firstMentionAt ?? 0,
+    lastMentionAt: r.lastMentionAt ?? 0,
+  }));
+}
+
+/**
+ * Get the named entities mentioned by the most accounts (of `accountIds`, null = all),
+ * optionally of one type and since a tweet creation time (inclusive).
+ * Sorted by account count, then tweet count.
+ */
+export async function getCrossAccountEntityMentions(options: {
+  accountIds: string[] | null;
+  type?: NamedEntityType;
+  since?: number;
+  limit?: number;
+}): Promise<CrossAccountEntityMention[]> {
+  const tweetCount = count(namedEntity.tweetId);
+
+  const rows = await db
+    .select({
+      type: namedEntity.type,
+      name: max(namedEntity.name),
+      normalizedName: namedEntity.normalizedName,
+      accountId: namedEntity.accountId,
+      handle: account.handle,
+      count: tweetCount,
+    })
+    .from(namedEntity)
+    .innerJoin(account, eq(account.id, namedEntity.accountId))
+    .where(
+      and(
+        options.accountIds ? inArray(namedEntity.accountId, options.accountIds) : undefined,
+        options.type ? eq(namedEntity.type, options.type) : undefined,
+        options.since !== undefined ? gte(namedEntity.tweetCreatedAt, options.since) : undefined,
+      ),
+    )
+    .groupBy(namedEntity.type, namedEntity.normalizedName, namedEntity.accountId);
+
+  const byEntity = new Map<string, CrossAccountEntityMention>();
+  for (const row of rows) {
+    const key = `${row.type}:${row.normalizedName}`;
+    const entry = byEntity.get(key) ?? {
+      type: row.type as NamedEntityType,
+      name: row.name ?? row.normalizedName,
+      normalizedName: row.normalizedName,
+      mentionCount: 0,
+      accounts: [],
+    };
+    entry.mentionCount += row.count;
+    entry.accounts.push({ accountId: row.accountId, handle: row.handle, count: row.count });
+    byEntity.set(key, entry);
+  }
+
+  return [...byEntity.values()]
+    .map((entity) => ({ ...entity, accounts: entity.accounts.sort((a, b) => b.count - a.count) }))
+    .sort((a, b) => b.accounts.length - a.accounts.length || b.mentionCount - a.mentionCount)
+    .slice(0, options.limit ?? 20);
+}
@@ -17,6 +17,14 @@ export function resetOpenAIClient(): void {
   resetProviderCache();
 }
 
+/**
+ * Get the currently configured embedding model.
+ * Used to key persisted embeddings so vectors from a previous model can be detected as stale.
+ */
+export async function getEmbeddingModel(): Promise<string> {
+  return getConfiguredModel("ai_embedding_model", "text-embedding-3-small");
+}
+
 export interface EmbeddingResult {
   text: string;
   embedding: number[];
@@ -31,7 +39,7 @@ export async function generateEmbeddings(texts: string[]): Promise<EmbeddingResu
   if (texts.length === 0) return [];
 
   const provider = await getProvider();
-  const model = await getConfiguredModel("ai_embedding_model", "text-embedding-3-small");
+  const model = await getEmbeddingModel();
 
   // Batch processing to stay within rate limits
   const BATCH_SIZE = 100;
@@ -5,7 +5,8 @@ import { z } from "zod";
 
 import { getProvider } from "./ai/provider-factory";
 import { trackTokenUsage } from "./ai/token-tracker";
-import { calculateTemporalWeight } from "./analysis";
+import { calculateTemporalWeight, calculateTweetWeight } from "./analysis";
+import { getIngestionPolicy, getTweetTypeFromFlags, type TweetType } from "./ingestion-policy";
 import { logProfileActivity } from "./profile-activity";
 import {
   getOrCreateProfile,
@@ -90,7 +91,7 @@ function extractQuotedText(rawJson: string | null): string | null {
  * are more likely to be selected when we need to subsample.
  *
  * Uses weighted reservoir sampling: each tweet gets a weight based on temporal
- * decay, then we select the top-weighted tweets up to maxCount.
+ * decay (times its type weight, if given), then we select the top-weighted tweets up to maxCount.
  */
 function sampleWithRecencyWeighting<
   T extends { tweetCreatedAt: number; weight?: number },
@@ -100,7 +101,10 @@ function sampleWithRecencyWeighting<
   // Assign weights and sort by weight descending
   const weighted = tweets.map((t) => ({
     tweet: t,
-    weight: calculateTemporalWeight(t.tweetCreatedAt, referenceTimestamp),
+    weight:
+      t.weight === undefined
+        ? calculateTemporalWeight(t.tweetCreatedAt, referenceTimestamp)
+        : calculateTweetWeight(t.tweetCreatedAt, referenceTimestamp, t.weight),
   }));
 
   weighted.sort((a, b) => b.weight - a.weight);
@@ -110,16 +114,19 @@ function sampleWithRecencyWeighting<
 
 /**
  * Format a tweet for the personality prompt.
- * Enriches quote tweets with the quoted content for better semantic signal.
+ * Enriches quote tweets with the quoted content for better semantic signal,
+ * and marks replies and retweets so they aren't read as original posts.
  */
 function formatTweetForPrompt(
   text: string,
-  isQuoteTweet: boolean,
+  type: TweetType,
   quotedText: string | null,
 ): string {
-  if (isQuoteTweet && quotedText) {
+  if (type === "quote" && quotedText) {
     return `${text}\n  [Quoting: "${quotedText}"]`;
   }
+  if (type === "reply") return `[Reply] ${text}`;
+  if (type === "retweet") return `[Retweet] ${text}`;
   return text;
 }
 
@@ -154,7 +161,8 @@ export function shouldReEvaluatePersonality(
  *
  * Process:
  * 1. Fetch recent tweets for the account
- * 2. Sample with recency weighting (all tweets considered, recent weighted more heavily)
+ * 2. Sample with recency weighting (all tweets considered, recent weighted more heavily,
+ *    scaled by the account's per-type weights)
  * 3. Enrich quote tweets with quoted content
  * 4. Send to LLM with structured JSON output instructions
  * 5. Parse and validate response with Zod
@@ -171,12 +179,14 @@ export async function evaluatePersonality(
   const model = await getConfiguredModel("ai_chat_model", "gpt-4o-mini");
 
   // 1. Fetch recent tweets (most recent first)
-  const tweets = await db
+  const recentTweets = await db
     .select({
       id: tweet.id,
       text: tweet.text,
       tweetCreatedAt: tweet.tweetCreatedAt,
       isQuoteTweet: tweet.isQuoteTweet,
+      isReply: tweet.isReply,
+      isRetweet: tweet.isRetweet,
       rawJson: tweet.rawJson,
     })
     .from(tweet)
@@ -184,6 +194,15 @@ export async function evaluatePersonality(
     .orderBy(desc(tweet.tweetCreatedAt))
     .limit(MAX_TWEETS_FOR_EVAL);
 
+  // Weight each tweet by its type; zero-weighted types are left out entirely
+  const policy = await getIngestionPolicy(accountId);
+  const tweets = recentTweets
+    .map((t) => {
+      const type = getTweetTypeFromFlags(t);
+      return { ...t, type, weight: policy.weights[type] };
+    })
+    .filter((t) => t.weight > 0);
+
   if (tweets.length === 0) {
     throw new Error(
       `No tweets found for account ${accountId}. Cannot evaluate personality.`,
@@ -198,11 +217,7 @@ export async function evaluatePersonality(
   const formattedTweets = sampled.map((t, i) => {
     const quotedText =
       t.isQuoteTweet === 1 ? extractQuotedText(t.rawJson) : null;
-    const formatted = formatTweetForPrompt(
-      t.text,
-      t.isQuoteTweet === 1,
-      quotedText,
-    );
+    const formatted = formatTweetForPrompt(t.text, t.type, quotedText);
     return `${i + 1}. ${formatted}`;
   });
 
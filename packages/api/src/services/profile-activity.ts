@@ -8,7 +8,13 @@ export type ActivityActionType =
   | "profile_updated"
   | "new_topic_detected"
   | "personality_evaluated"
-  | "drift_buffer_processed";
+  | "drift_buffer_processed"
+  | "archive_imported"
+  | "profile_metadata_changed"
+  | "monitoring_status_changed"
+  | "topics_merged"
+  | "topic_split"
+  | "topic_curated";
 
 export interface ActivityLogEntry {
   id: string;
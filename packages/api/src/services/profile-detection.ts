@@ -1,6 +1,6 @@
 import { db } from "@trend-x/db";
-import { config, notification } from "@trend-x/db/schema";
-import { and, eq, gte } from "drizzle-orm";
+import { config, notification, topicSnapshot } from "@trend-x/db/schema";
+import { and, eq, gte, lt } from "drizzle-orm";
 import { getProvider } from "./ai/provider-factory";
 import { trackTokenUsage } from "./ai/token-tracker";
 import {
@@ -23,7 +23,8 @@ export type ProfileChangeType =
   | "personality_drift"
   | "topic_emergence"
   | "topic_abandonment"
-  | "activity_anomaly";
+  | "activity_anomaly"
+  | "sentiment_shift";
 
 export interface DetectedProfileChange {
   type: ProfileChangeType;
@@ -123,6 +124,14 @@ export async function detectProfileChanges(
   );
   changes.push(...activityChanges);
 
+  // 4. Per-topic sentiment shifts against the topic's own history
+  const sentimentChanges = await detectSentimentShifts(
+    accountId,
+    profile.topics,
+    suppressedKeys,
+  );
+  changes.push(...sentimentChanges);
+
   // If no changes detected, return early
   if (changes.length === 0) {
     return {
@@ -276,6 +285,8 @@ function detectPersonalityDrift(
 /**
  * Detect topic emergence (new topics with >15% share) and
  * topic abandonment (topics that disappeared or dropped below threshold).
+ * Muted topics are skipped. Pinned topics are watched closely: their abandonment
+ * is flagged even below the 5% minimum share.
  */
 function detectTopicChanges(
   currentTopics: ProfileTopic[],
@@ -297,6 +308,7 @@ function detectTopicChanges(
 
   // Detect topic emergence: new topics with >15% share (strict >)
   for (const topic of currentTopics) {
+    if (topic.muted) continue;
     const suppressKey = `topic_emergence:${topic.label}`;
     if (suppressedKeys.has(suppressKey)) continue;
 
@@ -324,9 +336,12 @@ function detectTopicChanges(
     if (suppressedKeys.has(suppressKey)) continue;
 
     const currentTopic = currentMap.get(prevTopic.id);
+    if (prevTopic.muted || currentTopic?.muted) continue;
+    const minShare = prevTopic.pinned || currentTopic?.pinned ? 0 : 0.05;
+
     if (!currentTopic) {
       // Topic completely gone
-      if (prevTopic.proportion > 0.05) {
+      if (prevTopic.proportion > minShare) {
         // Only flag if it was non-trivial
         changes.push({
           type: "topic_abandonment",
@@ -346,7 +361,7 @@ function detectTopicChanges(
       const decreaseRatio =
         (prevTopic.proportion - currentTopic.proportion) /
         prevTopic.proportion;
-      if (decreaseRatio > 0.5 && prevTopic.proportion > 0.05) {
+      if (decreaseRatio > 0.5 && prevTopic.proportion > minShare) {
         changes.push({
           type: "topic_abandonment",
           dimension: prevTopic.label,
@@ -367,6 +382,111 @@ function detectTopicChanges(
   return changes;
 }
 
+// ---------------------------------------------------------------------------
+// Sentiment shift detection
+// ---------------------------------------------------------------------------
+
+// Baseline sentiment comes from topic snapshots between 30 and 7 days old
+const SENTIMENT_BASELINE_DAYS = 30;
+const SENTIMENT_RECENT_DAYS = 7;
+
+// Net sentiment (positive - negative share, -1..1) must move more than this
+const SENTIMENT_SHIFT_THRESHOLD = 0.3;
+
+function netSentiment(sentiment: ProfileTopic["sentiment"]): number {
+  return sentiment.positive - sentiment.negative;
+}
+
+/**
+ * Detect topics whose rolling sentiment moved away from their own history:
+ * current net sentiment vs the mean over the topic's snapshots from
+ * SENTIMENT_BASELINE_DAYS to SENTIMENT_RECENT_DAYS ago (at least two needed).
+ * Muted topics are skipped, and a topic is flagged at most once per
+ * SENTIMENT_RECENT_DAYS since the baseline moves slowly.
+ */
+async function detectSentimentShifts(
+  accountId: string,
+  currentTopics: ProfileTopic[],
+  suppressedKeys: Set<string>,
+): Promise<DetectedProfileChange[]> {
+  const now = Math.floor(Date.now() / 1000);
+  const recentStart = now - SENTIMENT_RECENT_DAYS * 24 * 60 * 60;
+
+  const snapshots = await db
+    .select({
+      topicId: topicSnapshot.topicId,
+      positive: topicSnapshot.sentimentPositive,
+      negative: topicSnapshot.sentimentNegative,
+    })
+    .from(topicSnapshot)
+    .where(
+      and(
+        eq(topicSnapshot.accountId, accountId),
+        gte(
+          topicSnapshot.capturedAt,
+          now - SENTIMENT_BASELINE_DAYS * 24 * 60 * 60,
+        ),
+        lt(topicSnapshot.capturedAt, recentStart),
+      ),
+    );
+
+  const baselineValues = new Map<string, number[]>();
+  for (const s of snapshots) {
+    const values = baselineValues.get(s.topicId) ?? [];
+    values.push(s.positive - s.negative);
+    baselineValues.set(s.topicId, values);
+  }
+
+  const recentShifts = await db
+    .select({ title: notification.title })
+    .from(notification)
+    .where(
+      and(
+        eq(notification.accountId, accountId),
+        eq(notification.changeType, "sentiment_shift"),
+        gte(notification.createdAt, recentStart),
+      ),
+    );
+  const recentlyShifted = new Set(
+    recentShifts.map((n) =>
+      extractDimensionFromTitle(n.title, "sentiment_shift"),
+    ),
+  );
+
+  const changes: DetectedProfileChange[] = [];
+  for (const topic of currentTopics) {
+    if (topic.muted) continue;
+    if (suppressedKeys.has(`sentiment_shift:${topic.label}`)) continue;
+    if (recentlyShifted.has(topic.label)) continue;
+
+    const values = baselineValues.get(topic.id) ?? [];
+    if (values.length < 2) continue;
+
+    const baseline = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const current = netSentiment(topic.sentiment);
+    const shift = current - baseline;
+
+    if (Math.abs(shift) > SENTIMENT_SHIFT_THRESHOLD) {
+      changes.push({
+        type: "sentiment_shift",
+        dimension: topic.label,
+        explanation: "", // Filled by LLM
+        beforeValue: Math.round(baseline * 100) / 100,
+        afterValue: Math.round(current * 100) / 100,
+        metadata: {
+          topicId: topic.id,
+          direction: shift > 0 ? "more_positive" : "more_negative",
+          shift,
+          baselineSnapshots: values.length,
+          sentiment: topic.sentiment,
+        },
+      });
+    }
+  }
+
+  return changes;
+}
+
 // ---------------------------------------------------------------------------
 // Activity anomaly detection
 // ---------------------------------------------------------------------------
@@ -546,6 +666,13 @@ function getFallbackExplanation(change: DetectedProfileChange): string {
       return `New topic "${change.dimension}" emerged with ${Math.round(Number(change.afterValue) * 100)}% share`;
     case "topic_abandonment":
       return `Topic "${change.dimension}" has been abandoned or significantly reduced`;
+    case "sentiment_shift": {
+      const direction =
+        change.metadata?.direction === "more_positive"
+          ? "more positive"
+          : "more negative";
+      return `Sentiment on "${change.dimension}" turned ${direction} than its recent baseline`;
+    }
     case "activity_anomaly": {
       const subType = (change.metadata?.subType as string) || "change";
       if (subType === "spike")
@@ -607,6 +734,8 @@ function generateNotificationTitle(
       return `New Topic: ${formatted}`;
     case "topic_abandonment":
       return `Topic Abandoned: ${formatted}`;
+    case "sentiment_shift":
+      return `Sentiment Shift: ${formatted}`;
     case "activity_anomaly":
       if (dimension.includes("spike")) return "Activity Spike";
       if (dimension.includes("drop")) return "Activity Drop";
@@ -1,5 +1,5 @@
 import { db } from "@trend-x/db";
-import { accountProfile } from "@trend-x/db/schema";
+import { accountProfile, topicDriftBuffer, topicSnapshot, tweetTopic } from "@trend-x/db/schema";
 import { eq } from "drizzle-orm";
 
 // Type definitions for JSON columns
@@ -9,8 +9,11 @@ export interface ProfileTopic {
   label: string;
   centroid: number[]; // Embedding vector
   proportion: number; // 0-1 share of tweets
-  tweetCount: number;
+  tweetCount: number; // Weighted by tweet type, so may be fractional
   sentiment: { positive: number; neutral: number; negative: number };
+  pinned?: boolean; // Set by an analyst: never merged away or split by topic maintenance
+  muted?: boolean; // Set by an analyst: no emergence or abandonment notifications
+  manualLabel?: boolean; // Label set by an analyst: never relabeled automatically
 }
 
 export interface PersonalityScores {
@@ -141,6 +144,62 @@ export async function updateProfile(
   return parseProfile(updated!);
 }
 
+/**
+ * Replace a profile's topics without touching lastUpdatedAt, which marks how far
+ * the profile update pipeline has processed tweets. For topic edits that must not
+ * move it (topic maintenance, manual curation, sentiment refresh).
+ */
+export async function updateProfileTopics(
+  accountId: string,
+  topics: ProfileTopic[],
+): Promise<void> {
+  await db
+    .update(accountProfile)
+    .set({ topics: JSON.stringify(topics) })
+    .where(eq(accountProfile.accountId, accountId));
+}
+
+/**
+ * Reset a profile to its initial state so the next profile update reprocesses
+ * every stored tweet (e.g. after importing an archive of older tweets).
+ * Clears personality, metrics, baselines, tweet topic assignments, topic
+ * snapshots and the topic drift buffer. Topics an analyst curated (pinned,
+ * muted or manually labeled) are kept with zeroed counts so the rebuild can
+ * carry them over; all other topics are cleared.
+ */
+export async function resetProfile(accountId: string): Promise<AccountProfileData> {
+  const profile = await getOrCreateProfile(accountId);
+  const curatedTopics = profile.topics
+    .filter(isCuratedTopic)
+    .map((topic) => ({ ...topic, proportion: 0, tweetCount: 0 }));
+
+  await db.delete(topicDriftBuffer).where(eq(topicDriftBuffer.accountId, accountId));
+  await db.delete(tweetTopic).where(eq(tweetTopic.accountId, accountId));
+  await db.delete(topicSnapshot).where(eq(topicSnapshot.accountId, accountId));
+
+  await db
+    .update(accountProfile)
+    .set({
+      topics: JSON.stringify(curatedTopics),
+      personality: "{}",
+      activityMetrics: "{}",
+      personalityBaseline: null,
+      totalTweetsProcessed: 0,
+      lastPersonalityEvalAt: null,
+      lastUpdatedAt: 0,
+    })
+    .where(eq(accountProfile.accountId, accountId));
+
+  return getOrCreateProfile(accountId);
+}
+
+/**
+ * Whether an analyst has curated this topic (pinned, muted or manually labeled).
+ */
+export function isCuratedTopic(topic: ProfileTopic): boolean {
+  return !!(topic.pinned || topic.muted || topic.manualLabel);
+}
+
 /**
  * Parse raw DB row into typed AccountProfileData.
  * All JSON parsing is handled internally - callers receive typed objects.
@@ -1,10 +1,12 @@
 import { db } from "@trend-x/db";
-import { account, scheduledJob } from "@trend-x/db/schema";
-import { eq } from "drizzle-orm";
+import { account, pipelineRun, scheduledJob } from "@trend-x/db/schema";
+import { and, eq, inArray, isNotNull, isNull, lte, max, or, sql } from "drizzle-orm";
 import { CronJob } from "cron";
 
 import { createJobRecord, executeJob } from "../jobs/executor";
 import "../jobs/index";
+import { getGroupAccountIds } from "./account-groups";
+import { rebuildThemes } from "./themes";
 
 /**
  * Active cron jobs - maps schedule ID to CronJob instance
@@ -12,17 +14,134 @@ import "../jobs/index";
 const activeCronJobs = new Map<string, CronJob>();
 
 /**
- * Fetch tweets for all accounts using job framework.
+ * Job types the scheduler can run, with the log verb used per account.
+ */
+export const SCHEDULABLE_JOBS: Record<string, string> = {
+  ingest: "Fetched tweets for",
+  engagement_poll: "Re-polled engagement for",
+  topic_maintenance: "Maintained topics for",
+};
+
+/**
+ * Default schedules, seeded for any job type that has no schedule row yet.
+ */
+const DEFAULT_SCHEDULES = [
+  { jobType: "ingest", cronExpression: "0 */6 * * *", label: "Tweet Fetch" },
+  { jobType: "engagement_poll", cronExpression: "30 * * * *", label: "Engagement Re-poll" },
+  { jobType: "topic_maintenance", cronExpression: "0 3 * * 0", label: "Topic Maintenance" },
+];
+
+/**
+ * Cadence tick - checks for accounts with a fetch cadence override that are due.
+ * Overrides are honoured to within this interval.
+ */
+const CADENCE_TICK_CRON = "*/5 * * * *";
+
+let cadenceCronJob: CronJob | null = null;
+let cadenceTickRunning = false;
+
+/**
+ * Theme rebuild - re-clusters all accounts' topics into cross-account themes daily.
+ */
+const THEME_REBUILD_CRON = "0 4 * * *";
+
+let themeCronJob: CronJob | null = null;
+
+/**
+ * Run a job for all active accounts (or the active accounts of one group) using job framework.
+ * Paused and archived accounts are skipped, as are accounts with their own fetch cadence
+ * when fetching tweets (those are fetched by the cadence tick).
  * Errors for individual accounts are logged and stored, but don't stop other accounts.
- * Each fetch runs via executeJob (synchronous execution).
+ * Each job runs via executeJob (synchronous execution).
+ */
+async function runJobForAccounts(jobType: string, accountTag: string | null): Promise<void> {
+  const scope = accountTag ? `group "${accountTag}"` : "all accounts";
+  console.log(`[Scheduler] Starting scheduled ${jobType} for ${scope}...`);
+
+  const groupAccountIds = await getGroupAccountIds(accountTag);
+  const accounts = await db
+    .select({ id: account.id, handle: account.handle })
+    .from(account)
+    .where(
+      and(
+        eq(account.status, "active"),
+        groupAccountIds ? inArray(account.id, groupAccountIds) : undefined,
+        jobType === "ingest" ? isNull(account.fetchIntervalMinutes) : undefined,
+      ),
+    );
+
+  await runJobForEach(jobType, accounts);
+}
+
+/**
+ * Fetch tweets for active accounts whose cadence override is due: never fetched by a job,
+ * or their last ingest job started at least fetchIntervalMinutes ago.
+ * Job start times are used rather than lastFetchedAt so failing accounts aren't retried every tick.
  */
-async function fetchAllAccounts(): Promise<void> {
-  console.log("[Scheduler] Starting scheduled fetch for all accounts...");
+async function runDueCadenceFetches(): Promise<void> {
+  // A slow tick (many due accounts) must not overlap the next one
+  if (cadenceTickRunning) return;
+  cadenceTickRunning = true;
 
-  const accounts = await db.select({ id: account.id, handle: account.handle }).from(account);
+  try {
+    const now = Math.floor(Date.now() / 1000);
+    const lastIngests = db
+      .select({
+        accountId: pipelineRun.accountId,
+        lastStartedAt: max(pipelineRun.startedAt).as("last_started_at"),
+      })
+      .from(pipelineRun)
+      .where(eq(pipelineRun.pipelineType, "ingest"))
+      .groupBy(pipelineRun.accountId)
+      .as("last_ingests");
 
+    const dueAccounts = await db
+      .select({ id: account.id, handle: account.handle })
+      .from(account)
+      .leftJoin(lastIngests, eq(lastIngests.accountId, account.id))
+      .where(
+        and(
+          eq(account.status, "active"),
+          isNotNull(account.fetchIntervalMinutes),
+          or(
+            isNull(lastIngests.lastStartedAt),
+            lte(sql`${lastIngests.lastStartedAt} + ${account.fetchIntervalMinutes} * 60`, now),
+          ),
+        ),
+      );
+
+    if (dueAccounts.length === 0) return;
+
+    console.log(`[Scheduler] ${dueAccounts.length} account(s) due on their own cadence`);
+    await runJobForEach("ingest", dueAccounts);
+  } finally {
+    cadenceTickRunning = false;
+  }
+}
+
+/**
+ * Rebuild the cross-account theme taxonomy. Failures are logged; the next run retries.
+ */
+async function runThemeRebuild(): Promise<void> {
+  try {
+    const result = await rebuildThemes();
+    console.log(
+      `[Scheduler] Rebuilt themes: ${result.themeCount} themes (${result.newThemeCount} new) from ${result.topicCount} topics`,
+    );
+  } catch (error) {
+    console.error("[Scheduler] Theme rebuild failed:", error);
+  }
+}
+
+/**
+ * Create and execute one job per account, one after another.
+ */
+async function runJobForEach(
+  jobType: string,
+  accounts: Array<{ id: string; handle: string }>,
+): Promise<void> {
   if (accounts.length === 0) {
-    console.log("[Scheduler] No accounts to fetch");
+    console.log("[Scheduler] No accounts to process");
     return;
   }
 
@@ -31,47 +150,58 @@ async function fetchAllAccounts(): Promise<void> {
 
   for (const acc of accounts) {
     try {
-      // Create and execute ingest job
-      const jobId = await createJobRecord("ingest", acc.id, { accountId: acc.id });
+      const jobId = await createJobRecord(jobType, acc.id, { accountId: acc.id });
       await executeJob(jobId);
 
-      console.log(`[Scheduler] Fetched tweets for @${acc.handle}`);
+      console.log(`[Scheduler] ${SCHEDULABLE_JOBS[jobType]} @${acc.handle}`);
       successCount++;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`[Scheduler] Error fetching @${acc.handle}: ${errorMessage}`);
+      console.error(`[Scheduler] Error running ${jobType} for @${acc.handle}: ${errorMessage}`);
 
       // Individual account failure doesn't stop other accounts
       errorCount++;
     }
   }
 
-  console.log(`[Scheduler] Fetch complete: ${successCount} success, ${errorCount} errors`);
+  console.log(`[Scheduler] ${jobType} complete: ${successCount} success, ${errorCount} errors`);
 }
 
 /**
  * Initialize the DB-driven scheduler.
  * Reads all enabled schedules from the database and creates CronJob instances.
- * Seeds default schedule (ingest every 6h) if table is empty.
+ * Seeds default schedules (ingest every 6h, engagement re-poll hourly, topic maintenance
+ * weekly) for missing job types, and starts the cadence tick for accounts with their own
+ * fetch cadence and the daily theme rebuild.
  */
 export async function initializeScheduler(): Promise<void> {
   console.log("[Scheduler] Initializing DB-driven scheduler...");
 
-  // Seed default schedule if table is empty
-  const existingSchedules = await db.select().from(scheduledJob);
-
-  if (existingSchedules.length === 0) {
-    console.log("[Scheduler] No schedules found, seeding default (ingest every 6h)");
-    await db.insert(scheduledJob).values({
-      jobType: "ingest",
-      cronExpression: "0 */6 * * *",
-      enabled: true,
-      label: "Tweet Fetch",
-    });
+  // Seed default schedules for job types without an all-accounts row
+  const existingSchedules = await db
+    .select()
+    .from(scheduledJob)
+    .where(isNull(scheduledJob.accountTag));
+  const existingTypes = new Set(existingSchedules.map((s) => s.jobType));
+
+  for (const schedule of DEFAULT_SCHEDULES) {
+    if (existingTypes.has(schedule.jobType)) continue;
+
+    console.log(
+      `[Scheduler] Seeding default schedule: ${schedule.label} (${schedule.cronExpression})`,
+    );
+    await db.insert(scheduledJob).values({ ...schedule, enabled: true });
   }
 
   // Load enabled schedules
   await refreshScheduler();
+
+  // Per-account cadence overrides run on their own tick, independent of DB schedules
+  cadenceCronJob?.stop();
+  cadenceCronJob = new CronJob(CADENCE_TICK_CRON, runDueCadenceFetches, null, true, "UTC");
+
+  themeCronJob?.stop();
+  themeCronJob = new CronJob(THEME_REBUILD_CRON, runThemeRebuild, null, true, "UTC");
 }
 
 /**
@@ -114,8 +244,8 @@ export async function refreshScheduler(): Promise<void> {
             .where(eq(scheduledJob.id, schedule.id));
 
           // Execute the job type
-          if (schedule.jobType === "ingest") {
-            await fetchAllAccounts();
+          if (schedule.jobType in SCHEDULABLE_JOBS) {
+            await runJobForAccounts(schedule.jobType, schedule.accountTag);
           } else {
             console.warn(`[Scheduler] Unknown job type: ${schedule.jobType}`);
           }
@@ -147,5 +277,9 @@ export function stopScheduler(): void {
     cronJob.stop();
   }
   activeCronJobs.clear();
+  cadenceCronJob?.stop();
+  cadenceCronJob = null;
+  themeCronJob?.stop();
+  themeCronJob = null;
   console.log("[Scheduler] Stopped all schedules");
 }
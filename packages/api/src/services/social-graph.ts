@@ -1,28 +1,24 @@
-import { TwitterClient } from "@steipete/bird";
-import type { FollowingResult } from "@steipete/bird";
 import { db } from "@trend-x/db";
 import {
   account,
-  config,
   socialConnection,
   socialSnapshot,
 } from "@trend-x/db/schema";
 import { and, desc, eq } from "drizzle-orm";
+import { isLiveSource, syncAccountIdentity } from "./account-identity";
+import { fetchCurrentProfile, recordProfileSnapshot } from "./account-profile-snapshots";
+import { getSocialSource } from "./sources/source-factory";
+import type {
+  ConnectionPageResult,
+  PageOptions,
+  SourceConnectionUser,
+} from "./sources/types";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export interface SocialConnectionData {
-  userId: string;
-  username: string;
-  displayName: string;
-  description: string | null;
-  followerCount: number | null;
-  followingCount: number | null;
-  isBlueVerified: boolean;
-  profileImageUrl: string | null;
-}
+export type SocialConnectionData = SourceConnectionUser;
 
 export interface ConnectionDiff {
   added: SocialConnectionData[];
@@ -44,44 +40,11 @@ export interface SocialSnapshotResult {
 // ---------------------------------------------------------------------------
 
 const PAGE_SIZE = 100;
-const PAGE_DELAY_MS = 1500;
 
-// ---------------------------------------------------------------------------
-// Twitter client
-// ---------------------------------------------------------------------------
-
-type FetchFn = (
+type FetchPageFn = (
   userId: string,
-  count?: number,
-  cursor?: string,
-) => Promise<FollowingResult>;
-
-/**
- * Load Twitter credentials from config table and create a TwitterClient.
- * Same pattern as debug-fetch-tweets.ts getClient().
- */
-async function getTwitterClient(): Promise<TwitterClient> {
-  const [authTokenRow] = await db
-    .select({ value: config.value })
-    .from(config)
-    .where(eq(config.key, "twitter_auth_token"));
-
-  const [ct0Row] = await db
-    .select({ value: config.value })
-    .from(config)
-    .where(eq(config.key, "twitter_ct0"));
-
-  if (!authTokenRow?.value || !ct0Row?.value) {
-    throw new Error("Missing Twitter credentials in config table");
-  }
-
-  return new TwitterClient({
-    cookies: {
-      authToken: authTokenRow.value,
-      ct0: ct0Row.value,
-    },
-  });
-}
+  options: PageOptions,
+) => Promise<ConnectionPageResult>;
 
 // ---------------------------------------------------------------------------
 // Paginated fetching
@@ -89,13 +52,14 @@ async function getTwitterClient(): Promise<TwitterClient> {
 
 /**
  * Paginated fetch — always fetches the complete list.
+ * Pages are paced by the source (Bird requests wait on the shared rate-limit budget).
  *
- * @param fetchFn - Bird client method (getFollowing or getFollowers)
+ * @param fetchPage - Social source method (getFollowingPage or getFollowersPage)
  * @param userId - Twitter user ID to fetch connections for
  * @param label - Label for logging ("following" | "followers")
  */
 async function fetchAllPaged(
-  fetchFn: FetchFn,
+  fetchPage: FetchPageFn,
   userId: string,
   label: string,
   options?: {
@@ -114,7 +78,7 @@ async function fetchAllPaged(
       `  Fetching ${label} page ${page}${cursor ? ` (cursor: ${cursor.slice(0, 20)}...)` : ""}...`,
     );
 
-    const result = await fetchFn(userId, PAGE_SIZE, cursor);
+    const result = await fetchPage(userId, { count: PAGE_SIZE, cursor });
 
     if (!result.success) {
       console.error(`  Error fetching ${label}: ${result.error}`);
@@ -126,30 +90,19 @@ async function fetchAllPaged(
     }
 
     for (const u of result.users) {
-      if (seenIds.has(u.id)) continue;
-      seenIds.add(u.id);
-      allUsers.push({
-        userId: u.id,
-        username: u.username,
-        displayName: u.name,
-        description: u.description ?? null,
-        followerCount: u.followersCount ?? null,
-        followingCount: u.followingCount ?? null,
-        isBlueVerified: u.isBlueVerified ?? false,
-        profileImageUrl: u.profileImageUrl ?? null,
-      });
+      if (seenIds.has(u.userId)) continue;
+      seenIds.add(u.userId);
+      allUsers.push(u);
     }
 
     console.log(
       `  Got ${result.users.length} users (total: ${allUsers.length})`,
     );
 
-    // Cursor termination: nextCursor starts with "0|" or is falsy
-    if (!result.nextCursor || result.nextCursor.startsWith("0|")) break;
+    // Cursor termination: sources return no nextCursor at the end of the list
+    if (!result.nextCursor) break;
     cursor = result.nextCursor;
 
-    await new Promise((r) => setTimeout(r, PAGE_DELAY_MS));
-
     // Report progress after each page
     await options?.onProgress?.(`Fetching ${label} page ${page} (${allUsers.length} users so far)`);
 
@@ -216,7 +169,7 @@ export async function fetchSocialSnapshot(
 
   // a. Look up account handle
   const [acct] = await db
-    .select({ handle: account.handle })
+    .select({ handle: account.handle, twitterUserId: account.twitterUserId })
     .from(account)
     .where(eq(account.id, accountId));
 
@@ -228,16 +181,26 @@ export async function fetchSocialSnapshot(
     ? acct.handle.slice(1)
     : acct.handle;
 
-  // b. Get Twitter client and resolve userId
-  const client = await getTwitterClient();
-  console.log(`Resolving @${handle}...`);
-  const lookup = await client.getUserIdByUsername(handle);
-  if (!lookup.success || !lookup.userId) {
-    throw new Error(
-      `Could not resolve Twitter user @${handle}: ${lookup.error}`,
-    );
+  // b. Get social source and resolve userId (live sources reuse the stored ID, so a
+  // renamed account keeps its connection history)
+  const source = await getSocialSource();
+  let userId: string;
+  if (acct.twitterUserId && isLiveSource(source.name)) {
+    userId = acct.twitterUserId;
+  } else {
+    console.log(`Resolving @${handle} via ${source.name}...`);
+    const lookup = await source.lookupUser(handle);
+    if (!lookup.success) {
+      throw new Error(
+        `Could not resolve Twitter user @${handle}: ${lookup.error}`,
+      );
+    }
+    userId = lookup.user.userId;
+    if (isLiveSource(source.name)) {
+      await syncAccountIdentity(accountId, lookup.user);
+    }
   }
-  console.log(`User ID: ${lookup.userId}`);
+  console.log(`User ID: ${userId}`);
 
   // c. Load active connections from DB for this account (both directions)
   const activeConnections = await db
@@ -271,8 +234,8 @@ export async function fetchSocialSnapshot(
   // d. Fetch following
   console.log(`\n[1/2] Fetching who @${handle} follows...`);
   const followingUsers = await fetchAllPaged(
-    client.getFollowing.bind(client),
-    lookup.userId,
+    source.getFollowingPage.bind(source),
+    userId,
     "following",
     options,
   );
@@ -281,8 +244,8 @@ export async function fetchSocialSnapshot(
   // e. Fetch followers
   console.log(`\n[2/2] Fetching who follows @${handle}...`);
   const followerUsers = await fetchAllPaged(
-    client.getFollowers.bind(client),
-    lookup.userId,
+    source.getFollowersPage.bind(source),
+    userId,
     "followers",
     options,
   );
@@ -435,7 +398,17 @@ export async function fetchSocialSnapshot(
       ` | +${followersDiff.added.length}/-${followersDiff.removed.length} followers`,
   );
 
-  // j. Return result
+  // j. Capture the account's own profile metadata (non-blocking, live sources only)
+  try {
+    const profile = await fetchCurrentProfile(userId);
+    if (profile) {
+      await recordProfileSnapshot(accountId, profile, "social_snapshot");
+    }
+  } catch (error) {
+    console.error("Profile snapshot failed (non-blocking):", error);
+  }
+
+  // k. Return result
   return {
     snapshotId: snapshotRow.id,
     followingCount: followingUserIds.size,
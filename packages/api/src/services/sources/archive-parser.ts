@@ -0,0 +1,111 @@
+import { compareTweetIds } from "./tweet-ids";
+import type { SourceTweet, SourceUser } from "./types";
+
+/** Tweet entry shape in the official archive's data/tweets.js */
+interface ArchiveTweet {
+  id_str?: string;
+  id?: string;
+  full_text?: string;
+  text?: string;
+  created_at?: string; // e.g. "Wed Oct 10 20:19:24 +0000 2018"
+  favorite_count?: string | number;
+  retweet_count?: string | number;
+  in_reply_to_status_id_str?: string;
+  in_reply_to_status_id?: string;
+  entities?: {
+    urls?: Array<{ url?: string; expanded_url?: string }>;
+  };
+}
+
+/** Account entry shape in the official archive's data/account.js */
+interface ArchiveAccount {
+  accountId?: string;
+  username?: string;
+  accountDisplayName?: string;
+}
+
+// Matches links to a status, used to spot quote tweets (the archive has no quoted_status field)
+const STATUS_URL_PATTERN = /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/\w+\/status\/(\d+)/i;
+
+/**
+ * Parse an archive data file (`window.YTD.<name>.part0 = [...]`) into its JSON array.
+ * Plain JSON arrays are accepted too.
+ */
+export function parseArchiveDataFile<T>(content: string): T[] {
+  const start = content.indexOf("[");
+  if (start === -1) {
+    throw new Error("Archive file does not contain a JSON array");
+  }
+  return JSON.parse(content.slice(start)) as T[];
+}
+
+/**
+ * Parse data/account.js into the archive owner's user record.
+ * Returns null when the file has no account entry.
+ */
+export function parseArchiveAccount(content: string): SourceUser | null {
+  const [entry] = parseArchiveDataFile<{ account?: ArchiveAccount }>(content);
+  const acc = entry?.account;
+  if (!acc?.accountId || !acc.username) return null;
+
+  return {
+    userId: acc.accountId,
+    username: acc.username,
+    name: acc.accountDisplayName ?? acc.username,
+  };
+}
+
+/**
+ * Parse data/tweets.js into SourceTweets (newest-first).
+ * Replies keep their parent as conversationId so filterTweetsByPolicy and the
+ * type-flag extraction treat them the same as live-fetched replies.
+ */
+export function parseArchiveTweets(
+  content: string,
+  author: { userId: string; username: string; name: string },
+): SourceTweet[] {
+  const entries = parseArchiveDataFile<{ tweet?: ArchiveTweet } & ArchiveTweet>(content);
+  const tweets: SourceTweet[] = [];
+
+  for (const entry of entries) {
+    const t = entry.tweet ?? entry;
+    const id = t.id_str ?? t.id;
+    const text = t.full_text ?? t.text;
+    if (!id || text === undefined) continue;
+
+    const inReplyToStatusId = t.in_reply_to_status_id_str ?? t.in_reply_to_status_id;
+    const createdAt = t.created_at ? new Date(t.created_at) : null;
+
+    // Quote tweets link to the quoted status in their URL entities
+    let quotedTweetId: string | undefined;
+    for (const url of t.entities?.urls ?? []) {
+      const match = url.expanded_url?.match(STATUS_URL_PATTERN);
+      if (match?.[1] && match[1] !== id) {
+        quotedTweetId = match[1];
+        break;
+      }
+    }
+
+    tweets.push({
+      id,
+      text,
+      createdAt:
+        createdAt && !Number.isNaN(createdAt.getTime())
+          ? createdAt.toISOString()
+          : new Date().toISOString(),
+      author: { username: author.username, name: author.name },
+      authorId: author.userId,
+      likeCount: Number(t.favorite_count ?? 0) || 0,
+      retweetCount: Number(t.retweet_count ?? 0) || 0,
+      replyCount: 0, // not included in archives
+      conversationId: inReplyToStatusId ?? id,
+      inReplyToStatusId,
+      quotedTweet: quotedTweetId ? { id: quotedTweetId, text: "" } : undefined,
+      urls: (t.entities?.urls ?? []).flatMap((u) =>
+        u.url && u.expanded_url ? [{ url: u.url, expandedUrl: u.expanded_url }] : [],
+      ),
+    });
+  }
+
+  return tweets.sort((a, b) => compareTweetIds(b.id, a.id));
+}
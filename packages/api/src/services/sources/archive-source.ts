@@ -0,0 +1,77 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArchiveAccount, parseArchiveTweets } from "./archive-parser";
+import type {
+  PageOptions,
+  SourceTweet,
+  SourceUser,
+  TimelinePageResult,
+  TweetSource,
+  UserLookupResult,
+} from "./types";
+
+/**
+ * Timeline source backed by extracted Twitter/X data archives, one per handle:
+ *
+ *   <dir>/<handle>/data/account.js
+ *   <dir>/<handle>/data/tweets.js
+ *
+ * Archives carry no follower/following lists, so this is a TweetSource only.
+ */
+export class ArchiveSource implements TweetSource {
+  name = "archive" as const;
+  private dir: string;
+  private timelines = new Map<string, SourceTweet[]>(); // userId -> parsed tweets (newest-first)
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async lookupUser(handle: string): Promise<UserLookupResult> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.dir);
+    } catch {
+      return { success: false, error: `Archive directory not readable: ${this.dir}` };
+    }
+
+    const match = entries.find((entry) => entry.toLowerCase() === handle.toLowerCase());
+    if (!match) {
+      return { success: false, error: `No archive for @${handle} in ${this.dir}` };
+    }
+
+    const dataDir = join(this.dir, match, "data");
+
+    let user: SourceUser | null = null;
+    try {
+      user = parseArchiveAccount(await readFile(join(dataDir, "account.js"), "utf-8"));
+    } catch {
+      // account.js is optional; fall back to the directory name below
+    }
+    user ??= { userId: `archive-${match.toLowerCase()}`, username: match, name: match };
+
+    try {
+      const content = await readFile(join(dataDir, "tweets.js"), "utf-8");
+      this.timelines.set(user.userId, parseArchiveTweets(content, user));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: `Could not read archive tweets for @${handle}: ${message}` };
+    }
+
+    return { success: true, user };
+  }
+
+  async getTimelinePage(userId: string, options: PageOptions): Promise<TimelinePageResult> {
+    const tweets = this.timelines.get(userId);
+    if (!tweets) return { success: false, error: `Unknown archive user ${userId}` };
+
+    const offset = options.cursor ? Number.parseInt(options.cursor, 10) || 0 : 0;
+    const end = offset + options.count;
+
+    return {
+      success: true,
+      tweets: tweets.slice(offset, end),
+      nextCursor: end < tweets.length ? String(end) : undefined,
+    };
+  }
+}
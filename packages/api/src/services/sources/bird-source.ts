@@ -0,0 +1,197 @@
+import type { FollowingResult, TweetData, TwitterUser } from "@steipete/bird";
+import { withTwitterCredential } from "../twitter-credentials";
+import type {
+  ConnectionPageResult,
+  ListMembersResult,
+  PageOptions,
+  SocialSource,
+  SourceConnectionUser,
+  SourceProfile,
+  SourceTweet,
+  SourceUser,
+  TimelinePageResult,
+  TweetSource,
+  UserLookupResult,
+} from "./types";
+
+// Bird's GraphQL typings only declare media entities; the payload carries links too
+type RawUrlEntities = { urls?: Array<{ url?: string; expanded_url?: string }> } | undefined;
+
+// Same for the author's profile fields beyond name and handle
+type RawUser = {
+  rest_id?: string;
+  is_blue_verified?: boolean;
+  legacy?: {
+    screen_name?: string;
+    name?: string;
+    description?: string;
+    location?: string;
+    url?: string;
+    entities?: { url?: { urls?: Array<{ expanded_url?: string }> } };
+    profile_image_url_https?: string;
+    pinned_tweet_ids_str?: string[];
+    verified?: boolean;
+  };
+  core?: { screen_name?: string; name?: string };
+  avatar?: { image_url?: string };
+  location?: { location?: string };
+  verification?: { verified?: boolean };
+};
+
+function toSourceProfile(raw: RawUser | undefined): SourceProfile | undefined {
+  const username = raw?.legacy?.screen_name ?? raw?.core?.screen_name;
+  if (!raw?.rest_id || !username) return undefined;
+
+  const legacy = raw.legacy;
+  return {
+    userId: raw.rest_id,
+    username,
+    displayName: legacy?.name ?? raw.core?.name ?? username,
+    description: legacy?.description || null,
+    location: legacy?.location || raw.location?.location || null,
+    website: legacy?.entities?.url?.urls?.[0]?.expanded_url || legacy?.url || null,
+    profileImageUrl: legacy?.profile_image_url_https ?? raw.avatar?.image_url ?? null,
+    pinnedTweetId: legacy?.pinned_tweet_ids_str?.[0] ?? null,
+    isVerified: !!(raw.is_blue_verified || legacy?.verified || raw.verification?.verified),
+  };
+}
+
+function toSourceTweet(t: TweetData): SourceTweet {
+  const rawUrls = (t._raw?.legacy?.entities as RawUrlEntities)?.urls ?? [];
+
+  return {
+    id: t.id,
+    text: t.text,
+    createdAt: t.createdAt ?? new Date().toISOString(),
+    author: {
+      username: t.author?.username ?? "",
+      name: t.author?.name ?? "",
+    },
+    authorId: t.authorId ?? "",
+    likeCount: t.likeCount ?? 0,
+    retweetCount: t.retweetCount ?? 0,
+    replyCount: t.replyCount ?? 0,
+    conversationId: t.conversationId ?? t.id,
+    inReplyToStatusId: t.inReplyToStatusId,
+    quotedTweet: t.quotedTweet ? { id: t.quotedTweet.id, text: t.quotedTweet.text } : undefined,
+    urls: rawUrls.flatMap((u) =>
+      u.url && u.expanded_url ? [{ url: u.url, expandedUrl: u.expanded_url }] : [],
+    ),
+    authorProfile: toSourceProfile(t._raw?.core?.user_results?.result as RawUser | undefined),
+  };
+}
+
+function toConnectionUser(u: TwitterUser): SourceConnectionUser {
+  return {
+    userId: u.id,
+    username: u.username,
+    displayName: u.name,
+    description: u.description ?? null,
+    followerCount: u.followersCount ?? null,
+    followingCount: u.followingCount ?? null,
+    isBlueVerified: u.isBlueVerified ?? false,
+    profileImageUrl: u.profileImageUrl ?? null,
+  };
+}
+
+function toConnectionPage(result: FollowingResult): ConnectionPageResult {
+  if (!result.success) {
+    return { success: false, error: result.error ?? "Unknown error fetching connections" };
+  }
+
+  // Bird signals the end of the list with a "0|..." cursor
+  const nextCursor =
+    result.nextCursor && !result.nextCursor.startsWith("0|") ? result.nextCursor : undefined;
+
+  return { success: true, users: (result.users ?? []).map(toConnectionUser), nextCursor };
+}
+
+/**
+ * Live Twitter/X source backed by the Bird GraphQL client (cookie auth).
+ * Each request rotates over the healthy sets in the credential pool and waits
+ * on the shared per-endpoint request budget.
+ */
+export class BirdSource implements TweetSource, SocialSource {
+  name = "bird" as const;
+
+  async lookupUser(handle: string): Promise<UserLookupResult> {
+    const lookup = await withTwitterCredential("user_lookup", (client) =>
+      client.getUserIdByUsername(handle),
+    );
+    if (!lookup.success || !lookup.userId) {
+      return { success: false, error: lookup.error || `Could not find user @${handle}` };
+    }
+
+    return {
+      success: true,
+      user: {
+        userId: lookup.userId,
+        username: lookup.username ?? handle,
+        name: lookup.name ?? handle,
+      },
+    };
+  }
+
+  async getTimelinePage(userId: string, options: PageOptions): Promise<TimelinePageResult> {
+    const result = await withTwitterCredential("timeline", (client) =>
+      client.getUserTweetsPaged(userId, options.count, {
+        maxPages: 1,
+        cursor: options.cursor,
+        includeRaw: true, // for link entities (t.co -> expanded URL) and author profiles
+      }),
+    );
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      tweets: (result.tweets ?? []).map(toSourceTweet),
+      nextCursor: result.nextCursor,
+    };
+  }
+
+  /**
+   * Members of a Twitter list, in order of their latest post.
+   * Bird has no list-members endpoint, so members are read off the list timeline:
+   * members who haven't posted within the fetched pages are missed.
+   */
+  async getListMembers(listId: string, maxPages: number): Promise<ListMembersResult> {
+    const result = await withTwitterCredential("timeline", (client) =>
+      client.getAllListTimeline(listId, { maxPages }),
+    );
+
+    if (!result.success) {
+      return { success: false, error: result.error ?? `Could not fetch list ${listId}` };
+    }
+
+    const members = new Map<string, SourceUser>();
+    for (const t of result.tweets ?? []) {
+      if (!t.authorId || !t.author?.username || members.has(t.authorId)) continue;
+      members.set(t.authorId, {
+        userId: t.authorId,
+        username: t.author.username,
+        name: t.author.name || t.author.username,
+      });
+    }
+
+    return { success: true, users: [...members.values()] };
+  }
+
+  async getFollowingPage(userId: string, options: PageOptions): Promise<ConnectionPageResult> {
+    return toConnectionPage(
+      await withTwitterCredential("connections", (client) =>
+        client.getFollowing(userId, options.count, options.cursor),
+      ),
+    );
+  }
+
+  async getFollowersPage(userId: string, options: PageOptions): Promise<ConnectionPageResult> {
+    return toConnectionPage(
+      await withTwitterCredential("connections", (client) =>
+        client.getFollowers(userId, options.count, options.cursor),
+      ),
+    );
+  }
+}
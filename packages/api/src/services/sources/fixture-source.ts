@@ -0,0 +1,123 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { compareTweetIds } from "./tweet-ids";
+import type {
+  ConnectionPageResult,
+  PageOptions,
+  SocialSource,
+  SourceConnectionUser,
+  SourceTweet,
+  TimelinePageResult,
+  TweetSource,
+  UserLookupResult,
+} from "./types";
+
+interface FixtureProfile {
+  userId: string;
+  username: string;
+  name: string;
+}
+
+/**
+ * Paginate an in-memory list using a numeric offset as the cursor.
+ */
+function paginate<T>(items: T[], options: PageOptions): { items: T[]; nextCursor?: string } {
+  const offset = options.cursor ? Number.parseInt(options.cursor, 10) || 0 : 0;
+  const end = offset + options.count;
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? String(end) : undefined,
+  };
+}
+
+/**
+ * Offline source reading a directory of JSON fixtures, one subdirectory per handle:
+ *
+ *   <dir>/<handle>/profile.json    { userId, username, name }
+ *   <dir>/<handle>/tweets.json     SourceTweet[]
+ *   <dir>/<handle>/following.json  SourceConnectionUser[] (optional)
+ *   <dir>/<handle>/followers.json  SourceConnectionUser[] (optional)
+ *
+ * Handles are matched case-insensitively. Tweets are served newest-first
+ * regardless of file order.
+ */
+export class FixtureSource implements TweetSource, SocialSource {
+  name = "fixture" as const;
+  private dir: string;
+  private userDirs = new Map<string, string>(); // userId -> fixture subdirectory
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private async readJson<T>(path: string, fallback: T): Promise<T> {
+    try {
+      return JSON.parse(await readFile(path, "utf-8")) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+      throw error;
+    }
+  }
+
+  async lookupUser(handle: string): Promise<UserLookupResult> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.dir);
+    } catch {
+      return { success: false, error: `Fixture directory not readable: ${this.dir}` };
+    }
+
+    const match = entries.find((entry) => entry.toLowerCase() === handle.toLowerCase());
+    if (!match) {
+      return { success: false, error: `No fixture for @${handle} in ${this.dir}` };
+    }
+
+    const userDir = join(this.dir, match);
+    const profile = await this.readJson<FixtureProfile | null>(join(userDir, "profile.json"), null);
+    const user = {
+      userId: profile?.userId ?? `fixture-${match.toLowerCase()}`,
+      username: profile?.username ?? match,
+      name: profile?.name ?? match,
+    };
+
+    this.userDirs.set(user.userId, userDir);
+    return { success: true, user };
+  }
+
+  private getUserDir(userId: string): string | null {
+    return this.userDirs.get(userId) ?? null;
+  }
+
+  async getTimelinePage(userId: string, options: PageOptions): Promise<TimelinePageResult> {
+    const userDir = this.getUserDir(userId);
+    if (!userDir) return { success: false, error: `Unknown fixture user ${userId}` };
+
+    const tweets = await this.readJson<SourceTweet[]>(join(userDir, "tweets.json"), []);
+    const sorted = [...tweets].sort((a, b) => compareTweetIds(b.id, a.id));
+    const page = paginate(sorted, options);
+
+    return { success: true, tweets: page.items, nextCursor: page.nextCursor };
+  }
+
+  private async getConnectionPage(
+    userId: string,
+    file: "following.json" | "followers.json",
+    options: PageOptions,
+  ): Promise<ConnectionPageResult> {
+    const userDir = this.getUserDir(userId);
+    if (!userDir) return { success: false, error: `Unknown fixture user ${userId}` };
+
+    const users = await this.readJson<SourceConnectionUser[]>(join(userDir, file), []);
+    const page = paginate(users, options);
+
+    return { success: true, users: page.items, nextCursor: page.nextCursor };
+  }
+
+  async getFollowingPage(userId: string, options: PageOptions): Promise<ConnectionPageResult> {
+    return this.getConnectionPage(userId, "following.json", options);
+  }
+
+  async getFollowersPage(userId: string, options: PageOptions): Promise<ConnectionPageResult> {
+    return this.getConnectionPage(userId, "followers.json", options);
+  }
+}
@@ -0,0 +1,99 @@
+import { db } from "@trend-x/db";
+import { config } from "@trend-x/db/schema";
+import { inArray } from "drizzle-orm";
+import { ArchiveSource } from "./archive-source";
+import { BirdSource } from "./bird-source";
+import { FixtureSource } from "./fixture-source";
+import type { SocialSource, SourceName, TweetSource } from "./types";
+
+const SOURCE_CONFIG_KEYS = ["tweet_source", "tweet_source_fixture_dir", "tweet_source_archive_dir"];
+
+// Instances are cached per config snapshot, so source changes take effect immediately.
+// Bird credentials come from the credential pool on every request (see twitter-credentials).
+let cachedSource: TweetSource | null = null;
+let cachedSourceKey: string | null = null;
+let cachedSocialSource: SocialSource | null = null;
+let cachedSocialSourceKey: string | null = null;
+
+async function getSourceConfig(): Promise<Map<string, string>> {
+  const rows = await db
+    .select({ key: config.key, value: config.value })
+    .from(config)
+    .where(inArray(config.key, SOURCE_CONFIG_KEYS));
+  return new Map(rows.map((r) => [r.key, r.value]));
+}
+
+function getRequiredDir(configMap: Map<string, string>, key: string, sourceName: string): string {
+  const dir = configMap.get(key);
+  if (!dir || dir.trim() === "") {
+    throw new Error(`Tweet source "${sourceName}" requires ${key} to be configured`);
+  }
+  return dir;
+}
+
+/**
+ * Get the active tweet source based on the `tweet_source` config key
+ * ("bird" | "archive" | "fixture", default "bird").
+ * Returns cached instance if the relevant config hasn't changed.
+ */
+export async function getTweetSource(): Promise<TweetSource> {
+  const configMap = await getSourceConfig();
+  const sourceName = (configMap.get("tweet_source") || "bird") as SourceName;
+  const cacheKey = JSON.stringify([sourceName, ...SOURCE_CONFIG_KEYS.map((k) => configMap.get(k))]);
+
+  if (cachedSource && cachedSourceKey === cacheKey) {
+    return cachedSource;
+  }
+
+  switch (sourceName) {
+    case "bird":
+      cachedSource = new BirdSource();
+      break;
+    case "archive":
+      cachedSource = new ArchiveSource(
+        getRequiredDir(configMap, "tweet_source_archive_dir", sourceName),
+      );
+      break;
+    case "fixture":
+      cachedSource = new FixtureSource(
+        getRequiredDir(configMap, "tweet_source_fixture_dir", sourceName),
+      );
+      break;
+    default:
+      throw new Error(`Unknown tweet source: ${sourceName}`);
+  }
+
+  cachedSourceKey = cacheKey;
+  return cachedSource;
+}
+
+/**
+ * Get the active social graph source based on the `tweet_source` config key.
+ * Archives carry no follower/following lists, so the archive source falls back to Bird.
+ */
+export async function getSocialSource(): Promise<SocialSource> {
+  const configMap = await getSourceConfig();
+  const sourceName = (configMap.get("tweet_source") || "bird") as SourceName;
+  const cacheKey = JSON.stringify([sourceName, ...SOURCE_CONFIG_KEYS.map((k) => configMap.get(k))]);
+
+  if (cachedSocialSource && cachedSocialSourceKey === cacheKey) {
+    return cachedSocialSource;
+  }
+
+  switch (sourceName) {
+    case "bird":
+    case "archive":
+      cachedSocialSource = new BirdSource();
+      break;
+    case "fixture":
+      cachedSocialSource = new FixtureSource(
+        getRequiredDir(configMap, "tweet_source_fixture_dir", sourceName),
+      );
+      break;
+    default:
+      throw new Error(`Unknown tweet source: ${sourceName}`);
+  }
+
+  cachedSocialSourceKey = cacheKey;
+  return cachedSocialSource;
+}
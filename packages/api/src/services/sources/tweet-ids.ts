@@ -0,0 +1,8 @@
+/**
+ * Compare two numeric tweet IDs (snowflakes) without losing precision.
+ * Returns a negative number if a < b, 0 if equal, positive if a > b.
+ */
+export function compareTweetIds(a: string, b: string): number {
+  if (a.length !== b.length) return a.length - b.length;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
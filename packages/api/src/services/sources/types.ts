@@ -0,0 +1,89 @@
+export type SourceName = "bird" | "archive" | "fixture";
+
+export interface SourceTweet {
+  id: string;
+  text: string;
+  createdAt: string; // ISO timestamp
+  author: { username: string; name: string };
+  authorId: string;
+  likeCount: number;
+  retweetCount: number;
+  replyCount: number;
+  conversationId: string;
+  inReplyToStatusId?: string;
+  quotedTweet?: { id: string; text: string };
+  urls?: Array<{ url: string; expandedUrl: string }>; // link entities, when the source has them
+  authorProfile?: SourceProfile; // author's profile as embedded in the tweet, when the source has it
+}
+
+export interface SourceUser {
+  userId: string;
+  username: string;
+  name: string;
+}
+
+/** Profile metadata of a user, as of the time it was fetched. */
+export interface SourceProfile {
+  userId: string;
+  username: string;
+  displayName: string;
+  description: string | null;
+  location: string | null;
+  website: string | null; // expanded profile link
+  profileImageUrl: string | null;
+  pinnedTweetId: string | null;
+  isVerified: boolean; // blue, business or legacy verification
+}
+
+export interface SourceConnectionUser {
+  userId: string;
+  username: string;
+  displayName: string;
+  description: string | null;
+  followerCount: number | null;
+  followingCount: number | null;
+  isBlueVerified: boolean;
+  profileImageUrl: string | null;
+}
+
+export type UserLookupResult =
+  | { success: true; user: SourceUser }
+  | { success: false; error: string };
+
+export type ListMembersResult =
+  | { success: true; users: SourceUser[] }
+  | { success: false; error: string };
+
+export type TimelinePageResult =
+  | { success: true; tweets: SourceTweet[]; nextCursor?: string }
+  | { success: false; error: string };
+
+export type ConnectionPageResult =
+  | { success: true; users: SourceConnectionUser[]; nextCursor?: string }
+  | { success: false; error: string };
+
+export interface PageOptions {
+  count: number;
+  cursor?: string;
+}
+
+/**
+ * Source of user timelines. Pages are newest-first; nextCursor is
+ * undefined once the timeline is exhausted.
+ */
+export interface TweetSource {
+  name: SourceName;
+  lookupUser(handle: string): Promise<UserLookupResult>;
+  getTimelinePage(userId: string, options: PageOptions): Promise<TimelinePageResult>;
+}
+
+/**
+ * Source of follower/following lists. nextCursor is undefined once
+ * the list is exhausted.
+ */
+export interface SocialSource {
+  name: SourceName;
+  lookupUser(handle: string): Promise<UserLookupResult>;
+  getFollowingPage(userId: string, options: PageOptions): Promise<ConnectionPageResult>;
+  getFollowersPage(userId: string, options: PageOptions): Promise<ConnectionPageResult>;
+}
@@ -0,0 +1,327 @@
+import { db } from "@trend-x/db";
+import { account, theme, themeAssignment } from "@trend-x/db/schema";
+import { and, eq, inArray, lt, lte, max, ne, notInArray } from "drizzle-orm";
+import { cosineSimilarity, labelThemes } from "./analysis";
+import { getProfileByAccountId } from "./profile";
+
+export interface ThemeRebuildResult {
+  themeCount: number;
+  newThemeCount: number;
+  topicCount: number;
+  accountCount: number;
+}
+
+export interface RankedTheme {
+  themeId: string;
+  label: string;
+  accountCount: number; // Accounts discussing the theme now
+  previousAccountCount: number | null; // At the comparison capture, null without one
+  growth: number | null; // accountCount - previousAccountCount
+  topics: Array<{ accountId: string; handle: string; topicLabel: string }>;
+}
+
+export interface ThemeRanking {
+  capturedAt: number | null; // Latest taxonomy rebuild, null before the first
+  comparedTo: number | null; // Rebuild the growth is measured against
+  themes: RankedTheme[];
+}
+
+interface TopicItem {
+  accountId: string;
+  topicId: string;
+  label: string;
+  centroid: number[];
+  tweetCount: number;
+}
+
+interface ThemeCenter {
+  id: string;
+  label: string;
+  centroid: number[];
+  isNew: boolean;
+  members: Array<{ item: TopicItem; similarity: number }>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// Topics at least this similar to a theme centroid belong to the theme
+const THEME_SIMILARITY_THRESHOLD = 0.8;
+
+// Older assignment captures are pruned on rebuild
+const ASSIGNMENT_RETENTION_DAYS = 90;
+
+const DEFAULT_GROWTH_WINDOW_DAYS = 7;
+
+// ---------------------------------------------------------------------------
+// Rebuild
+// ---------------------------------------------------------------------------
+
+function meanCentroid(vectors: number[][]): number[] {
+  const dim = vectors[0]?.length ?? 0;
+  const result = new Array<number>(dim).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < dim; i++) {
+      result[i] = (result[i] ?? 0) + (vector[i] ?? 0) / vectors.length;
+    }
+  }
+  return result;
+}
+
+/**
+ * Assign every topic to its most similar center at or above the threshold. With
+ * `allowNew`, topics without one start a new center; otherwise they stay with the
+ * center they had, or start a new one if they had none. Centers are then moved to
+ * the mean of their members.
+ */
+function assignToCenters(
+  items: TopicItem[],
+  centers: ThemeCenter[],
+  allowNew: boolean,
+): ThemeCenter[] {
+  const previous = new Map<TopicItem, ThemeCenter>();
+  for (const center of centers) {
+    for (const member of center.members) previous.set(member.item, center);
+    center.members = [];
+  }
+
+  for (const item of items) {
+    const kept = allowNew ? undefined : previous.get(item);
+    let best: { center: ThemeCenter; similarity: number } | null = null;
+    for (const center of centers) {
+      const similarity = cosineSimilarity(item.centroid, center.centroid);
+      if (!best || similarity > best.similarity) best = { center, similarity };
+    }
+
+    if (best && best.similarity >= THEME_SIMILARITY_THRESHOLD) {
+      best.center.members.push({ item, similarity: best.similarity });
+    } else if (kept) {
+      kept.members.push({ item, similarity: cosineSimilarity(item.centroid, kept.centroid) });
+    } else {
+      centers.push({
+        id: crypto.randomUUID(),
+        label: item.label,
+        centroid: item.centroid,
+        isNew: true,
+        members: [{ item, similarity: 1 }],
+      });
+    }
+  }
+
+  const used = centers.filter((c) => c.members.length > 0);
+  for (const center of used) {
+    center.centroid = meanCentroid(center.members.map((m) => m.item.centroid));
+  }
+  return used;
+}
+
+/**
+ * Rebuild the cross-account theme taxonomy from the topics of all monitored
+ * (non-archived) accounts.
+ *
+ * Topics are clustered by centroid similarity, seeded with the existing themes so
+ * surviving themes keep their ID and label: each topic joins the most similar theme
+ * at or above THEME_SIMILARITY_THRESHOLD or starts a new one, largest topics first.
+ * A second pass reassigns topics against the updated theme centroids. New themes
+ * spanning several topics are labeled by the chat model; themes left without topics
+ * are deleted. The mapping is appended as a new capture of theme assignments.
+ */
+export async function rebuildThemes(): Promise<ThemeRebuildResult> {
+  const accounts = await db
+    .select({ id: account.id })
+    .from(account)
+    .where(ne(account.status, "archived"));
+
+  const items: TopicItem[] = [];
+  for (const acc of accounts) {
+    const profile = await getProfileByAccountId(acc.id);
+    for (const topic of profile?.topics ?? []) {
+      items.push({
+        accountId: acc.id,
+        topicId: topic.id,
+        label: topic.label,
+        centroid: topic.centroid,
+        tweetCount: topic.tweetCount,
+      });
+    }
+  }
+  items.sort((a, b) => b.tweetCount - a.tweetCount);
+
+  const existing = await db.select().from(theme);
+  let centers: ThemeCenter[] = existing.map((t) => ({
+    id: t.id,
+    label: t.label,
+    centroid: JSON.parse(t.centroid) as number[],
+    isNew: false,
+    members: [],
+  }));
+
+  centers = assignToCenters(items, centers, true);
+  centers = assignToCenters(items, centers, false);
+
+  // Label new themes that group several topics; single-topic themes keep the topic's label
+  const toLabel = centers.filter((c) => c.isNew && c.members.length > 1);
+  const labels = await labelThemes(
+    toLabel.map((c, i) => ({
+      clusterId: i,
+      topicLabels: [...new Set(c.members.map((m) => m.item.label))],
+    })),
+  );
+  for (const [i, center] of toLabel.entries()) {
+    center.label = labels.find((l) => l.clusterId === i)?.label ?? center.label;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const keptIds = centers.map((c) => c.id);
+
+  await db.transaction(async (tx) => {
+    for (const center of centers) {
+      const values = {
+        label: center.label,
+        centroid: JSON.stringify(center.centroid),
+        topicCount: center.members.length,
+        accountCount: new Set(center.members.map((m) => m.item.accountId)).size,
+        updatedAt: now,
+      };
+      if (center.isNew) {
+        await tx.insert(theme).values({ id: center.id, ...values, createdAt: now });
+      } else {
+        await tx.update(theme).set(values).where(eq(theme.id, center.id));
+      }
+    }
+
+    await tx.delete(theme).where(keptIds.length > 0 ? notInArray(theme.id, keptIds) : undefined);
+
+    const rows = centers.flatMap((center) =>
+      center.members.map((m) => ({
+        themeId: center.id,
+        accountId: m.item.accountId,
+        topicId: m.item.topicId,
+        topicLabel: m.item.label,
+        similarity: m.similarity,
+        capturedAt: now,
+      })),
+    );
+    for (let i = 0; i < rows.length; i += 500) {
+      await tx.insert(themeAssignment).values(rows.slice(i, i + 500));
+    }
+
+    await tx
+      .delete(themeAssignment)
+      .where(lt(themeAssignment.capturedAt, now - ASSIGNMENT_RETENTION_DAYS * 24 * 60 * 60));
+  });
+
+  return {
+    themeCount: centers.length,
+    newThemeCount: centers.filter((c) => c.isNew).length,
+    topicCount: items.length,
+    accountCount: new Set(items.map((i) => i.accountId)).size,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Ranking
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the time of the latest taxonomy rebuild, null before the first.
+ */
+export async function getLatestThemeCapture(): Promise<number | null> {
+  const [latest] = await db
+    .select({ capturedAt: max(themeAssignment.capturedAt) })
+    .from(themeAssignment);
+  return latest?.capturedAt ?? null;
+}
+
+/**
+ * Load the assignments of one capture, optionally limited to some accounts.
+ */
+export async function getThemeCapture(capturedAt: number, accountIds: string[] | null) {
+  return db
+    .select({
+      themeId: themeAssignment.themeId,
+      accountId: themeAssignment.accountId,
+      handle: account.handle,
+      topicId: themeAssignment.topicId,
+      topicLabel: themeAssignment.topicLabel,
+    })
+    .from(themeAssignment)
+    .innerJoin(account, eq(account.id, themeAssignment.accountId))
+    .where(
+      and(
+        eq(themeAssignment.capturedAt, capturedAt),
+        accountIds ? inArray(themeAssignment.accountId, accountIds) : undefined,
+      ),
+    );
+}
+
+function countAccountsByTheme(rows: Array<{ themeId: string; accountId: string }>) {
+  const accountsByTheme = new Map<string, Set<string>>();
+  for (const row of rows) {
+    const accounts = accountsByTheme.get(row.themeId) ?? new Set<string>();
+    accounts.add(row.accountId);
+    accountsByTheme.set(row.themeId, accounts);
+  }
+  return new Map([...accountsByTheme].map(([themeId, accounts]) => [themeId, accounts.size]));
+}
+
+/**
+ * Rank themes by how many accounts discuss them (optionally within a set of
+ * accounts, null = all), then by growth: the change in that number since the
+ * latest rebuild at least `windowDays` old.
+ */
+export async function getThemeRanking(options: {
+  accountIds: string[] | null;
+  windowDays?: number;
+  limit?: number;
+}): Promise<ThemeRanking> {
+  const windowDays = options.windowDays ?? DEFAULT_GROWTH_WINDOW_DAYS;
+
+  const capturedAt = await getLatestThemeCapture();
+  if (capturedAt === null) {
+    return { capturedAt: null, comparedTo: null, themes: [] };
+  }
+
+  const [previous] = await db
+    .select({ capturedAt: max(themeAssignment.capturedAt) })
+    .from(themeAssignment)
+    .where(lte(themeAssignment.capturedAt, capturedAt - windowDays * 24 * 60 * 60));
+  const comparedTo = previous?.capturedAt ?? null;
+
+  const current = await getThemeCapture(capturedAt, options.accountIds);
+  const currentCounts = countAccountsByTheme(current);
+  const previousCounts =
+    comparedTo !== null
+      ? countAccountsByTheme(await getThemeCapture(comparedTo, options.accountIds))
+      : null;
+
+  const themeIds = [...currentCounts.keys()];
+  const themeRows =
+    themeIds.length > 0
+      ? await db
+          .select({ id: theme.id, label: theme.label })
+          .from(theme)
+          .where(inArray(theme.id, themeIds))
+      : [];
+  const labelById = new Map(themeRows.map((t) => [t.id, t.label]));
+
+  const themes: RankedTheme[] = themeIds.map((themeId) => {
+    const accountCount = currentCounts.get(themeId) ?? 0;
+    const previousAccountCount = previousCounts ? (previousCounts.get(themeId) ?? 0) : null;
+    return {
+      themeId,
+      label: labelById.get(themeId) ?? "Uncategorized",
+      accountCount,
+      previousAccountCount,
+      growth: previousAccountCount === null ? null : accountCount - previousAccountCount,
+      topics: current
+        .filter((row) => row.themeId === themeId)
+        .map(({ accountId, handle, topicLabel }) => ({ accountId, handle, topicLabel })),
+    };
+  });
+
+  themes.sort((a, b) => b.accountCount - a.accountCount || (b.growth ?? 0) - (a.growth ?? 0));
+
+  return { capturedAt, comparedTo, themes: themes.slice(0, options.limit ?? 20) };
+}
@@ -0,0 +1,170 @@
+import { db } from "@trend-x/db";
+import { pipelineRun } from "@trend-x/db/schema";
+import { and, eq } from "drizzle-orm";
+import { assertAccountWritable } from "./account-lifecycle";
+import { getProfileByAccountId, type ProfileTopic, updateProfileTopics } from "./profile";
+import { logProfileActivity } from "./profile-activity";
+import { foldTopic } from "./topic-maintenance";
+import { reassignTopicTweets } from "./tweet-topics";
+
+const FLAG_VERBS = {
+  pinned: { on: "Pinned", off: "Unpinned" },
+  muted: { on: "Muted", off: "Unmuted" },
+} as const;
+
+// ---------------------------------------------------------------------------
+// Guards
+// ---------------------------------------------------------------------------
+
+/**
+ * Throw if a profile update is running for the account. Topic edits made while
+ * the pipeline rewrites the profile's topics would be lost.
+ */
+export async function assertNoProfileUpdateRunning(accountId: string): Promise<void> {
+  const [running] = await db
+    .select({ id: pipelineRun.id })
+    .from(pipelineRun)
+    .where(
+      and(
+        eq(pipelineRun.accountId, accountId),
+        eq(pipelineRun.pipelineType, "profile_update"),
+        eq(pipelineRun.status, "running"),
+      ),
+    );
+  if (running) {
+    throw new Error("A profile update is running for this account, try again when it finishes");
+  }
+}
+
+/**
+ * Load the account's topics for editing, checking the account is writable and
+ * no profile update is running.
+ */
+async function loadTopicsForCuration(accountId: string): Promise<ProfileTopic[]> {
+  await assertAccountWritable(accountId);
+  await assertNoProfileUpdateRunning(accountId);
+
+  const profile = await getProfileByAccountId(accountId);
+  if (!profile) {
+    throw new Error(`No profile for account ${accountId}`);
+  }
+  return [...profile.topics];
+}
+
+function findTopic(topics: ProfileTopic[], topicId: string): ProfileTopic {
+  const topic = topics.find((t) => t.id === topicId);
+  if (!topic) {
+    throw new Error(`Topic ${topicId} not found`);
+  }
+  return topic;
+}
+
+// ---------------------------------------------------------------------------
+// Curation
+// ---------------------------------------------------------------------------
+
+/**
+ * Rename a topic. The label is marked manual so automated relabeling keeps it.
+ */
+export async function renameTopic(
+  accountId: string,
+  topicId: string,
+  label: string,
+): Promise<ProfileTopic> {
+  const topics = await loadTopicsForCuration(accountId);
+  const topic = findTopic(topics, topicId);
+  const previousLabel = topic.label;
+
+  const renamed: ProfileTopic = { ...topic, label, manualLabel: true };
+  await updateProfileTopics(
+    accountId,
+    topics.map((t) => (t.id === topicId ? renamed : t)),
+  );
+
+  await logProfileActivity(
+    accountId,
+    "topic_curated",
+    `Renamed topic "${previousLabel}" to "${label}"`,
+    { action: "rename", topicId, from: previousLabel, to: label },
+  );
+
+  return renamed;
+}
+
+/**
+ * Merge `sourceTopicId` into `targetTopicId`. The target keeps its ID, label and
+ * flags (and becomes pinned if the source was); the source's tweets are reassigned.
+ */
+export async function mergeTopicsManually(
+  accountId: string,
+  sourceTopicId: string,
+  targetTopicId: string,
+): Promise<ProfileTopic> {
+  if (sourceTopicId === targetTopicId) {
+    throw new Error("Cannot merge a topic into itself");
+  }
+
+  const topics = await loadTopicsForCuration(accountId);
+  const source = findTopic(topics, sourceTopicId);
+  const target = findTopic(topics, targetTopicId);
+
+  const merged = foldTopic(target, source);
+  const remaining = topics
+    .filter((t) => t.id !== sourceTopicId)
+    .map((t) => (t.id === targetTopicId ? merged : t));
+
+  // Recalculate proportions across all topics
+  const totalTweetCount = remaining.reduce((sum, t) => sum + t.tweetCount, 0);
+  for (const topic of remaining) {
+    topic.proportion = totalTweetCount > 0 ? topic.tweetCount / totalTweetCount : 0;
+  }
+
+  await updateProfileTopics(accountId, remaining);
+  await reassignTopicTweets(accountId, [sourceTopicId], targetTopicId);
+
+  await logProfileActivity(
+    accountId,
+    "topics_merged",
+    `Merged "${source.label}" into "${target.label}"`,
+    {
+      topicId: targetTopicId,
+      label: target.label,
+      mergedLabels: [target.label, source.label],
+      absorbedTopicIds: [sourceTopicId],
+      manual: true,
+    },
+  );
+
+  return merged;
+}
+
+/**
+ * Pin or unpin a topic, or mute or unmute it. Pinned topics are never merged away
+ * or split by topic maintenance; muted topics raise no emergence or abandonment
+ * notifications.
+ */
+export async function setTopicFlag(
+  accountId: string,
+  topicId: string,
+  flag: "pinned" | "muted",
+  value: boolean,
+): Promise<ProfileTopic> {
+  const topics = await loadTopicsForCuration(accountId);
+  const topic = findTopic(topics, topicId);
+  if (!!topic[flag] === value) return topic;
+
+  const updated: ProfileTopic = { ...topic, [flag]: value };
+  await updateProfileTopics(
+    accountId,
+    topics.map((t) => (t.id === topicId ? updated : t)),
+  );
+
+  const verb = FLAG_VERBS[flag][value ? "on" : "off"];
+  await logProfileActivity(accountId, "topic_curated", `${verb} topic "${topic.label}"`, {
+    action: verb.toLowerCase(),
+    topicId,
+    label: topic.label,
+  });
+
+  return updated;
+}
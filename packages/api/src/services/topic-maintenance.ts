@@ -0,0 +1,423 @@
+import { db } from "@trend-x/db";
+import { tweet, tweetEmbedding } from "@trend-x/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import {
+  type ClusterResult,
+  classifySentiment,
+  clusterTweets,
+  cosineSimilarity,
+  labelTopics,
+  type TweetWithEmbedding,
+} from "./analysis";
+import { getEmbeddingModel } from "./openai";
+import { getProfileByAccountId, type ProfileTopic, updateProfileTopics } from "./profile";
+import { logProfileActivity } from "./profile-activity";
+import { reassignTopicTweets, recordTopicAssignments, type TopicAssignment } from "./tweet-topics";
+
+export interface TopicMerge {
+  topicId: string; // Surviving topic (the larger one keeps its ID)
+  label: string; // Label after relabeling
+  mergedLabels: string[]; // Labels of every topic folded in, survivor first
+  absorbedTopicIds: string[]; // Topics folded into the survivor, no longer in the profile
+  similarity: number; // Centroid cosine similarity that triggered the merge
+}
+
+export interface TopicSplit {
+  topicId: string; // Split topic; its largest part keeps the ID
+  label: string; // Label before the split
+  spread: number; // Mean cosine distance of members to the centroid
+  parts: Array<{ id: string; label: string; tweetCount: number }>;
+}
+
+export interface TopicMaintenanceResult {
+  topicsBefore: number;
+  topicsAfter: number;
+  merges: TopicMerge[];
+  splits: TopicSplit[];
+}
+
+interface MemberTweet {
+  tweet: TweetWithEmbedding;
+  similarity: number; // To the topic centroid
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// Topics whose centroids are at least this similar describe the same theme
+const MERGE_SIMILARITY_THRESHOLD = 0.9;
+
+// A topic whose members sit further than this from its centroid on average
+// (1 - mean cosine similarity) has grown into a catch-all
+const SPLIT_SPREAD_THRESHOLD = 0.35;
+
+// Too few members can't be split meaningfully
+const MIN_SPLIT_MEMBERS = 20;
+
+// Recent tweets used to measure topic membership
+const MAX_MEMBER_TWEETS = 1000;
+
+const NEUTRAL_SENTIMENT = { positive: 0.33, neutral: 0.34, negative: 0.33 };
+
+// ---------------------------------------------------------------------------
+// Membership
+// ---------------------------------------------------------------------------
+
+/**
+ * Load the account's most recent tweets with their stored embeddings for the
+ * configured model. Tweets never embedded (or embedded with another model) are skipped.
+ */
+async function loadMemberTweets(accountId: string): Promise<TweetWithEmbedding[]> {
+  const model = await getEmbeddingModel();
+  const rows = await db
+    .select({
+      id: tweet.id,
+      text: tweet.text,
+      tweetCreatedAt: tweet.tweetCreatedAt,
+      embedding: tweetEmbedding.embedding,
+    })
+    .from(tweet)
+    .innerJoin(
+      tweetEmbedding,
+      and(eq(tweetEmbedding.tweetId, tweet.id), eq(tweetEmbedding.model, model)),
+    )
+    .where(eq(tweet.accountId, accountId))
+    .orderBy(desc(tweet.tweetCreatedAt))
+    .limit(MAX_MEMBER_TWEETS);
+
+  // A tweet can have several vectors (plain and quote-enriched text); keep the first
+  const byId = new Map<string, TweetWithEmbedding>();
+  for (const row of rows) {
+    if (byId.has(row.id)) continue;
+    byId.set(row.id, {
+      id: row.id,
+      text: row.text,
+      tweetCreatedAt: row.tweetCreatedAt,
+      embedding: JSON.parse(row.embedding) as number[],
+    });
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Assign each tweet to its nearest topic centroid. Members are sorted closest
+ * first, so labeling sees the most representative tweets.
+ */
+function assignMembers(
+  topics: ProfileTopic[],
+  tweets: TweetWithEmbedding[],
+): Map<string, MemberTweet[]> {
+  const members = new Map<string, MemberTweet[]>(topics.map((t) => [t.id, []]));
+
+  for (const t of tweets) {
+    let best: { topicId: string; similarity: number } | null = null;
+    for (const topic of topics) {
+      const similarity = cosineSimilarity(t.embedding, topic.centroid);
+      if (!best || similarity > best.similarity) {
+        best = { topicId: topic.id, similarity };
+      }
+    }
+    if (best) members.get(best.topicId)?.push({ tweet: t, similarity: best.similarity });
+  }
+
+  for (const list of members.values()) {
+    list.sort((a, b) => b.similarity - a.similarity);
+  }
+  return members;
+}
+
+function toCluster(clusterId: number, members: MemberTweet[], centroid: number[]): ClusterResult {
+  return {
+    clusterId,
+    tweetIds: members.map((m) => m.tweet.id),
+    tweets: members.map((m) => m.tweet),
+    centroid,
+    proportion: 0,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Merging
+// ---------------------------------------------------------------------------
+
+function weightedAverage(values: Array<{ value: number[]; weight: number }>): number[] {
+  const totalWeight = values.reduce((sum, v) => sum + v.weight, 0);
+  const dim = values[0]?.value.length ?? 0;
+  const result = new Array<number>(dim).fill(0);
+  for (const { value, weight } of values) {
+    // All-zero weights fall back to a plain mean
+    const share = totalWeight > 0 ? weight / totalWeight : 1 / values.length;
+    for (let i = 0; i < dim; i++) {
+      result[i] = (result[i] ?? 0) + (value[i] ?? 0) * share;
+    }
+  }
+  return result;
+}
+
+/**
+ * Find the most similar pair of topics at or above the merge threshold.
+ * Two pinned topics are never paired, since one of them would be merged away.
+ */
+function findMergeCandidate(
+  topics: ProfileTopic[],
+): { a: ProfileTopic; b: ProfileTopic; similarity: number } | null {
+  let best: { a: ProfileTopic; b: ProfileTopic; similarity: number } | null = null;
+  for (const [i, a] of topics.entries()) {
+    for (const b of topics.slice(i + 1)) {
+      if (a.pinned && b.pinned) continue;
+      const similarity = cosineSimilarity(a.centroid, b.centroid);
+      if (similarity >= MERGE_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { a, b, similarity };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Fold two topics into one. A pinned topic survives, otherwise the larger one;
+ * the survivor keeps its ID and (for now) its label.
+ */
+function mergeTopics(a: ProfileTopic, b: ProfileTopic): ProfileTopic {
+  const aSurvives = a.pinned === b.pinned ? a.tweetCount >= b.tweetCount : !!a.pinned;
+  return aSurvives ? foldTopic(a, b) : foldTopic(b, a);
+}
+
+/**
+ * Fold `absorbed` into `survivor`: tweet-count-weighted centroid and sentiment,
+ * summed tweet count. The survivor keeps its ID, label and flags, and stays
+ * pinned if either topic was.
+ */
+export function foldTopic(survivor: ProfileTopic, absorbed: ProfileTopic): ProfileTopic {
+  const totalWeight = survivor.tweetCount + absorbed.tweetCount;
+  // All-zero weights fall back to a plain mean
+  const mix = (survivorValue: number, absorbedValue: number) =>
+    totalWeight > 0
+      ? (survivorValue * survivor.tweetCount + absorbedValue * absorbed.tweetCount) / totalWeight
+      : (survivorValue + absorbedValue) / 2;
+
+  return {
+    ...survivor,
+    centroid: weightedAverage([
+      { value: survivor.centroid, weight: survivor.tweetCount },
+      { value: absorbed.centroid, weight: absorbed.tweetCount },
+    ]),
+    tweetCount: survivor.tweetCount + absorbed.tweetCount,
+    sentiment: {
+      positive: mix(survivor.sentiment.positive, absorbed.sentiment.positive),
+      neutral: mix(survivor.sentiment.neutral, absorbed.sentiment.neutral),
+      negative: mix(survivor.sentiment.negative, absorbed.sentiment.negative),
+    },
+    ...(absorbed.pinned ? { pinned: true } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Maintenance
+// ---------------------------------------------------------------------------
+
+/**
+ * Clean up an account's topics.
+ *
+ * 1. Merge: topics whose centroids are at least MERGE_SIMILARITY_THRESHOLD similar are
+ *    merged pairwise (most similar first) until no pair qualifies, then relabeled.
+ *    Pinned topics are never merged away; manually labeled topics keep their label.
+ * 2. Split: topics whose nearest-centroid members spread wider than SPLIT_SPREAD_THRESHOLD
+ *    are re-clustered; when that yields 2+ clusters each becomes a labeled topic, with
+ *    the original tweet count divided by member share. Pinned and manually labeled
+ *    topics are never split.
+ *
+ * Every merge and split is logged to the profile activity log.
+ */
+export async function maintainTopics(accountId: string): Promise<TopicMaintenanceResult> {
+  // Scheduled runs reach accounts that were never profiled; don't create a profile for them
+  const profile = await getProfileByAccountId(accountId);
+  let topics = [...(profile?.topics ?? [])];
+  const topicsBefore = topics.length;
+
+  if (topics.length === 0) {
+    return { topicsBefore: 0, topicsAfter: 0, merges: [], splits: [] };
+  }
+
+  const memberTweets = await loadMemberTweets(accountId);
+
+  // --- Merge near-duplicates ---
+  // Labels and IDs folded into each surviving topic, and the lowest similarity that merged them
+  const folded = new Map<string, { labels: string[]; absorbedIds: string[]; similarity: number }>();
+  let candidate = findMergeCandidate(topics);
+  while (candidate) {
+    const { a, b } = candidate;
+    const merged = mergeTopics(a, b);
+    const absorbed = merged.id === a.id ? b : a;
+    const survivorLabels = folded.get(merged.id)?.labels ?? [merged.label];
+    const absorbedLabels = folded.get(absorbed.id)?.labels ?? [absorbed.label];
+
+    folded.set(merged.id, {
+      labels: [...survivorLabels, ...absorbedLabels],
+      absorbedIds: [
+        ...(folded.get(merged.id)?.absorbedIds ?? []),
+        absorbed.id,
+        ...(folded.get(absorbed.id)?.absorbedIds ?? []),
+      ],
+      similarity: Math.min(
+        candidate.similarity,
+        folded.get(merged.id)?.similarity ?? 1,
+        folded.get(absorbed.id)?.similarity ?? 1,
+      ),
+    });
+    folded.delete(absorbed.id);
+
+    topics = topics.filter((t) => t.id !== a.id && t.id !== b.id);
+    topics.push(merged);
+    candidate = findMergeCandidate(topics);
+  }
+
+  const merges: TopicMerge[] = [...folded].map(
+    ([topicId, { labels, absorbedIds, similarity }]) => ({
+      topicId,
+      label: topics.find((t) => t.id === topicId)?.label ?? "Uncategorized",
+      mergedLabels: labels,
+      absorbedTopicIds: absorbedIds,
+      similarity,
+    }),
+  );
+
+  // Relabel merged topics from their combined members
+  if (merges.length > 0) {
+    const members = assignMembers(topics, memberTweets);
+    const mergedTopics = merges.flatMap((m) => {
+      const topic = topics.find((t) => t.id === m.topicId);
+      const topicMembers = topic ? (members.get(topic.id) ?? []) : [];
+      return topic && !topic.manualLabel && topicMembers.length > 0
+        ? [{ topic, members: topicMembers }]
+        : [];
+    });
+
+    const labels = await labelTopics(
+      mergedTopics.map((m, i) => toCluster(i, m.members, m.topic.centroid)),
+    );
+    for (const [i, { topic }] of mergedTopics.entries()) {
+      const label = labels.find((l) => l.clusterId === i)?.label;
+      if (label) topic.label = label;
+    }
+    for (const merge of merges) {
+      merge.label = topics.find((t) => t.id === merge.topicId)?.label ?? merge.label;
+    }
+  }
+
+  // --- Split catch-all topics ---
+  const splits: TopicSplit[] = [];
+  const splitAssignments: TopicAssignment[] = [];
+  const members = assignMembers(topics, memberTweets);
+  const splitTopics: ProfileTopic[] = [];
+
+  for (const topic of topics) {
+    const topicMembers = members.get(topic.id) ?? [];
+    if (topic.pinned || topic.manualLabel || topicMembers.length < MIN_SPLIT_MEMBERS) {
+      splitTopics.push(topic);
+      continue;
+    }
+
+    const spread = 1 - topicMembers.reduce((sum, m) => sum + m.similarity, 0) / topicMembers.length;
+    if (spread <= SPLIT_SPREAD_THRESHOLD) {
+      splitTopics.push(topic);
+      continue;
+    }
+
+    const { clusters } = clusterTweets(topicMembers.map((m) => m.tweet));
+    if (clusters.length < 2) {
+      // No sub-structure worth splitting on
+      splitTopics.push(topic);
+      continue;
+    }
+
+    const labels = await labelTopics(clusters);
+    const sentiments = await classifySentiment(clusters);
+
+    // clusterTweets sorts largest first; the largest part keeps the topic's ID
+    const parts: ProfileTopic[] = clusters.map((cluster, i) => {
+      const sentiment =
+        sentiments.find((s) => s.clusterId === cluster.clusterId) ?? NEUTRAL_SENTIMENT;
+      const id = i === 0 ? topic.id : crypto.randomUUID();
+      splitAssignments.push(
+        ...cluster.tweets.map((t) => ({
+          tweetId: t.id,
+          topicId: id,
+          similarity: cosineSimilarity(t.embedding, cluster.centroid),
+        })),
+      );
+      return {
+        id,
+        label: labels.find((l) => l.clusterId === cluster.clusterId)?.label || "Uncategorized",
+        centroid: cluster.centroid,
+        proportion: 0, // Recalculated below
+        tweetCount: Math.max(1, Math.round(topic.tweetCount * cluster.proportion)),
+        sentiment: {
+          positive: sentiment.positive,
+          neutral: sentiment.neutral,
+          negative: sentiment.negative,
+        },
+      };
+    });
+
+    splitTopics.push(...parts);
+    splits.push({
+      topicId: topic.id,
+      label: topic.label,
+      spread,
+      parts: parts.map((p) => ({ id: p.id, label: p.label, tweetCount: p.tweetCount })),
+    });
+  }
+  topics = splitTopics;
+
+  if (merges.length === 0 && splits.length === 0) {
+    return { topicsBefore, topicsAfter: topicsBefore, merges, splits };
+  }
+
+  // Recalculate proportions across all topics
+  const totalTweetCount = topics.reduce((sum, t) => sum + t.tweetCount, 0);
+  for (const topic of topics) {
+    topic.proportion = totalTweetCount > 0 ? topic.tweetCount / totalTweetCount : 0;
+  }
+
+  await updateProfileTopics(accountId, topics);
+
+  // Keep tweet assignments pointing at live topics. Tweets of a split topic outside the
+  // member sample stay with the part that kept its ID.
+  for (const merge of merges) {
+    await reassignTopicTweets(accountId, merge.absorbedTopicIds, merge.topicId);
+  }
+  await recordTopicAssignments(accountId, splitAssignments);
+
+  for (const merge of merges) {
+    await logProfileActivity(
+      accountId,
+      "topics_merged",
+      `Merged ${merge.mergedLabels.map((l) => `"${l}"`).join(", ")} into "${merge.label}"`,
+      {
+        topicId: merge.topicId,
+        label: merge.label,
+        mergedLabels: merge.mergedLabels,
+        absorbedTopicIds: merge.absorbedTopicIds,
+        similarity: merge.similarity,
+      },
+    );
+  }
+
+  for (const split of splits) {
+    await logProfileActivity(
+      accountId,
+      "topic_split",
+      `Split "${split.label}" into ${split.parts.map((p) => `"${p.label}"`).join(", ")}`,
+      {
+        topicId: split.topicId,
+        label: split.label,
+        spread: split.spread,
+        parts: split.parts,
+      },
+    );
+  }
+
+  return { topicsBefore, topicsAfter: topics.length, merges, splits };
+}
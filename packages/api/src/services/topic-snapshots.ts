@@ -0,0 +1,94 @@
+import { db } from "@trend-x/db";
+import { topicSnapshot } from "@trend-x/db/schema";
+import { and, asc, eq, gte, lte } from "drizzle-orm";
+import { getProfileByAccountId } from "./profile";
+
+export interface TopicSnapshotValue {
+  proportion: number;
+  tweetCount: number;
+  sentiment: { positive: number; neutral: number; negative: number };
+}
+
+export interface TopicHistory {
+  // Every topic seen in the range with its most recent label, largest average share first
+  topics: Array<{ topicId: string; label: string }>;
+  // One point per profile update, oldest first; topics absent from an update are missing
+  points: Array<{ capturedAt: number; values: Record<string, TopicSnapshotValue> }>;
+}
+
+/**
+ * Snapshot the account's current topics (proportion, tweet count, sentiment).
+ * Called after each profile update. Returns the number of rows written.
+ */
+export async function recordTopicSnapshot(accountId: string): Promise<number> {
+  const profile = await getProfileByAccountId(accountId);
+  if (!profile || profile.topics.length === 0) return 0;
+
+  const capturedAt = Math.floor(Date.now() / 1000);
+  await db.insert(topicSnapshot).values(
+    profile.topics.map((topic) => ({
+      accountId,
+      topicId: topic.id,
+      label: topic.label,
+      proportion: topic.proportion,
+      tweetCount: topic.tweetCount,
+      sentimentPositive: topic.sentiment.positive,
+      sentimentNeutral: topic.sentiment.neutral,
+      sentimentNegative: topic.sentiment.negative,
+      capturedAt,
+    })),
+  );
+
+  return profile.topics.length;
+}
+
+/**
+ * Get topic snapshots for an account between `from` and `to` (unix seconds, inclusive,
+ * both optional), grouped into one point per profile update.
+ */
+export async function getTopicHistory(
+  accountId: string,
+  range: { from?: number; to?: number } = {},
+): Promise<TopicHistory> {
+  const rows = await db
+    .select()
+    .from(topicSnapshot)
+    .where(
+      and(
+        eq(topicSnapshot.accountId, accountId),
+        range.from !== undefined ? gte(topicSnapshot.capturedAt, range.from) : undefined,
+        range.to !== undefined ? lte(topicSnapshot.capturedAt, range.to) : undefined,
+      ),
+    )
+    .orderBy(asc(topicSnapshot.capturedAt));
+
+  const points: TopicHistory["points"] = [];
+  const labels = new Map<string, string>();
+  const shareTotals = new Map<string, number>();
+
+  for (const row of rows) {
+    let point = points[points.length - 1];
+    if (!point || point.capturedAt !== row.capturedAt) {
+      point = { capturedAt: row.capturedAt, values: {} };
+      points.push(point);
+    }
+
+    point.values[row.topicId] = {
+      proportion: row.proportion,
+      tweetCount: row.tweetCount,
+      sentiment: {
+        positive: row.sentimentPositive,
+        neutral: row.sentimentNeutral,
+        negative: row.sentimentNegative,
+      },
+    };
+    labels.set(row.topicId, row.label); // Rows are oldest first, so the last label wins
+    shareTotals.set(row.topicId, (shareTotals.get(row.topicId) ?? 0) + row.proportion);
+  }
+
+  const topics = [...labels]
+    .map(([topicId, label]) => ({ topicId, label }))
+    .sort((a, b) => (shareTotals.get(b.topicId) ?? 0) - (shareTotals.get(a.topicId) ?? 0));
+
+  return { topics, points };
+}
@@ -0,0 +1,264 @@
+import { db } from "@trend-x/db";
+import { notification, tweet, tweetRevision } from "@trend-x/db/schema";
+import { and, eq, gte, inArray, isNull, lte } from "drizzle-orm";
+import { compareTweetIds } from "./sources/tweet-ids";
+import type { SourceName, SourceTweet } from "./sources/types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TweetChangeType = "tweet_deleted" | "tweet_edited";
+
+export interface TweetChangeEvidence {
+  tweetId: string;
+  tweetCreatedAt: number;
+  originalText: string;
+  newText?: string; // edits only
+}
+
+export interface TweetChangeResult {
+  deletedTweetIds: string[];
+  editedTweetIds: string[];
+  notificationIds: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Thresholds
+// ---------------------------------------------------------------------------
+
+const LOOKUP_BATCH_SIZE = 500;
+
+// A fetch missing more than this share of the stored tweets in its window (and at least
+// MIN_SUSPICIOUS_MISSING of them) is treated as a bad response rather than a deletion spree
+const MAX_MISSING_RATIO = 0.5;
+const MIN_SUSPICIOUS_MISSING = 5;
+
+const EXPLANATION_TEXT_LENGTH = 140;
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Compare a fresh timeline fetch against stored tweets, before it is stored.
+ *
+ * - Edited: a known tweet comes back with different text. The old text goes to
+ *   tweet_revision (the upsert then stores the new text).
+ * - Deleted: a stored tweet is missing although the fetch covered its position
+ *   (between the oldest and newest fetched tweet). It gets deletedAt set.
+ *   A tweet marked deleted that shows up again is restored.
+ *
+ * Each deletion and edit creates a notification carrying the original text as evidence.
+ * Archive imports are skipped: they are not a live view of the timeline.
+ *
+ * @param accountId - Account the tweets belong to
+ * @param fetched - The unfiltered fetch result (newest-first, as returned by the source)
+ * @param source - Source the fetch came from
+ */
+export async function detectTweetChanges(
+  accountId: string,
+  fetched: SourceTweet[],
+  source: SourceName,
+): Promise<TweetChangeResult> {
+  const result: TweetChangeResult = {
+    deletedTweetIds: [],
+    editedTweetIds: [],
+    notificationIds: [],
+  };
+  if (fetched.length === 0 || source === "archive") return result;
+
+  const now = Math.floor(Date.now() / 1000);
+  const evidence: Array<{ type: TweetChangeType; evidence: TweetChangeEvidence }> = [];
+
+  // 1. Edits (and restores) among tweets we already store
+  const stored = await getStoredTweets(
+    accountId,
+    fetched.map((t) => t.id),
+  );
+  const fetchedById = new Map(fetched.map((t) => [t.id, t]));
+
+  for (const row of stored) {
+    const current = fetchedById.get(row.id);
+    if (!current) continue;
+
+    if (row.deletedAt !== null) {
+      await db.update(tweet).set({ deletedAt: null }).where(eq(tweet.id, row.id));
+    }
+
+    // Text from other sources (e.g. archive exports) is formatted differently
+    if (row.source !== source || row.text.trim() === current.text.trim()) continue;
+
+    await db.insert(tweetRevision).values({
+      tweetId: row.id,
+      accountId,
+      previousText: row.text,
+      newText: current.text,
+      detectedAt: now,
+    });
+
+    result.editedTweetIds.push(row.id);
+    evidence.push({
+      type: "tweet_edited",
+      evidence: {
+        tweetId: row.id,
+        tweetCreatedAt: row.tweetCreatedAt,
+        originalText: row.text,
+        newText: current.text,
+      },
+    });
+  }
+
+  // 2. Deletions inside the fetched window
+  const missing = await findMissingTweets(accountId, fetched);
+  if (missing.length > 0) {
+    await db
+      .update(tweet)
+      .set({ deletedAt: now })
+      .where(
+        inArray(
+          tweet.id,
+          missing.map((t) => t.id),
+        ),
+      );
+
+    for (const row of missing) {
+      result.deletedTweetIds.push(row.id);
+      evidence.push({
+        type: "tweet_deleted",
+        evidence: { tweetId: row.id, tweetCreatedAt: row.tweetCreatedAt, originalText: row.text },
+      });
+    }
+  }
+
+  result.notificationIds = await createTweetChangeNotifications(accountId, evidence);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function getStoredTweets(accountId: string, ids: string[]) {
+  const rows: Array<{
+    id: string;
+    text: string;
+    source: string;
+    tweetCreatedAt: number;
+    deletedAt: number | null;
+  }> = [];
+
+  for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = ids.slice(i, i + LOOKUP_BATCH_SIZE);
+    rows.push(
+      ...(await db
+        .select({
+          id: tweet.id,
+          text: tweet.text,
+          source: tweet.source,
+          tweetCreatedAt: tweet.tweetCreatedAt,
+          deletedAt: tweet.deletedAt,
+        })
+        .from(tweet)
+        .where(and(eq(tweet.accountId, accountId), inArray(tweet.id, batch)))),
+    );
+  }
+
+  return rows;
+}
+
+/**
+ * Find live stored tweets that fall strictly inside the fetched window but were not returned.
+ */
+async function findMissingTweets(accountId: string, fetched: SourceTweet[]) {
+  // A pinned tweet heads page 1 out of order; it says nothing about the window
+  const first = fetched[0];
+  const second = fetched[1];
+  const windowTweets =
+    first && second && compareTweetIds(first.id, second.id) < 0 ? fetched.slice(1) : fetched;
+
+  if (windowTweets.length < 2) return [];
+
+  let newest = windowTweets[0] as SourceTweet;
+  let oldest = windowTweets[0] as SourceTweet;
+  for (const t of windowTweets) {
+    if (compareTweetIds(t.id, newest.id) > 0) newest = t;
+    if (compareTweetIds(t.id, oldest.id) < 0) oldest = t;
+  }
+
+  const toUnix = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+
+  const candidates = await db
+    .select({ id: tweet.id, text: tweet.text, tweetCreatedAt: tweet.tweetCreatedAt })
+    .from(tweet)
+    .where(
+      and(
+        eq(tweet.accountId, accountId),
+        isNull(tweet.deletedAt),
+        gte(tweet.tweetCreatedAt, toUnix(oldest.createdAt)),
+        lte(tweet.tweetCreatedAt, toUnix(newest.createdAt)),
+      ),
+    );
+
+  const seen = new Set(fetched.map((t) => t.id));
+  const missing = candidates.filter(
+    (c) =>
+      !seen.has(c.id) &&
+      compareTweetIds(c.id, oldest.id) > 0 &&
+      compareTweetIds(c.id, newest.id) < 0,
+  );
+
+  if (
+    missing.length >= MIN_SUSPICIOUS_MISSING &&
+    missing.length > candidates.length * MAX_MISSING_RATIO
+  ) {
+    console.warn(
+      `Skipping deletion detection for ${accountId}: ${missing.length}/${candidates.length} stored tweets missing from fetch`,
+    );
+    return [];
+  }
+
+  return missing;
+}
+
+function truncateText(text: string): string {
+  return text.length > EXPLANATION_TEXT_LENGTH
+    ? `${text.slice(0, EXPLANATION_TEXT_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Create one notification per deleted or edited tweet.
+ * Returns array of notification IDs.
+ */
+async function createTweetChangeNotifications(
+  accountId: string,
+  changes: Array<{ type: TweetChangeType; evidence: TweetChangeEvidence }>,
+): Promise<string[]> {
+  if (changes.length === 0) return [];
+
+  const rows = await db
+    .insert(notification)
+    .values(
+      changes.map((change) => {
+        const postedOn = new Date(change.evidence.tweetCreatedAt * 1000).toISOString().slice(0, 10);
+        const original = truncateText(change.evidence.originalText);
+
+        return {
+          accountId,
+          detectionRunId: null,
+          changeId: null,
+          title: change.type === "tweet_deleted" ? "Tweet Deleted" : "Tweet Edited",
+          explanation:
+            change.type === "tweet_deleted"
+              ? `Deleted a tweet posted ${postedOn}: "${original}"`
+              : `Edited a tweet posted ${postedOn}. It originally read: "${original}"`,
+          changeType: change.type,
+          evidence: JSON.stringify(change.evidence),
+        };
+      }),
+    )
+    .returning({ id: notification.id });
+
+  return rows.map((r) => r.id);
+}
@@ -0,0 +1,162 @@
+import { createHash } from "node:crypto";
+import { db } from "@trend-x/db";
+import { tweetEmbedding } from "@trend-x/db/schema";
+import { and, eq, inArray, ne, sql } from "drizzle-orm";
+import { generateEmbeddings, getEmbeddingModel } from "./openai";
+
+// Keep IN (...) lists well below SQLite's variable limit
+const LOOKUP_BATCH_SIZE = 500;
+
+export interface TweetEmbeddingInput {
+  tweetId: string;
+  text: string;
+}
+
+export interface TweetEmbeddingResult {
+  tweetId: string;
+  embedding: number[];
+  cached: boolean;
+}
+
+/**
+ * Hash the exact text sent to the embedding provider.
+ */
+export function hashEmbeddingText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Look up cached vectors for the given text hashes under a model.
+ * Returns a map of textHash -> embedding. Any tweet's row can satisfy a hash,
+ * since identical text always produces the same vector for a given model.
+ */
+async function findCachedEmbeddings(
+  model: string,
+  textHashes: string[],
+): Promise<Map<string, number[]>> {
+  const cached = new Map<string, number[]>();
+
+  for (let i = 0; i < textHashes.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = textHashes.slice(i, i + LOOKUP_BATCH_SIZE);
+    const rows = await db
+      .select({ textHash: tweetEmbedding.textHash, embedding: tweetEmbedding.embedding })
+      .from(tweetEmbedding)
+      .where(and(eq(tweetEmbedding.model, model), inArray(tweetEmbedding.textHash, batch)));
+
+    for (const row of rows) {
+      if (!cached.has(row.textHash)) {
+        cached.set(row.textHash, JSON.parse(row.embedding) as number[]);
+      }
+    }
+  }
+
+  return cached;
+}
+
+/**
+ * Get embeddings for tweets, using the tweet_embedding table as a content-hash cache.
+ * Only texts with no stored vector for the configured model are sent to the provider.
+ * Every tweet ends up with a row for (tweetId, model, textHash).
+ * Returns results in the same order as the input.
+ */
+export async function getTweetEmbeddings(
+  items: TweetEmbeddingInput[],
+): Promise<TweetEmbeddingResult[]> {
+  if (items.length === 0) return [];
+
+  const model = await getEmbeddingModel();
+  const hashes = items.map((item) => hashEmbeddingText(item.text));
+  const cached = await findCachedEmbeddings(model, [...new Set(hashes)]);
+
+  // Embed each missing text once, even if several tweets share it
+  const missing = new Map<string, string>();
+  items.forEach((item, i) => {
+    const hash = hashes[i] as string;
+    if (!cached.has(hash) && !missing.has(hash)) {
+      missing.set(hash, item.text);
+    }
+  });
+
+  const missingHashes = Array.from(missing.keys());
+  const generated = await generateEmbeddings(Array.from(missing.values()));
+  const fresh = new Map<string, number[]>();
+  generated.forEach((result, i) => {
+    fresh.set(missingHashes[i] as string, result.embedding);
+  });
+
+  const results: TweetEmbeddingResult[] = [];
+  const rows: Array<typeof tweetEmbedding.$inferInsert> = [];
+
+  items.forEach((item, i) => {
+    const hash = hashes[i] as string;
+    const cachedEmbedding = cached.get(hash);
+    const embedding = cachedEmbedding ?? fresh.get(hash);
+    // Never cache a missing vector: it would be served for this text from then on
+    if (!embedding || embedding.length === 0) {
+      throw new Error(`Embedding provider returned no vector for tweet ${item.tweetId}`);
+    }
+
+    results.push({ tweetId: item.tweetId, embedding, cached: cachedEmbedding !== undefined });
+    rows.push({
+      tweetId: item.tweetId,
+      model,
+      textHash: hash,
+      embedding: JSON.stringify(embedding),
+      dimensions: embedding.length,
+    });
+  });
+
+  // Persist per-tweet rows (no-op for tweets already stored under this model/hash)
+  for (let i = 0; i < rows.length; i += LOOKUP_BATCH_SIZE) {
+    await db
+      .insert(tweetEmbedding)
+      .values(rows.slice(i, i + LOOKUP_BATCH_SIZE))
+      .onConflictDoNothing();
+  }
+
+  return results;
+}
+
+/**
+ * Summarize stored embeddings per model and flag rows that are stale
+ * because they were produced by a model other than the configured one.
+ */
+export async function getEmbeddingCacheStats(): Promise<{
+  currentModel: string;
+  totalCount: number;
+  staleCount: number;
+  byModel: Array<{ model: string; count: number; isCurrent: boolean }>;
+}> {
+  const currentModel = await getEmbeddingModel();
+
+  const rows = await db
+    .select({
+      model: tweetEmbedding.model,
+      count: sql<number>`count(*)`,
+    })
+    .from(tweetEmbedding)
+    .groupBy(tweetEmbedding.model);
+
+  const byModel = rows.map((row) => ({
+    model: row.model,
+    count: row.count,
+    isCurrent: row.model === currentModel,
+  }));
+
+  return {
+    currentModel,
+    totalCount: byModel.reduce((sum, row) => sum + row.count, 0),
+    staleCount: byModel.filter((row) => !row.isCurrent).reduce((sum, row) => sum + row.count, 0),
+    byModel,
+  };
+}
+
+/**
+ * Delete embeddings produced by models other than the configured one.
+ * Returns the number of rows removed.
+ */
+export async function deleteStaleEmbeddings(): Promise<number> {
+  const currentModel = await getEmbeddingModel();
+  const result = await db.delete(tweetEmbedding).where(ne(tweetEmbedding.model, currentModel));
+  return result.rowsAffected;
+}
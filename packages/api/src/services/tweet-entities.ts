@@ -0,0 +1,180 @@
+import { db } from "@trend-x/db";
+import { tweetEntity } from "@trend-x/db/schema";
+import { and, count, desc, eq, gte, inArray, lt, max } from "drizzle-orm";
+
+export type TweetEntityType = "hashtag" | "mention" | "url" | "domain" | "cashtag";
+
+export interface ExtractedEntity {
+  type: TweetEntityType;
+  value: string;
+}
+
+export interface TopEntity {
+  value: string;
+  count: number; // Number of tweets containing the entity
+  lastSeenAt: number; // Unix timestamp of the newest tweet containing it
+}
+
+/** Minimal tweet shape needed for extraction (stored rows and fetched tweets alike) */
+export interface EntitySourceTweet {
+  id: string;
+  text: string;
+  tweetCreatedAt: number;
+  urls?: Array<{ url: string; expandedUrl: string }>;
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+// Keep multi-row inserts well under SQLite's bound-parameter limit
+const INSERT_BATCH_SIZE = 500;
+const LOOKUP_BATCH_SIZE = 500;
+
+// Prefixes must not follow a word character, so emails and "C#" are not picked up
+const HASHTAG_PATTERN = /(?<![\w&])#(\w*[A-Za-z_]\w*)/g;
+const MENTION_PATTERN = /(?<![\w@])@(\w{1,15})\b/g;
+const CASHTAG_PATTERN = /(?<![\w$])\$([A-Za-z]{1,6}(?:\.[A-Za-z]{1,2})?)(?![\w])/g;
+const URL_PATTERN = /https?:\/\/[^\s<>"]+/g;
+
+// Sentence punctuation that regularly trails a link in tweet text
+const TRAILING_PUNCTUATION = /[.,;:!?)\]}'"…]+$/;
+
+/**
+ * Normalize a link's host: lowercased, without a leading "www.".
+ * Returns null for unparseable URLs.
+ */
+export function getUrlDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract hashtags, mentions, cashtags and links from a tweet.
+ *
+ * Links are resolved through the tweet's URL entities where the source provides them
+ * (Bird and archive tweets). Without entities only the shortened t.co link is known,
+ * so its domain is recorded as t.co.
+ * Each entity appears at most once per tweet.
+ */
+export function extractTweetEntities(t: {
+  text: string;
+  urls?: Array<{ url: string; expandedUrl: string }>;
+}): ExtractedEntity[] {
+  const seen = new Set<string>();
+  const entities: ExtractedEntity[] = [];
+
+  const add = (type: TweetEntityType, value: string) => {
+    const key = `${type}:${value}`;
+    if (!value || seen.has(key)) return;
+    seen.add(key);
+    entities.push({ type, value });
+  };
+
+  // Link paths and fragments would otherwise yield bogus hashtags and mentions
+  const body = t.text.replace(URL_PATTERN, " ");
+
+  for (const match of body.matchAll(HASHTAG_PATTERN)) {
+    add("hashtag", (match[1] ?? "").toLowerCase());
+  }
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    add("mention", (match[1] ?? "").toLowerCase());
+  }
+  for (const match of body.matchAll(CASHTAG_PATTERN)) {
+    add("cashtag", (match[1] ?? "").toUpperCase());
+  }
+
+  const expanded = new Map((t.urls ?? []).map((u) => [u.url, u.expandedUrl]));
+  const links = [
+    ...Array.from(t.text.matchAll(URL_PATTERN), (m) => m[0].replace(TRAILING_PUNCTUATION, "")),
+    // Entities may cover links the text no longer shows (e.g. trailing media/quote links)
+    ...expanded.keys(),
+  ];
+
+  for (const link of links) {
+    const url = expanded.get(link) ?? link;
+    const domain = getUrlDomain(url);
+    if (!domain) continue;
+    add("url", url);
+    add("domain", domain);
+  }
+
+  return entities;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+/**
+ * Replace the stored entities of a batch of tweets with freshly extracted ones.
+ * Used at ingest (text can change through edits) and by the backfill.
+ * Returns the number of entity rows written.
+ */
+export async function storeTweetEntities(
+  accountId: string,
+  tweets: EntitySourceTweet[],
+): Promise<number> {
+  if (tweets.length === 0) return 0;
+
+  const ids = tweets.map((t) => t.id);
+  for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+    await db
+      .delete(tweetEntity)
+      .where(inArray(tweetEntity.tweetId, ids.slice(i, i + LOOKUP_BATCH_SIZE)));
+  }
+
+  const rows = tweets.flatMap((t) =>
+    extractTweetEntities(t).map((e) => ({
+      tweetId: t.id,
+      accountId,
+      type: e.type,
+      value: e.value,
+      tweetCreatedAt: t.tweetCreatedAt,
+    })),
+  );
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db.insert(tweetEntity).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+  }
+
+  return rows.length;
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Get an account's most frequent entities of one type, optionally within a time window
+ * on tweet creation time (since inclusive, until exclusive).
+ * Sorted by tweet count, most frequent first.
+ */
+export async function getTopEntities(
+  accountId: string,
+  type: TweetEntityType,
+  options: { since?: number; until?: number; limit?: number } = {},
+): Promise<TopEntity[]> {
+  const conditions = [eq(tweetEntity.accountId, accountId), eq(tweetEntity.type, type)];
+  if (options.since !== undefined) conditions.push(gte(tweetEntity.tweetCreatedAt, options.since));
+  if (options.until !== undefined) conditions.push(lt(tweetEntity.tweetCreatedAt, options.until));
+
+  const tweetCount = count(tweetEntity.tweetId);
+
+  const rows = await db
+    .select({
+      value: tweetEntity.value,
+      count: tweetCount,
+      lastSeenAt: max(tweetEntity.tweetCreatedAt),
+    })
+    .from(tweetEntity)
+    .where(and(...conditions))
+    .groupBy(tweetEntity.value)
+    .orderBy(desc(tweetCount), desc(max(tweetEntity.tweetCreatedAt)))
+    .limit(options.limit ?? 20);
+
+  return rows.map((r) => ({ value: r.value, count: r.count, lastSeenAt: r.lastSeenAt ?? 0 }));
+}
@@ -0,0 +1,96 @@
+import { db } from "@trend-x/db";
+import { tweet, tweetTopic } from "@trend-x/db/schema";
+import { and, desc, eq, inArray, isNotNull, isNull } from "drizzle-orm";
+import { classifyTweetSentiment } from "./analysis";
+import { getProfileByAccountId, updateProfileTopics } from "./profile";
+
+// Keep IN (...) lists well below SQLite's variable limit
+const LOOKUP_BATCH_SIZE = 500;
+
+// Topic sentiment is the split over the topic's most recent scored tweets
+const ROLLING_SENTIMENT_TWEETS = 50;
+
+// Topics with fewer scored tweets keep their current sentiment
+const MIN_SCORED_TWEETS = 5;
+
+/**
+ * Score sentiment and stance for tweets that have not been scored yet and store
+ * them on the tweet rows. Already scored tweets are skipped, so a profile rebuild
+ * does not pay for them again. Returns the number of tweets scored.
+ */
+export async function scoreTweetSentiment(
+  tweets: Array<{ id: string; text: string }>,
+): Promise<number> {
+  const unscored = new Set<string>();
+  for (let i = 0; i < tweets.length; i += LOOKUP_BATCH_SIZE) {
+    const batch = tweets.slice(i, i + LOOKUP_BATCH_SIZE).map((t) => t.id);
+    const rows = await db
+      .select({ id: tweet.id })
+      .from(tweet)
+      .where(and(inArray(tweet.id, batch), isNull(tweet.sentimentScoredAt)));
+    for (const row of rows) unscored.add(row.id);
+  }
+
+  const toScore = tweets.filter((t) => unscored.has(t.id));
+  if (toScore.length === 0) return 0;
+
+  const results = await classifyTweetSentiment(toScore);
+  const scoredAt = Math.floor(Date.now() / 1000);
+
+  for (const result of results) {
+    await db
+      .update(tweet)
+      .set({ sentiment: result.sentiment, stance: result.stance, sentimentScoredAt: scoredAt })
+      .where(eq(tweet.id, result.tweetId));
+  }
+
+  return results.length;
+}
+
+/**
+ * Recompute each topic's sentiment as a rolling split over its most recent
+ * ROLLING_SENTIMENT_TWEETS scored tweets. Topics with fewer than MIN_SCORED_TWEETS
+ * scored tweets keep the sentiment they were created with. Returns the number of
+ * topics updated.
+ */
+export async function refreshTopicSentiment(accountId: string): Promise<number> {
+  const profile = await getProfileByAccountId(accountId);
+  if (!profile || profile.topics.length === 0) return 0;
+
+  const rows = await db
+    .select({ topicId: tweetTopic.topicId, sentiment: tweet.sentiment })
+    .from(tweetTopic)
+    .innerJoin(tweet, eq(tweet.id, tweetTopic.tweetId))
+    .where(and(eq(tweetTopic.accountId, accountId), isNotNull(tweet.sentiment)))
+    .orderBy(desc(tweet.tweetCreatedAt));
+
+  // Rows are newest first, so each topic keeps its most recent tweets
+  const recentByTopic = new Map<string, string[]>();
+  for (const row of rows) {
+    const recent = recentByTopic.get(row.topicId) ?? [];
+    if (row.sentiment && recent.length < ROLLING_SENTIMENT_TWEETS) recent.push(row.sentiment);
+    recentByTopic.set(row.topicId, recent);
+  }
+
+  let updated = 0;
+  const topics = profile.topics.map((topic) => {
+    const recent = recentByTopic.get(topic.id) ?? [];
+    if (recent.length < MIN_SCORED_TWEETS) return topic;
+
+    updated++;
+    const share = (value: string) => recent.filter((s) => s === value).length / recent.length;
+    return {
+      ...topic,
+      sentiment: {
+        positive: share("positive"),
+        neutral: share("neutral"),
+        negative: share("negative"),
+      },
+    };
+  });
+
+  if (updated > 0) {
+    await updateProfileTopics(accountId, topics);
+  }
+  return updated;
+}
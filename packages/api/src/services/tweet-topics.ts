@@ -0,0 +1,130 @@
+import { db } from "@trend-x/db";
+import { tweet, tweetTopic } from "@trend-x/db/schema";
+import { and, count, desc, eq, inArray, sql } from "drizzle-orm";
+import { getProfileByAccountId } from "./profile";
+
+export interface TopicAssignment {
+  tweetId: string;
+  topicId: string;
+  similarity: number; // Cosine similarity to the topic centroid
+}
+
+export type TopicTweetSort = "similarity" | "recent";
+
+export interface TopicTweet {
+  id: string;
+  text: string;
+  tweetCreatedAt: number;
+  likeCount: number;
+  retweetCount: number;
+  replyCount: number;
+  similarity: number;
+  assignedAt: number;
+  sentiment: string | null; // null until scored
+  stance: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const INSERT_BATCH_SIZE = 500;
+
+// ---------------------------------------------------------------------------
+// Writes
+// ---------------------------------------------------------------------------
+
+/**
+ * Store tweet→topic assignments. A tweet belongs to one topic at a time, so an
+ * existing assignment is overwritten.
+ */
+export async function recordTopicAssignments(
+  accountId: string,
+  assignments: TopicAssignment[],
+): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  const rows = assignments.map((a) => ({ ...a, accountId, assignedAt: now }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db
+      .insert(tweetTopic)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: tweetTopic.tweetId,
+        set: {
+          topicId: sql`excluded.topic_id`,
+          similarity: sql`excluded.similarity`,
+          assignedAt: sql`excluded.assigned_at`,
+        },
+      });
+  }
+}
+
+/**
+ * Point every tweet assigned to one of `fromTopicIds` at `toTopicId`
+ * (used when topics are merged). Similarities are kept as recorded.
+ */
+export async function reassignTopicTweets(
+  accountId: string,
+  fromTopicIds: string[],
+  toTopicId: string,
+): Promise<void> {
+  if (fromTopicIds.length === 0) return;
+
+  await db
+    .update(tweetTopic)
+    .set({ topicId: toTopicId })
+    .where(and(eq(tweetTopic.accountId, accountId), inArray(tweetTopic.topicId, fromTopicIds)));
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the tweets assigned to a topic, most representative (highest similarity)
+ * or most recent first. Returns null when the account has no such topic.
+ */
+export async function getTopicTweets(
+  accountId: string,
+  topicId: string,
+  options: { sort?: TopicTweetSort; limit?: number; offset?: number } = {},
+): Promise<{
+  topic: { id: string; label: string; tweetCount: number };
+  tweets: TopicTweet[];
+  total: number;
+} | null> {
+  const profile = await getProfileByAccountId(accountId);
+  const topic = profile?.topics.find((t) => t.id === topicId);
+  if (!topic) return null;
+
+  const where = and(eq(tweetTopic.accountId, accountId), eq(tweetTopic.topicId, topicId));
+
+  const tweets = await db
+    .select({
+      id: tweet.id,
+      text: tweet.text,
+      tweetCreatedAt: tweet.tweetCreatedAt,
+      likeCount: tweet.likeCount,
+      retweetCount: tweet.retweetCount,
+      replyCount: tweet.replyCount,
+      similarity: tweetTopic.similarity,
+      assignedAt: tweetTopic.assignedAt,
+      sentiment: tweet.sentiment,
+      stance: tweet.stance,
+    })
+    .from(tweetTopic)
+    .innerJoin(tweet, eq(tweet.id, tweetTopic.tweetId))
+    .where(where)
+    .orderBy(options.sort === "recent" ? desc(tweet.tweetCreatedAt) : desc(tweetTopic.similarity))
+    .limit(options.limit ?? 50)
+    .offset(options.offset ?? 0);
+
+  const [totalRow] = await db.select({ total: count() }).from(tweetTopic).where(where);
+
+  return {
+    topic: { id: topic.id, label: topic.label, tweetCount: topic.tweetCount },
+    tweets,
+    total: totalRow?.total ?? 0,
+  };
+}
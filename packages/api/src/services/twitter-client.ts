@@ -0,0 +1,209 @@
+import { TwitterClient } from "@steipete/bird";
+
+/**
+ * Groups of Twitter GraphQL endpoints that share a rate-limit window.
+ * - user_lookup: UserByScreenName
+ * - timeline: UserTweets
+ * - connections: Following / Followers
+ * - account: current-user checks (credential tests)
+ */
+export type EndpointFamily = "user_lookup" | "timeline" | "connections" | "account";
+
+export interface RateLimitBudget {
+  family: EndpointFamily;
+  remaining: number; // Whole requests available right now
+  capacity: number;
+  windowSeconds: number;
+  blockedUntil: number | null; // Unix timestamp, set while backing off after a rate-limit error
+  lastRateLimitedAt: number | null; // Unix timestamp
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number; // ms
+  blockedUntil: number; // ms, 0 when not backing off
+  lastRateLimitedAt: number | null; // ms
+  consecutiveLimits: number;
+}
+
+// ---------------------------------------------------------------------------
+// Limits
+// ---------------------------------------------------------------------------
+
+// Twitter resets limits in 15-minute windows. Capacities sit below the documented
+// per-session limits so concurrent jobs never drain a window completely.
+const WINDOW_SECONDS = 15 * 60;
+
+const RATE_LIMITS: Record<EndpointFamily, { capacity: number; windowSeconds: number }> = {
+  user_lookup: { capacity: 80, windowSeconds: WINDOW_SECONDS },
+  timeline: { capacity: 40, windowSeconds: WINDOW_SECONDS },
+  connections: { capacity: 40, windowSeconds: WINDOW_SECONDS },
+  account: { capacity: 15, windowSeconds: WINDOW_SECONDS },
+};
+
+// Backoff after a rate-limit response doubles per consecutive hit, up to a full window
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = WINDOW_SECONDS * 1000;
+
+// Rate-limited calls are retried this many times (after waiting out the backoff) before failing
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+const RATE_LIMIT_PATTERN = /\b429\b|rate limit|too many requests|"code":\s*88\b/i;
+
+// ---------------------------------------------------------------------------
+// Shared state
+// ---------------------------------------------------------------------------
+
+// One client per cookie pair, shared by tweet sources, social snapshots and credential tests
+const clients = new Map<string, TwitterClient>();
+
+const buckets = new Map<EndpointFamily, TokenBucket>();
+
+/**
+ * Get the shared Bird client for a cookie pair.
+ */
+export function getTwitterClient(authToken: string, ct0: string): TwitterClient {
+  const key = `${authToken}:${ct0}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = new TwitterClient({ cookies: { authToken, ct0 } });
+    clients.set(key, client);
+  }
+  return client;
+}
+
+function getBucket(family: EndpointFamily): TokenBucket {
+  let bucket = buckets.get(family);
+  if (!bucket) {
+    bucket = {
+      tokens: RATE_LIMITS[family].capacity,
+      updatedAt: Date.now(),
+      blockedUntil: 0,
+      lastRateLimitedAt: null,
+      consecutiveLimits: 0,
+    };
+    buckets.set(family, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Top the bucket up for the time elapsed since its last update (continuous refill).
+ */
+function refill(family: EndpointFamily, bucket: TokenBucket, now: number): void {
+  const { capacity, windowSeconds } = RATE_LIMITS[family];
+  const perMs = capacity / (windowSeconds * 1000);
+  bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+  bucket.updatedAt = now;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait until the family has a request available, then take it.
+ */
+async function acquire(family: EndpointFamily): Promise<void> {
+  const { capacity, windowSeconds } = RATE_LIMITS[family];
+  const msPerToken = (windowSeconds * 1000) / capacity;
+
+  while (true) {
+    const bucket = getBucket(family);
+    const now = Date.now();
+    refill(family, bucket, now);
+
+    if (bucket.blockedUntil > now) {
+      await sleep(bucket.blockedUntil - now);
+      continue;
+    }
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    await sleep(Math.ceil((1 - bucket.tokens) * msPerToken));
+  }
+}
+
+/**
+ * Whether an error message from Bird describes a rate-limit response.
+ */
+export function isRateLimitError(error: string | undefined): boolean {
+  return !!error && RATE_LIMIT_PATTERN.test(error);
+}
+
+/**
+ * Record a rate-limit response: empty the bucket and block the family for an
+ * exponentially growing backoff.
+ */
+function recordRateLimit(family: EndpointFamily): number {
+  const bucket = getBucket(family);
+  const now = Date.now();
+  const backoffMs = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** bucket.consecutiveLimits);
+
+  bucket.tokens = 0;
+  bucket.updatedAt = now;
+  bucket.blockedUntil = now + backoffMs;
+  bucket.lastRateLimitedAt = now;
+  bucket.consecutiveLimits++;
+
+  return backoffMs;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Run a Bird call within the family's request budget.
+ *
+ * Waits for a token before calling. When Bird reports a rate-limit error the family
+ * backs off and the call is retried (up to MAX_RATE_LIMIT_RETRIES), so callers wait
+ * out throttling instead of failing. Other errors are returned unchanged.
+ */
+export async function withRateLimit<T extends { success: boolean; error?: string }>(
+  family: EndpointFamily,
+  call: () => Promise<T>,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await acquire(family);
+    const result = await call();
+
+    if (result.success || !isRateLimitError(result.error)) {
+      if (result.success) getBucket(family).consecutiveLimits = 0;
+      return result;
+    }
+
+    const backoffMs = recordRateLimit(family);
+    if (attempt >= MAX_RATE_LIMIT_RETRIES) return result;
+
+    console.warn(
+      `Twitter ${family} rate limited, retrying in ${Math.round(backoffMs / 1000)}s (attempt ${attempt + 1}/${MAX_RATE_LIMIT_RETRIES})`,
+    );
+  }
+}
+
+/**
+ * Get the current request budget of every endpoint family.
+ */
+export function getRateLimitBudget(): RateLimitBudget[] {
+  const now = Date.now();
+
+  return (Object.keys(RATE_LIMITS) as EndpointFamily[]).map((family) => {
+    const bucket = getBucket(family);
+    refill(family, bucket, now);
+
+    return {
+      family,
+      remaining: Math.floor(bucket.tokens),
+      capacity: RATE_LIMITS[family].capacity,
+      windowSeconds: RATE_LIMITS[family].windowSeconds,
+      blockedUntil: bucket.blockedUntil > now ? Math.floor(bucket.blockedUntil / 1000) : null,
+      lastRateLimitedAt: bucket.lastRateLimitedAt
+        ? Math.floor(bucket.lastRateLimitedAt / 1000)
+        : null,
+    };
+  });
+}
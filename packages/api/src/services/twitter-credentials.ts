@@ -0,0 +1,286 @@
+import type { TwitterClient } from "@steipete/bird";
+import { db } from "@trend-x/db";
+import { config, notification, twitterCredential } from "@trend-x/db/schema";
+import { and, asc, eq, inArray, notInArray } from "drizzle-orm";
+import { getTelegramConfig, sendTelegramMessage } from "./telegram";
+import { type EndpointFamily, getTwitterClient, withRateLimit } from "./twitter-client";
+
+export type CredentialStatus = "healthy" | "unhealthy";
+
+export interface TwitterCredentialSummary {
+  id: string;
+  label: string;
+  authTokenHint: string; // Last 4 characters, the token itself is never returned
+  status: CredentialStatus;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  createdAt: number;
+}
+
+export type CredentialTestResult =
+  | { success: true; name: string; username: string }
+  | { success: false; error: string };
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// Bird reports auth failures as HTTP 401/403 or Twitter error codes 32/89/215/326
+const AUTH_ERROR_PATTERN =
+  /\b40[13]\b|could not authenticate|unauthorized|forbidden|bad authentication|"code":\s*(32|89|215|326)\b/i;
+
+// lastSuccessAt is refreshed at most this often, so busy jobs don't write on every request
+const SUCCESS_WRITE_INTERVAL_SECONDS = 60;
+
+// Config keys of the single cookie pair used before the credential pool
+const LEGACY_CONFIG_KEYS = ["twitter_auth_token", "twitter_ct0"];
+
+// Round-robin position over the healthy sets (process-wide, shared by all jobs)
+let rotationIndex = 0;
+
+// ---------------------------------------------------------------------------
+// Pool management
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether an error message from Bird describes an authentication failure
+ * (expired or revoked cookies), as opposed to a transient or rate-limit error.
+ */
+export function isAuthError(error: string | undefined): boolean {
+  return !!error && AUTH_ERROR_PATTERN.test(error);
+}
+
+/**
+ * Import the legacy twitter_auth_token/twitter_ct0 config pair into the pool as
+ * the "Default" set, then delete the config keys so the import runs only once and
+ * a removed set stays removed. Run at server startup.
+ */
+export async function importLegacyConfigCredential(): Promise<void> {
+  const rows = await db
+    .select({ key: config.key, value: config.value })
+    .from(config)
+    .where(inArray(config.key, LEGACY_CONFIG_KEYS));
+  if (rows.length === 0) return;
+
+  const configMap = new Map(rows.map((r) => [r.key, r.value.trim()]));
+  const authToken = configMap.get("twitter_auth_token");
+  const ct0 = configMap.get("twitter_ct0");
+
+  if (authToken && ct0) {
+    await db
+      .insert(twitterCredential)
+      .values({ label: "Default", authToken, ct0 })
+      .onConflictDoUpdate({ target: twitterCredential.authToken, set: { ct0 } });
+    console.log("Imported legacy Twitter credentials into the credential pool");
+  }
+
+  await db.delete(config).where(inArray(config.key, LEGACY_CONFIG_KEYS));
+}
+
+function toSummary(row: typeof twitterCredential.$inferSelect): TwitterCredentialSummary {
+  return {
+    id: row.id,
+    label: row.label,
+    authTokenHint: row.authToken.slice(-4),
+    status: row.status as CredentialStatus,
+    lastSuccessAt: row.lastSuccessAt,
+    lastFailureAt: row.lastFailureAt,
+    lastError: row.lastError,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * List all registered credential sets (oldest first), without their secrets.
+ */
+export async function listCredentials(): Promise<TwitterCredentialSummary[]> {
+  const rows = await db.select().from(twitterCredential).orderBy(asc(twitterCredential.createdAt));
+  return rows.map(toSummary);
+}
+
+/**
+ * Register a cookie set. Re-adding a known auth_token updates its ct0 and label.
+ */
+export async function addCredential(input: {
+  label: string;
+  authToken: string;
+  ct0: string;
+}): Promise<TwitterCredentialSummary> {
+  const [row] = await db
+    .insert(twitterCredential)
+    .values({ label: input.label, authToken: input.authToken.trim(), ct0: input.ct0.trim() })
+    .onConflictDoUpdate({
+      target: twitterCredential.authToken,
+      set: { label: input.label, ct0: input.ct0.trim(), status: "healthy" },
+    })
+    .returning();
+
+  if (!row) {
+    throw new Error("Failed to store Twitter credentials");
+  }
+  return toSummary(row);
+}
+
+/**
+ * Remove a cookie set from the pool.
+ */
+export async function removeCredential(id: string): Promise<void> {
+  await db.delete(twitterCredential).where(eq(twitterCredential.id, id));
+}
+
+// ---------------------------------------------------------------------------
+// Health tracking
+// ---------------------------------------------------------------------------
+
+async function recordSuccess(id: string, lastSuccessAt: number | null): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  if (lastSuccessAt !== null && now - lastSuccessAt < SUCCESS_WRITE_INTERVAL_SECONDS) return;
+
+  await db
+    .update(twitterCredential)
+    .set({ lastSuccessAt: now })
+    .where(eq(twitterCredential.id, id));
+}
+
+/**
+ * Mark a set unhealthy after an auth error. When it was the last healthy set,
+ * fire a system notification (and Telegram message, if enabled).
+ */
+async function recordAuthFailure(id: string, error: string): Promise<void> {
+  const [before] = await db
+    .select({ label: twitterCredential.label, status: twitterCredential.status })
+    .from(twitterCredential)
+    .where(eq(twitterCredential.id, id));
+  if (!before) return;
+
+  await db
+    .update(twitterCredential)
+    .set({
+      status: "unhealthy",
+      lastFailureAt: Math.floor(Date.now() / 1000),
+      lastError: error.slice(0, 500),
+    })
+    .where(eq(twitterCredential.id, id));
+
+  // Only the transition to unhealthy can leave the pool empty
+  if (before.status !== "healthy") return;
+
+  console.warn(`Twitter credential "${before.label}" marked unhealthy: ${error}`);
+
+  const healthy = await db
+    .select({ id: twitterCredential.id })
+    .from(twitterCredential)
+    .where(eq(twitterCredential.status, "healthy"));
+
+  if (healthy.length === 0) {
+    await notifyAllCredentialsUnhealthy();
+  }
+}
+
+async function notifyAllCredentialsUnhealthy(): Promise<void> {
+  const title = "All Twitter Credentials Unhealthy";
+  const explanation =
+    "Every registered Twitter cookie set failed authentication, so ingestion and social snapshots are paused. Add fresh cookies in Settings.";
+
+  await db.insert(notification).values({
+    accountId: null,
+    detectionRunId: null,
+    changeId: null,
+    title,
+    explanation,
+    changeType: "credentials_unhealthy",
+  });
+
+  try {
+    const telegramConfig = await getTelegramConfig();
+    if (telegramConfig?.enabled) {
+      await sendTelegramMessage(
+        telegramConfig.botToken,
+        telegramConfig.chatId,
+        `<b>${title}</b>\n\n${explanation}`,
+      );
+    }
+  } catch (error) {
+    console.error("Failed to send credential alert to Telegram:", error);
+  }
+}
+
+/**
+ * Check a set against the current-user endpoint. Success marks it healthy again,
+ * an auth error marks it unhealthy.
+ */
+export async function testCredential(id: string): Promise<CredentialTestResult> {
+  const [row] = await db.select().from(twitterCredential).where(eq(twitterCredential.id, id));
+  if (!row) {
+    return { success: false, error: `Credential ${id} not found` };
+  }
+
+  const client = getTwitterClient(row.authToken, row.ct0);
+  const result = await withRateLimit("account", () => client.getCurrentUser());
+
+  if (!result.success || !result.user) {
+    const error = result.error ?? "Failed to authenticate";
+    if (isAuthError(error)) await recordAuthFailure(id, error);
+    return { success: false, error };
+  }
+
+  await db
+    .update(twitterCredential)
+    .set({ status: "healthy", lastSuccessAt: Math.floor(Date.now() / 1000), lastError: null })
+    .where(eq(twitterCredential.id, id));
+
+  return { success: true, name: result.user.name, username: result.user.username };
+}
+
+// ---------------------------------------------------------------------------
+// Rotation
+// ---------------------------------------------------------------------------
+
+/**
+ * Run a Bird call with the next healthy credential set, within the family's rate-limit budget.
+ *
+ * Sets are used round-robin. A set answering with an auth error is marked unhealthy and
+ * the call moves on to the next one. Throws when no healthy set is left, so the calling
+ * job fails with a clear reason instead of an empty fetch.
+ */
+export async function withTwitterCredential<T extends { success: boolean; error?: string }>(
+  family: EndpointFamily,
+  call: (client: TwitterClient) => Promise<T>,
+): Promise<T> {
+  const tried: string[] = [];
+
+  while (true) {
+    const healthy = await db
+      .select()
+      .from(twitterCredential)
+      .where(
+        tried.length > 0
+          ? and(eq(twitterCredential.status, "healthy"), notInArray(twitterCredential.id, tried))
+          : eq(twitterCredential.status, "healthy"),
+      )
+      .orderBy(asc(twitterCredential.createdAt));
+
+    const credential = healthy[rotationIndex++ % Math.max(healthy.length, 1)];
+    if (!credential) {
+      throw new Error(
+        tried.length > 0
+          ? "All Twitter credentials failed authentication"
+          : "No healthy Twitter credentials configured",
+      );
+    }
+    tried.push(credential.id);
+
+    const client = getTwitterClient(credential.authToken, credential.ct0);
+    const result = await withRateLimit(family, () => call(client));
+
+    if (result.success) {
+      await recordSuccess(credential.id, credential.lastSuccessAt);
+      return result;
+    }
+
+    if (!isAuthError(result.error)) return result;
+
+    await recordAuthFailure(credential.id, result.error ?? "Authentication failed");
+  }
+}
@@ -0,0 +1,35 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+
+/**
+ * Account profile snapshot - the monitored account's own Twitter profile metadata
+ * (display name, bio, location, website, avatar, pinned tweet, verification).
+ * Captured on each live ingest and social snapshot; a row is only added when a
+ * field differs from the latest snapshot, so each row marks a profile edit.
+ */
+export const accountProfileSnapshot = sqliteTable(
+  "account_profile_snapshot",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    username: text("username").notNull(), // handle at capture time (renames are tracked on account)
+    displayName: text("display_name").notNull(),
+    description: text("description"),
+    location: text("location"),
+    website: text("website"), // expanded profile link
+    profileImageUrl: text("profile_image_url"),
+    pinnedTweetId: text("pinned_tweet_id"),
+    isVerified: integer("is_verified").notNull().default(0), // 0 or 1
+    trigger: text("trigger").notNull(), // "ingest" | "social_snapshot"
+    capturedAt: integer("captured_at")
+      .notNull()
+      .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  },
+  (table) => [
+    index("account_profile_snapshot_account_captured_idx").on(table.accountId, table.capturedAt),
+  ],
+);
@@ -0,0 +1,26 @@
+import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+
+/**
+ * Account tag - free-form labels on monitored accounts (e.g. "vc", "founder").
+ * Tags are stored lowercased and trimmed; an account has each tag at most once.
+ */
+export const accountTag = sqliteTable(
+  "account_tag",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    tag: text("tag").notNull(),
+    createdAt: integer("created_at")
+      .notNull()
+      .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  },
+  (table) => [
+    uniqueIndex("account_tag_account_tag_idx").on(table.accountId, table.tag),
+    index("account_tag_tag_idx").on(table.tag),
+  ],
+);
@@ -4,7 +4,13 @@ export const account = sqliteTable("account", {
   id: text("id")
     .primaryKey()
     .$defaultFn(() => crypto.randomUUID()),
-  handle: text("handle").notNull().unique(),
+  handle: text("handle").notNull().unique(), // Current handle, refreshed from the timeline on renames
+  twitterUserId: text("twitter_user_id").unique(), // Stable numeric Twitter user ID, null until first resolved live
+  notes: text("notes"), // Free-form notes, e.g. from a bulk import
+  // Lifecycle: "active" | "paused" | "archived". Paused and archived accounts are skipped by
+  // the scheduler; archived accounts keep their data but are read-only
+  status: text("status").notNull().default("active"),
+  fetchIntervalMinutes: integer("fetch_interval_minutes"), // Cadence override for scheduled fetches, null = follow the ingest schedule
   createdAt: integer("created_at")
     .notNull()
     .$defaultFn(() => Math.floor(Date.now() / 1000)),
@@ -12,4 +18,6 @@ export const account = sqliteTable("account", {
   lastFetchedTweetId: text("last_fetched_tweet_id"),
   lastFetchedAt: integer("last_fetched_at"),
   lastFetchError: text("last_fetch_error"),
+  // Ingestion policy: JSON {includeReplies, includeRetweets, includeQuotes, weights: {original, reply, retweet, quote}}, null = defaults
+  ingestionPolicy: text("ingestion_policy"),
 });
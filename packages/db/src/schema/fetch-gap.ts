@@ -0,0 +1,27 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+
+/**
+ * Fetch gap - a stretch of an account's timeline that an incremental fetch skipped
+ * because it hit the page cap before reaching the previous lastFetchedTweetId.
+ * The gap spans tweets older than newerTweetId and newer than olderTweetId;
+ * resumeCursor lets the gap_backfill job continue paging where the fetch stopped.
+ */
+export const fetchGap = sqliteTable("fetch_gap", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  accountId: text("account_id")
+    .notNull()
+    .references(() => account.id, { onDelete: "cascade" }),
+  newerTweetId: text("newer_tweet_id").notNull(), // oldest tweet fetched before the cap (exclusive bound)
+  olderTweetId: text("older_tweet_id").notNull(), // previous lastFetchedTweetId (exclusive bound)
+  resumeCursor: text("resume_cursor"), // timeline cursor for the first unfetched page, null once filled
+  status: text("status").notNull().default("open"), // "open" | "filled"
+  tweetsRecovered: integer("tweets_recovered").notNull().default(0),
+  lastError: text("last_error"), // nullable, last backfill failure
+  createdAt: integer("created_at")
+    .notNull()
+    .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  filledAt: integer("filled_at"), // nullable, when backfill reached olderTweetId
+});
@@ -1,7 +1,11 @@
 export * from "./account";
 export * from "./account-profile";
+export * from "./account-profile-snapshot";
+export * from "./account-tag";
 export * from "./config";
 export * from "./detection";
+export * from "./fetch-gap";
+export * from "./named-entity";
 export * from "./notification";
 export * from "./pipeline-run";
 export * from "./pipeline-step";
@@ -9,6 +13,15 @@ export * from "./profile-activity-log";
 export * from "./scheduled-job";
 export * from "./social-connection";
 export * from "./social-snapshot";
+export * from "./theme";
+export * from "./theme-assignment";
 export * from "./token-usage";
 export * from "./topic-drift-buffer";
+export * from "./topic-snapshot";
 export * from "./tweet";
+export * from "./tweet-embedding";
+export * from "./tweet-engagement-snapshot";
+export * from "./tweet-entity";
+export * from "./tweet-revision";
+export * from "./tweet-topic";
+export * from "./twitter-credential";
@@ -0,0 +1,40 @@
+import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+import { tweet } from "./tweet";
+
+/**
+ * Named entity - one row per company, person, product or ticker a tweet talks about.
+ * Extracted by the chat model during profile updates, unlike the pattern-based
+ * tweet_entity rows written at ingest. normalizedName groups spellings of the same
+ * entity across tweets and accounts.
+ */
+export const namedEntity = sqliteTable(
+  "named_entity",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    tweetId: text("tweet_id")
+      .notNull()
+      .references(() => tweet.id, { onDelete: "cascade" }),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    type: text("type").notNull(), // "company" | "person" | "product" | "ticker"
+    name: text("name").notNull(), // canonical name as returned by the model, e.g. "OpenAI"
+    normalizedName: text("normalized_name").notNull(), // lowercased, whitespace collapsed; tickers uppercased without "$"
+    tweetCreatedAt: integer("tweet_created_at").notNull(), // copied from tweet for windowed queries
+    extractedAt: integer("extracted_at")
+      .notNull()
+      .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  },
+  (table) => [
+    uniqueIndex("named_entity_tweet_type_name_idx").on(
+      table.tweetId,
+      table.type,
+      table.normalizedName,
+    ),
+    index("named_entity_account_created_idx").on(table.accountId, table.tweetCreatedAt),
+    index("named_entity_type_name_idx").on(table.type, table.normalizedName),
+  ],
+);
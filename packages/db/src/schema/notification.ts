@@ -7,21 +7,24 @@ import { changeDetectionRun, detectedChange } from "./detection";
  * Created automatically when changes are detected during fingerprint or profile analysis.
  * detectionRunId and changeId are nullable to support profile-based detection
  * which doesn't produce fingerprint detection runs.
+ * accountId is null for system notifications that concern no single account
+ * (e.g. every Twitter credential set turning unhealthy, or a subject trending
+ * across several accounts).
  */
 export const notification = sqliteTable("notification", {
   id: text("id")
     .primaryKey()
     .$defaultFn(() => crypto.randomUUID()),
   accountId: text("account_id")
-    .notNull()
-    .references(() => account.id, { onDelete: "cascade" }),
+    .references(() => account.id, { onDelete: "cascade" }), // null for system notifications
   detectionRunId: text("detection_run_id")
     .references(() => changeDetectionRun.id, { onDelete: "cascade" }),
   changeId: text("change_id")
     .references(() => detectedChange.id, { onDelete: "cascade" }),
   title: text("title").notNull(), // e.g., "New Topic: AI Regulation"
   explanation: text("explanation").notNull(), // 1-2 sentence LLM explanation
-  changeType: text("change_type").notNull(), // "topic_new" | "topic_drop" | "sentiment_shift" | "activity_spike" | "activity_drop" | "silence" | "personality_drift" | "topic_emergence" | "topic_abandonment" | "activity_anomaly"
+  changeType: text("change_type").notNull(), // "topic_new" | "topic_drop" | "sentiment_shift" | "activity_spike" | "activity_drop" | "silence" | "personality_drift" | "topic_emergence" | "topic_abandonment" | "activity_anomaly" | "tweet_deleted" | "tweet_edited" | "credentials_unhealthy" | "handle_changed" | "profile_field_changed" | "cross_account_trend" | "entity_new"
+  evidence: text("evidence"), // JSON - change-specific evidence, e.g. {tweetId, originalText, newText?} for tweet_deleted/tweet_edited, {previousHandle, newHandle, twitterUserId} for handle_changed, {field, before, after} for profile_field_changed, {label, accounts, tweetIds, tweets, windowStart, windowEnd} for cross_account_trend, {type, name, normalizedName, tweetIds} for entity_new
   isRead: integer("is_read").notNull().default(0), // 0=unread, 1=read
   createdAt: integer("created_at")
     .notNull()
@@ -2,7 +2,8 @@ import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
 
 /**
  * Scheduled jobs table - stores cron configuration for recurring jobs.
- * Each row represents a scheduled job type with its cron expression and enabled state.
+ * Each row represents a scheduled job type with its cron expression and enabled state,
+ * run for all accounts or only the accounts of one group (tag).
  */
 export const scheduledJob = sqliteTable("scheduled_job", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -10,6 +11,7 @@ export const scheduledJob = sqliteTable("scheduled_job", {
   cronExpression: text("cron_expression").notNull(), // "0 */6 * * *"
   enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
   label: text("label"), // Human-readable name: "Tweet Fetch"
+  accountTag: text("account_tag"), // Account group the job runs for, null = all accounts
   lastRunAt: integer("last_run_at"),
   nextRunAt: integer("next_run_at"),
   createdAt: integer("created_at").$defaultFn(() => Math.floor(Date.now() / 1000)),
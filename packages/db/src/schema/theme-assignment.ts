@@ -0,0 +1,31 @@
+import { index, integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+import { theme } from "./theme";
+
+/**
+ * Theme assignment - maps an account topic to its theme. Every taxonomy rebuild
+ * appends a full set of rows sharing one capturedAt: the latest capture is the current
+ * mapping, older captures give the theme's account count over time.
+ */
+export const themeAssignment = sqliteTable(
+  "theme_assignment",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    themeId: text("theme_id")
+      .notNull()
+      .references(() => theme.id, { onDelete: "cascade" }),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    topicId: text("topic_id").notNull(), // ProfileTopic.id
+    topicLabel: text("topic_label").notNull(), // copied at capture time
+    similarity: real("similarity").notNull(), // cosine similarity of the topic to the theme centroid
+    capturedAt: integer("captured_at").notNull(), // Unix timestamp of the rebuild
+  },
+  (table) => [
+    index("theme_assignment_captured_idx").on(table.capturedAt),
+    index("theme_assignment_theme_captured_idx").on(table.themeId, table.capturedAt),
+  ],
+);
@@ -0,0 +1,23 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+/**
+ * Theme - a cross-account topic theme. Built by clustering the topic centroids of
+ * all monitored accounts, so "LLM Agents" on one account and "AI Agents Hype" on
+ * another land in the same theme. Rebuilt daily; IDs and labels are kept for themes
+ * that survive a rebuild.
+ */
+export const theme = sqliteTable("theme", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  label: text("label").notNull(),
+  centroid: text("centroid").notNull(), // JSON array of numbers, mean of member topic centroids
+  topicCount: integer("topic_count").notNull().default(0), // member topics at the last rebuild
+  accountCount: integer("account_count").notNull().default(0), // distinct accounts at the last rebuild
+  createdAt: integer("created_at")
+    .notNull()
+    .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  updatedAt: integer("updated_at")
+    .notNull()
+    .$defaultFn(() => Math.floor(Date.now() / 1000)),
+});
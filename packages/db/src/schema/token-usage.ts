@@ -4,7 +4,7 @@ export const tokenUsage = sqliteTable("token_usage", {
   id: text("id")
     .primaryKey()
     .$defaultFn(() => crypto.randomUUID()),
-  operation: text("operation").notNull(), // "embedding" | "labeling" | "sentiment" | "explanation"
+  operation: text("operation").notNull(), // "embedding" | "labeling" | "sentiment" | "explanation" | "personality" | "entities"
   provider: text("provider").notNull(), // "openai" | "openrouter" | "ollama"
   model: text("model").notNull(),
   promptTokens: integer("prompt_tokens").notNull().default(0),
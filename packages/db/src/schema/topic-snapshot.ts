@@ -0,0 +1,29 @@
+import { index, integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+
+/**
+ * Topic snapshot - one row per profile topic per profile update, so topic
+ * proportions can be charted over time. Rows from the same update share capturedAt.
+ * label is copied at capture time; topicId follows ProfileTopic.id and can stop
+ * appearing once a topic is merged away.
+ */
+export const topicSnapshot = sqliteTable(
+  "topic_snapshot",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    topicId: text("topic_id").notNull(), // ProfileTopic.id
+    label: text("label").notNull(),
+    proportion: real("proportion").notNull(), // 0-1 share of tweets
+    tweetCount: integer("tweet_count").notNull(),
+    sentimentPositive: real("sentiment_positive").notNull(),
+    sentimentNeutral: real("sentiment_neutral").notNull(),
+    sentimentNegative: real("sentiment_negative").notNull(),
+    capturedAt: integer("captured_at").notNull(), // Unix timestamp of the profile update
+  },
+  (table) => [index("topic_snapshot_account_captured_idx").on(table.accountId, table.capturedAt)],
+);
@@ -0,0 +1,35 @@
+import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { tweet } from "./tweet";
+
+/**
+ * Tweet embedding - persisted embedding vectors, one row per tweet/model/text combination.
+ * The text hash (sha256 of the exact text sent to the provider) acts as a content cache key:
+ * identical text embedded with the same model is never sent to the provider twice.
+ * Rows whose model differs from the configured embedding model are stale after a model switch.
+ */
+export const tweetEmbedding = sqliteTable(
+  "tweet_embedding",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    tweetId: text("tweet_id")
+      .notNull()
+      .references(() => tweet.id, { onDelete: "cascade" }),
+    model: text("model").notNull(), // embedding model that produced the vector
+    textHash: text("text_hash").notNull(), // sha256 hex of the embedded text
+    embedding: text("embedding").notNull(), // JSON array of numbers
+    dimensions: integer("dimensions").notNull(),
+    createdAt: integer("created_at")
+      .notNull()
+      .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  },
+  (table) => [
+    uniqueIndex("tweet_embedding_tweet_model_hash_idx").on(
+      table.tweetId,
+      table.model,
+      table.textHash,
+    ),
+    index("tweet_embedding_model_hash_idx").on(table.model, table.textHash),
+  ],
+);
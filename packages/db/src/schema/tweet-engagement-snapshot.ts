@@ -0,0 +1,33 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+import { tweet } from "./tweet";
+
+/**
+ * Tweet engagement snapshot - engagement counts each time a tweet is (re-)seen.
+ * The tweet table only holds the latest counts; this table keeps the curve,
+ * written by every live fetch and by the engagement_poll job's decay-scheduled re-polls.
+ */
+export const tweetEngagementSnapshot = sqliteTable(
+  "tweet_engagement_snapshot",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    tweetId: text("tweet_id")
+      .notNull()
+      .references(() => tweet.id, { onDelete: "cascade" }),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    likeCount: integer("like_count").notNull(),
+    retweetCount: integer("retweet_count").notNull(),
+    replyCount: integer("reply_count").notNull(),
+    capturedAt: integer("captured_at")
+      .notNull()
+      .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  },
+  (table) => [
+    index("tweet_engagement_snapshot_tweet_idx").on(table.tweetId, table.capturedAt),
+    index("tweet_engagement_snapshot_account_idx").on(table.accountId, table.capturedAt),
+  ],
+);
@@ -0,0 +1,36 @@
+import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+import { tweet } from "./tweet";
+
+/**
+ * Tweet entity - one row per hashtag, mention, link, link domain or cashtag in a tweet.
+ * Extracted at ingest so an account's most amplified sources and people can be
+ * aggregated without re-parsing tweet text.
+ * Values are normalized: hashtags and mentions lowercased without their prefix,
+ * cashtags uppercased, domains lowercased without "www.".
+ */
+export const tweetEntity = sqliteTable(
+  "tweet_entity",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    tweetId: text("tweet_id")
+      .notNull()
+      .references(() => tweet.id, { onDelete: "cascade" }),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    type: text("type").notNull(), // "hashtag" | "mention" | "url" | "domain" | "cashtag"
+    value: text("value").notNull(),
+    tweetCreatedAt: integer("tweet_created_at").notNull(), // copied from tweet for windowed queries
+  },
+  (table) => [
+    uniqueIndex("tweet_entity_tweet_type_value_idx").on(table.tweetId, table.type, table.value),
+    index("tweet_entity_account_type_created_idx").on(
+      table.accountId,
+      table.type,
+      table.tweetCreatedAt,
+    ),
+  ],
+);
@@ -0,0 +1,29 @@
+import { index, integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+import { tweet } from "./tweet";
+
+/**
+ * Tweet revision - one row per detected edit of a stored tweet.
+ * Written when a fetch returns a known tweet with different text; the tweet row
+ * then holds the new text and this row keeps what it said before.
+ */
+export const tweetRevision = sqliteTable(
+  "tweet_revision",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    tweetId: text("tweet_id")
+      .notNull()
+      .references(() => tweet.id, { onDelete: "cascade" }),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    previousText: text("previous_text").notNull(),
+    newText: text("new_text").notNull(),
+    detectedAt: integer("detected_at")
+      .notNull()
+      .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  },
+  (table) => [index("tweet_revision_tweet_idx").on(table.tweetId, table.detectedAt)],
+);
@@ -0,0 +1,33 @@
+import { index, integer, real, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { account } from "./account";
+import { tweet } from "./tweet";
+
+/**
+ * Tweet topic - which profile topic each classified tweet was assigned to.
+ * One row per tweet; reclassification overwrites it. topicId refers to a topic in the
+ * account profile's topics JSON, so rows are repointed when topics merge or split.
+ * Tweets waiting in the drift buffer have no row until the buffer is re-clustered.
+ */
+export const tweetTopic = sqliteTable(
+  "tweet_topic",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    tweetId: text("tweet_id")
+      .notNull()
+      .references(() => tweet.id, { onDelete: "cascade" }),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => account.id, { onDelete: "cascade" }),
+    topicId: text("topic_id").notNull(), // ProfileTopic.id
+    similarity: real("similarity").notNull(), // cosine similarity to the topic centroid at assignment
+    assignedAt: integer("assigned_at")
+      .notNull()
+      .$defaultFn(() => Math.floor(Date.now() / 1000)),
+  },
+  (table) => [
+    uniqueIndex("tweet_topic_tweet_idx").on(table.tweetId),
+    index("tweet_topic_account_topic_idx").on(table.accountId, table.topicId),
+  ],
+);
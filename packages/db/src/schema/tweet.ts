@@ -17,4 +17,11 @@ export const tweet = sqliteTable("tweet", {
   isRetweet: integer("is_retweet").notNull().default(0), // 0 or 1 boolean flag
   isReply: integer("is_reply").notNull().default(0), // 0 or 1 boolean flag
   isQuoteTweet: integer("is_quote_tweet").notNull().default(0), // 0 or 1 boolean flag
+  source: text("source").notNull().default("bird"), // "bird" | "fixture" | "archive" - where the row came from
+  deletedAt: integer("deleted_at"), // Unix timestamp when found missing from its timeline window, null while live
+  // Per-tweet sentiment and stance, scored during profile updates; null until scored
+  sentiment: text("sentiment"), // "positive" | "neutral" | "negative"
+  stance: text("stance"), // "support" | "oppose" | "none" - toward the tweet's main subject
+  sentimentScoredAt: integer("sentiment_scored_at"),
+  entitiesExtractedAt: integer("entities_extracted_at"), // When named entities were extracted, null until then
 });
@@ -0,0 +1,23 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+/**
+ * Twitter credential - one registered cookie set (auth_token + ct0) in the credential pool.
+ * Bird requests rotate over healthy sets; a set that gets an auth error is marked
+ * unhealthy until a credential test succeeds again.
+ * The legacy twitter_auth_token/twitter_ct0 config pair is imported once at startup.
+ */
+export const twitterCredential = sqliteTable("twitter_credential", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  label: text("label").notNull(), // e.g. "Main account"
+  authToken: text("auth_token").notNull().unique(),
+  ct0: text("ct0").notNull(),
+  status: text("status").notNull().default("healthy"), // "healthy" | "unhealthy"
+  lastSuccessAt: integer("last_success_at"), // nullable, unix timestamp of the last successful request
+  lastFailureAt: integer("last_failure_at"), // nullable, unix timestamp of the last auth error
+  lastError: text("last_error"), // nullable, error message of the last auth error
+  createdAt: integer("created_at")
+    .notNull()
+    .$defaultFn(() => Math.floor(Date.now() / 1000)),
+});